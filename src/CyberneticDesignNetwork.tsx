@@ -1,291 +1,284 @@
-import React, { useMemo, useState, useCallback, useRef } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Html, Line } from '@react-three/drei';
+import React, { useMemo, useState, useCallback, useRef, useEffect } from 'react';
+import { Canvas, useFrame, useThree, type RootState } from '@react-three/fiber';
+import { OrbitControls, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import data from '../public/data.json';
+import type { NetworkData, RawNode, RawLink } from './network/types';
+import {
+    EMPTY_EXPLORATION,
+    TRAVERSAL_DIRECTIONS,
+    type NodeExploration,
+    type NodeLayer,
+    type TraversalDirection
+} from './exploration/types';
+import type { Layout2D } from './layout/types';
+import {
+    FULL_LAYOUT_OPTIONS,
+    RANDOMIZE_LAYOUT_OPTIONS,
+    RELAX_LAYOUT_OPTIONS,
+    seedLayout
+} from './layout/forceLayout';
+import { useForceLayout, type LayoutRequest } from './layout/useForceLayout';
+import {
+    getDefaultRadialRoot,
+    OVERVIEW_LAYOUT_LABELS,
+    type OverviewLayoutKind,
+    type OverviewLayoutRequest
+} from './layout/overviewLayouts';
+import { useOverviewLayout } from './layout/useOverviewLayout';
+import { useLayoutTransition } from './layout/useLayoutTransition';
+import {
+    DEFAULT_NETWORK_URL,
+    getNetworkUrlFromQuery,
+    loadNetworkFromFile,
+    loadNetworkFromUrl,
+    type NetworkLoadResult
+} from './network/loader';
+import {
+    addLink,
+    addNode,
+    hasLink,
+    removeLink,
+    removeNode,
+    renameNode,
+    updateLink
+} from './network/editing';
+import { exportNetwork, NETWORK_FILE_ACCEPT, NETWORK_FORMATS, type NetworkFormat } from './network/interchange';
+import { downloadBlob, downloadText } from './utils/download';
+import { createRandom, generateSeed } from './utils/random';
+import { getLinkColor, getLinkStrength, getLinkWidth } from './network/links';
+import { getNodeCategories, getNodeCategory, getNodeColors, UNCATEGORIZED_COLOR } from './network/categories';
+import NetworkLoadStatus from './components/NetworkLoadStatus';
+import InfluenceLink from './components/InfluenceLink';
+import PulseControls from './components/PulseControls';
+import { PULSE_FLASH_SECONDS, schedulePulses, type PulseTiming } from './simulation/influencePulses';
+import SimulationPanel from './components/SimulationPanel';
+import FeedbackLoopsPanel from './components/FeedbackLoopsPanel';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import CategoryLegend from './components/CategoryLegend';
+import CommandPalette, { type PaletteCommand } from './components/CommandPalette';
+import PathFinderPanel from './components/PathFinderPanel';
+import NetworkMetricsPanel, { type MetricEmphasis } from './components/NetworkMetricsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import LayoutSelector from './components/LayoutSelector';
+import SeedGallery from './components/SeedGallery';
+import ExportMenu, { type ExportOption } from './components/ExportMenu';
+import { captureScenePng, exportSceneGltf, type ExportLabel } from './export/sceneExport';
+import { overviewToSvg } from './export/overviewSvg';
+import { useUndoHistory } from './history/useUndoHistory';
+import {
+    clearProfileSessions,
+    explorationToRecord,
+    layoutToRecord,
+    loadPersistedSession,
+    loadProfiles,
+    loadSeedGallery,
+    recordToExploration,
+    recordToLayout,
+    savePersistedSession,
+    saveProfiles,
+    saveSeedGallery,
+    type SavedLayoutSeed,
+    type ProfileRegistry
+} from './session/storage';
+import {
+    compareNetworks,
+    parseSessionFile,
+    getFeedbackLog,
+    parseSessionHistory,
+    serializeSession,
+    type SessionEvent
+} from './session/sessionFile';
+import { formatUrlState, parseUrlState, type CameraPose } from './session/urlState';
+import { findFeedbackLoops, getCycleLinkKeys, getLoopLinkKeys, LOOP_COLORS, type FeedbackLoop } from './analysis/feedbackLoops';
+import { normalizeMetric, type MetricKey } from './analysis/centrality';
+import { useNetworkMetrics } from './analysis/useNetworkMetrics';
+import { EMPTY_PATH_QUERY, findPaths, getPathLinkKeys, PATH_COLOR, type PathQuery } from './analysis/paths';
+import { useFeedbackSimulation } from './simulation/useFeedbackSimulation';
+import { getStateColor, type NodeStates } from './simulation/feedbackSimulation';
+import NetworkEditorPanel from './components/NetworkEditorPanel';
+import OrderingSettingsPanel from './components/OrderingSettingsPanel';
+import RecommendationsPanel from './components/RecommendationsPanel';
+import { recommendNextNodes } from './exploration/recommendations';
+import AggregatePanel from './components/AggregatePanel';
+import {
+    aggregateFeedback,
+    getHeatColor,
+    getParticipantClock,
+    loadParticipant,
+    uniqueParticipantName,
+    type HeatmapMode,
+    type Participant
+} from './session/aggregate';
+import {
+    DEFAULT_ORDERING_SETTINGS,
+    ORDERING_STRATEGIES,
+    type FeedbackRecord,
+    type OrderingContext,
+    type OrderingSettings,
+    type ReachedNode
+} from './exploration/ordering';
 
-interface RawNode {
-    id: string;
-    label: string;
-}
-
-interface RawLink {
-    source: string;
-    target: string;
-}
-
-interface NodeLayer {
-    level: number;
-    nodes: string[];
-}
-
-interface NodeExploration {
-    visits: number;
-    insightful: number;
-    neutral: number;
-    familiar: number;
-}
-
-// ==== Utility: Calculate exploration score for a node ====
-function getExplorationScore(nodeId: string, explorationData: Map<string, NodeExploration>): number {
-    const data = explorationData.get(nodeId);
-    if (!data) return 0;
-    
-    const totalFeedback = data.insightful + data.neutral + data.familiar;
-    if (totalFeedback === 0) {
-        return 0; // Neutral score for unexplored nodes
-    }
+// ==== Expand a BFS frontier, strongest influence first ====
+// Targets are ordered by the summed strength of links arriving from the frontier,
+// so with unweighted links the order is simply first-seen.
+function expandByInfluence(frontier: string[], links: RawLink[], reachWeight?: Map<string, number>): string[] {
+    const incoming = new Map<string, number>();
+    frontier.forEach(nodeId => {
+        links
+            .filter(l => l.source === nodeId)
+            .forEach(l => {
+                incoming.set(l.target, (incoming.get(l.target) || 0) + getLinkStrength(l));
+            });
+    });
+    
+    incoming.forEach((weight, id) => {
+        if (reachWeight && !reachWeight.has(id)) reachWeight.set(id, weight);
+    });
     
-    // Score: insightful increases score, familiar decreases score
-    // Range: -2 to +2
-    const score = (data.insightful * 2 - data.familiar * 2) / totalFeedback;
-    return score;
+    return [...incoming.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([id]) => id);
 }
 
 // ==== Adaptive BFS with layer reordering based on exploration ====
-function getAdaptiveHierarchicalLayers(
+// The walk sets each node's depth; in cybernetic mode the chosen ordering
+// strategy then decides the layers below the start node.
+function getDirectedLayers(
     startId: string,
     links: RawLink[],
-    explorationData: Map<string, NodeExploration>,
-    cyberneticMode: boolean
+    cyberneticMode: boolean,
+    ordering: OrderingContext
 ): NodeLayer[] {
     const visited = new Set<string>();
-    const layers: NodeLayer[] = [];
+    const walk: string[][] = [];
+    const reachWeight = new Map<string, number>();
     let currentLevel = [startId];
-    let level = 0;
-    
-    // First, do normal BFS to get all reachable nodes
-    const allNodesInPath: string[] = [];
-    const tempVisited = new Set<string>();
-    let tempLevel = [startId];
-    
-    while (tempLevel.length > 0) {
-        const validNodes = tempLevel.filter(id => !tempVisited.has(id));
-        if (validNodes.length === 0) break;
-        
-        validNodes.forEach(id => {
-            tempVisited.add(id);
-            allNodesInPath.push(id);
-        });
-        
-        const nextLevel: string[] = [];
-        validNodes.forEach(nodeId => {
-            const outgoing = links
-                .filter(l => l.source === nodeId)
-                .map(l => l.target);
-            nextLevel.push(...outgoing);
-        });
-        
-        tempLevel = nextLevel;
-    }
-    
-    // In cybernetic mode, reorder nodes by exploration score
-    if (cyberneticMode && allNodesInPath.length > 1) {
-        // Keep the start node at layer 0
-        const startNode = allNodesInPath[0];
-        const otherNodes = allNodesInPath.slice(1);
-        
-        // Sort other nodes by exploration score (higher score = earlier layer)
-        const nodesWithScores = otherNodes.map(nodeId => ({
-            id: nodeId,
-            score: getExplorationScore(nodeId, explorationData)
-        }));
-        
-        nodesWithScores.sort((a, b) => b.score - a.score);
-        
-        // Distribute into layers
-        layers.push({ level: 0, nodes: [startNode] });
-        
-        const nodesPerLayer = 3;
-        let currentLayerNodes: string[] = [];
-        let currentLayerIndex = 1;
-        
-        nodesWithScores.forEach((node, idx) => {
-            currentLayerNodes.push(node.id);
-            
-            if (currentLayerNodes.length >= nodesPerLayer || idx === nodesWithScores.length - 1) {
-                layers.push({ level: currentLayerIndex, nodes: [...currentLayerNodes] });
-                currentLayerNodes = [];
-                currentLayerIndex++;
-            }
-        });
-        
-        return layers;
-    }
     
-    // Normal mode: standard BFS
     while (currentLevel.length > 0) {
         const validNodes = currentLevel.filter(id => !visited.has(id));
         if (validNodes.length === 0) break;
         
         validNodes.forEach(id => visited.add(id));
-        layers.push({ level, nodes: validNodes });
-        
-        const nextLevel: string[] = [];
-        validNodes.forEach(nodeId => {
-            const outgoing = links
-                .filter(l => l.source === nodeId)
-                .map(l => l.target);
-            nextLevel.push(...outgoing);
-        });
+        walk.push(validNodes);
         
-        currentLevel = nextLevel;
-        level++;
+        currentLevel = expandByInfluence(validNodes, links, reachWeight);
     }
     
-    return layers;
-}
-
-// ==== Force-directed layout with randomization ====
-function forceDirectedLayout(nodes: RawNode[], links: RawLink[], randomize: boolean = false) {
-    const positions = new Map<string, { x: number; y: number; vx: number; vy: number }>();
-    
-    // Initialize positions
-    nodes.forEach((node, i) => {
-        if (randomize) {
-            // Random initialization with larger spread
-            const angle = Math.random() * Math.PI * 2;
-            const radius = 2 + Math.random() * 3;
-            positions.set(node.id, {
-                x: Math.cos(angle) * radius,
-                y: Math.sin(angle) * radius,
-                vx: (Math.random() - 0.5) * 0.1,
-                vy: (Math.random() - 0.5) * 0.1
-            });
-        } else {
-            const angle = (i / nodes.length) * Math.PI * 2;
-            const radius = 3.5;
-            positions.set(node.id, {
-                x: Math.cos(angle) * radius,
-                y: Math.sin(angle) * radius,
-                vx: 0,
-                vy: 0
-            });
-        }
-    });
-    
-    // Force simulation
-    const iterations = randomize ? 200 : 100;
-    const repulsionStrength = 0.5;
-    const attractionStrength = 0.02;
-    const damping = 0.85;
-    
-    for (let iter = 0; iter < iterations; iter++) {
-        // Apply repulsion between all nodes
-        nodes.forEach((nodeA) => {
-            nodes.forEach((nodeB) => {
-                if (nodeA.id === nodeB.id) return;
-                
-                const posA = positions.get(nodeA.id)!;
-                const posB = positions.get(nodeB.id)!;
-                
-                const dx = posA.x - posB.x;
-                const dy = posA.y - posB.y;
-                const distSq = dx * dx + dy * dy + 0.01;
-                const dist = Math.sqrt(distSq);
-                
-                const force = repulsionStrength / distSq;
-                
-                posA.vx += (dx / dist) * force;
-                posA.vy += (dy / dist) * force;
-            });
-        });
-        
-        // Apply attraction along links
-        links.forEach(link => {
-            const posA = positions.get(link.source);
-            const posB = positions.get(link.target);
-            if (!posA || !posB) return;
-            
-            const dx = posB.x - posA.x;
-            const dy = posB.y - posA.y;
-            const dist = Math.sqrt(dx * dx + dy * dy + 0.01);
-            
-            const force = dist * attractionStrength;
-            
-            posA.vx += (dx / dist) * force;
-            posA.vy += (dy / dist) * force;
-            posB.vx -= (dx / dist) * force;
-            posB.vy -= (dy / dist) * force;
-        });
-        
-        // Update positions with velocity damping
-        nodes.forEach(node => {
-            const pos = positions.get(node.id)!;
-            pos.x += pos.vx;
-            pos.y += pos.vy;
-            pos.vx *= damping;
-            pos.vy *= damping;
-            
-            // Add slight random jitter in early iterations for randomize mode
-            if (randomize && iter < iterations / 3) {
-                pos.x += (Math.random() - 0.5) * 0.05;
-                pos.y += (Math.random() - 0.5) * 0.05;
-            }
-        });
+    // Normal mode: standard BFS
+    if (!cyberneticMode || walk.length < 2) {
+        return walk.map((nodes, level) => ({ level, nodes }));
     }
     
-    // Normalize to fit within viewport
-    let minX = Infinity, maxX = -Infinity;
-    let minY = Infinity, maxY = -Infinity;
-    
-    positions.forEach(pos => {
-        minX = Math.min(minX, pos.x);
-        maxX = Math.max(maxX, pos.x);
-        minY = Math.min(minY, pos.y);
-        maxY = Math.max(maxY, pos.y);
-    });
-    
-    const rangeX = maxX - minX;
-    const rangeY = maxY - minY;
-    const maxRange = Math.max(rangeX, rangeY) || 1;
-    const targetSize = 8;
-    const scale = targetSize / maxRange;
+    // Keep the start node at layer 0
+    const reached: ReachedNode[] = walk.slice(1).flatMap((nodes, idx) => nodes.map(id => ({
+        id,
+        depth: idx + 1,
+        influence: reachWeight.get(id) || 0
+    })));
+    const arranged = ORDERING_STRATEGIES[ordering.settings.strategy].arrange(reached, ordering);
     
-    const centerX = (minX + maxX) / 2;
-    const centerY = (minY + maxY) / 2;
+    return [
+        { level: 0, nodes: [startId] },
+        ...arranged.map((nodes, idx) => ({ level: idx + 1, nodes }))
+    ];
+}
+
+// ==== Hierarchical path in the chosen traversal direction ====
+// Upstream layers follow incoming links and get negative levels, ordered so the
+// farthest comes first. With 'both', a node reachable either way stays downstream.
+function getAdaptiveHierarchicalLayers(
+    startId: string,
+    links: RawLink[],
+    ordering: OrderingContext,
+    cyberneticMode: boolean,
+    direction: TraversalDirection = 'downstream'
+): NodeLayer[] {
+    const downstream = direction === 'upstream'
+        ? [{ level: 0, nodes: [startId] }]
+        : getDirectedLayers(startId, links, cyberneticMode, ordering);
+    if (direction === 'downstream') return downstream;
     
-    positions.forEach(pos => {
-        pos.x = (pos.x - centerX) * scale;
-        pos.y = (pos.y - centerY) * scale;
-    });
+    const reversed = links.map(l => ({ ...l, source: l.target, target: l.source }));
+    const placed = new Set(downstream.flatMap(layer => layer.nodes));
+    const upstream = getDirectedLayers(startId, reversed, cyberneticMode, ordering)
+        .slice(1)
+        .map(layer => layer.nodes.filter(id => !placed.has(id)))
+        .filter(layerNodes => layerNodes.length > 0)
+        .map((layerNodes, idx) => ({ level: -(idx + 1), nodes: layerNodes }));
     
-    return positions;
+    return [...upstream.reverse(), ...downstream];
 }
 
 // ==== Camera Controller for smooth transitions ====
+// Flies to the target whenever it moves, then leaves the camera to the user
+// until the next change (or until the user grabs it mid-flight).
 interface CameraControllerProps {
     targetPosition: THREE.Vector3;
     targetLookAt: THREE.Vector3;
     is2DMode: boolean;
+    // Off while a node is being dragged
+    enabled: boolean;
+    // Called when the user finishes orbiting, panning or zooming
+    onCameraChange?: (pose: CameraPose) => void;
 }
 
 const CameraController: React.FC<CameraControllerProps> = ({
                                                                targetPosition,
                                                                targetLookAt,
-                                                               is2DMode
+                                                               is2DMode,
+                                                               enabled,
+                                                               onCameraChange
                                                            }) => {
     const { camera } = useThree();
     const controlsRef = useRef<any>(null);
+    const flying = useRef(true);
+    const grab = useRef<{ position: THREE.Vector3; wasFlying: boolean } | null>(null);
+    const targetKey = [...targetPosition.toArray(), ...targetLookAt.toArray()].map(v => v.toFixed(3)).join(',');
+    
+    useEffect(() => {
+        flying.current = true;
+    }, [targetKey]);
     
     useFrame(() => {
-        if (!controlsRef.current) return;
+        if (!controlsRef.current || !flying.current) return;
         
         camera.position.lerp(targetPosition, 0.05);
         
         const currentTarget = controlsRef.current.target;
         currentTarget.lerp(targetLookAt, 0.05);
         controlsRef.current.update();
+        
+        if (camera.position.distanceTo(targetPosition) < 0.01 && currentTarget.distanceTo(targetLookAt) < 0.01) {
+            flying.current = false;
+        }
     });
     
     return (
         <OrbitControls
             ref={controlsRef}
+            enabled={enabled}
             enablePan={true}
             enableZoom={true}
             enableRotate={!is2DMode}
             maxDistance={35}
             minDistance={2}
+            onStart={() => {
+                grab.current = { position: camera.position.clone(), wasFlying: flying.current };
+                flying.current = false;
+            }}
+            onEnd={() => {
+                if (!controlsRef.current || !grab.current) return;
+                // A plain click (e.g. on a node) isn't a camera move; an interrupted flight carries on
+                if (grab.current.position.distanceTo(camera.position) < 1e-3) {
+                    flying.current = grab.current.wasFlying;
+                } else {
+                    onCameraChange?.({
+                        position: camera.position.toArray(),
+                        target: controlsRef.current.target.toArray(),
+                    });
+                }
+                grab.current = null;
+            }}
         />
     );
 };
@@ -294,19 +287,54 @@ const CameraController: React.FC<CameraControllerProps> = ({
 interface NodeMarkerProps {
     id: string;
     label: string;
+    icon?: string;
     position: THREE.Vector3;
     color: string;
-    onClick: (id: string) => void;
+    onClick: (id: string, shiftKey: boolean) => void;
     isActive: boolean;
     is2DMode: boolean;
     exploration: NodeExploration;
     cyberneticMode: boolean;
     layerChanged?: boolean;
+    // Metric emphasis from the metrics panel (1 = unscaled)
+    sizeScale?: number;
+    glowScale?: number;
+    pinned?: boolean;
+    // Overview only: press to start dragging, right-click to pin or unpin
+    onDragStart?: (id: string, clientX: number, clientY: number) => void;
+    onTogglePin?: (id: string) => void;
+    // Path view ripple: flash when the first influence pulse arrives
+    pulseClock?: React.RefObject<number>;
+    pulseArrival?: number;
 }
 
+// Expanding halo shown when an influence pulse reaches a node
+const PulseFlash: React.FC<{ clock: React.RefObject<number>; arrival: number; color: string }> = ({ clock, arrival, color }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+    
+    useFrame(() => {
+        const mesh = meshRef.current;
+        if (!mesh || !materialRef.current) return;
+        const age = (clock.current - arrival) / PULSE_FLASH_SECONDS;
+        mesh.visible = age >= 0 && age <= 1;
+        if (!mesh.visible) return;
+        mesh.scale.setScalar(1 + age * 1.5);
+        materialRef.current.opacity = 0.7 * (1 - age);
+    });
+    
+    return (
+        <mesh ref={meshRef} visible={false}>
+            <sphereGeometry args={[0.35, 24, 24]} />
+            <meshBasicMaterial ref={materialRef} color={color} transparent depthWrite={false} toneMapped={false} />
+        </mesh>
+    );
+};
+
 const NodeMarker: React.FC<NodeMarkerProps> = ({
                                                    id,
                                                    label,
+                                                   icon,
                                                    position,
                                                    color,
                                                    onClick,
@@ -314,7 +342,14 @@ const NodeMarker: React.FC<NodeMarkerProps> = ({
                                                    is2DMode,
                                                    exploration,
                                                    cyberneticMode,
-                                                   layerChanged
+                                                   layerChanged,
+                                                   sizeScale = 1,
+                                                   glowScale = 1,
+                                                   pinned,
+                                                   onDragStart,
+                                                   onTogglePin,
+                                                   pulseClock,
+                                                   pulseArrival
                                                }) => {
     // Calculate feedback-based adjustments
     const getFeedbackAdjustment = () => {
@@ -343,17 +378,31 @@ const NodeMarker: React.FC<NodeMarkerProps> = ({
     const { opacity: nodeOpacity, intensity: intensityMultiplier } = getFeedbackAdjustment();
     
     const baseIntensity = isActive ? 1.5 : 0.8;
-    const emissiveIntensity = baseIntensity * intensityMultiplier;
+    const emissiveIntensity = baseIntensity * intensityMultiplier * glowScale;
     
     const baseOpacity = isActive ? 0.3 : 0.15;
-    const adjustedOpacity = baseOpacity * nodeOpacity;
+    const adjustedOpacity = Math.min(1, baseOpacity * nodeOpacity * glowScale);
     
     return (
         <group
             position={position}
             onClick={e => {
                 e.stopPropagation();
-                onClick(id);
+                // Releasing a dragged node also clicks it
+                if (e.delta > 4) return;
+                onClick(id, e.nativeEvent.shiftKey);
+            }}
+            onPointerDown={e => {
+                // Shift-click stays free for picking paths
+                if (!onDragStart || e.button !== 0 || e.nativeEvent.shiftKey) return;
+                e.stopPropagation();
+                onDragStart(id, e.nativeEvent.clientX, e.nativeEvent.clientY);
+            }}
+            onContextMenu={e => {
+                if (!onTogglePin) return;
+                e.stopPropagation();
+                e.nativeEvent.preventDefault();
+                onTogglePin(id);
             }}
         >
             {/* Layer changed indicator */}
@@ -369,52 +418,70 @@ const NodeMarker: React.FC<NodeMarkerProps> = ({
                 </mesh>
             )}
             
-            {/* Outer glow halo */}
-            <mesh>
-                <sphereGeometry args={[0.35, 32, 32]} />
-                <meshBasicMaterial
-                    color={color}
-                    transparent
-                    opacity={adjustedOpacity}
-                    depthWrite={false}
-                />
-            </mesh>
-            
-            {/* Middle glow ring */}
-            <mesh>
-                <sphereGeometry args={[0.22, 32, 32]} />
-                <meshBasicMaterial
-                    color={color}
-                    transparent
-                    opacity={(isActive ? 0.5 : 0.3) * nodeOpacity}
-                    depthWrite={false}
-                />
-            </mesh>
-            
-            {/* Core sphere */}
-            <mesh castShadow>
-                <sphereGeometry args={[0.14, 32, 32]} />
-                <meshStandardMaterial
-                    color={color}
-                    emissive={color}
-                    emissiveIntensity={emissiveIntensity}
-                    roughness={0.2}
-                    metalness={0.8}
-                    transparent={cyberneticMode}
-                    opacity={nodeOpacity}
-                />
-            </mesh>
+            <group scale={sizeScale}>
+                {/* Outer glow halo */}
+                <mesh>
+                    <sphereGeometry args={[0.35, 32, 32]} />
+                    <meshBasicMaterial
+                        color={color}
+                        transparent
+                        opacity={adjustedOpacity}
+                        depthWrite={false}
+                    />
+                </mesh>
+                
+                {/* Middle glow ring */}
+                <mesh>
+                    <sphereGeometry args={[0.22, 32, 32]} />
+                    <meshBasicMaterial
+                        color={color}
+                        transparent
+                        opacity={(isActive ? 0.5 : 0.3) * nodeOpacity}
+                        depthWrite={false}
+                    />
+                </mesh>
+                
+                {/* Core sphere */}
+                <mesh castShadow>
+                    <sphereGeometry args={[0.14, 32, 32]} />
+                    <meshStandardMaterial
+                        color={color}
+                        emissive={color}
+                        emissiveIntensity={emissiveIntensity}
+                        roughness={0.2}
+                        metalness={0.8}
+                        transparent={cyberneticMode}
+                        opacity={nodeOpacity}
+                    />
+                </mesh>
+                
+                {pulseClock && pulseArrival !== undefined && (
+                    <PulseFlash clock={pulseClock} arrival={pulseArrival} color={color} />
+                )}
+            </group>
             
             {/* Point light for bloom effect */}
             <pointLight
                 color={color}
                 intensity={emissiveIntensity}
-                distance={2}
+                distance={2 * sizeScale}
                 decay={2}
             />
             
             {/* Label */}
-            <Html position={[0, 0.6, 0]} distanceFactor={is2DMode ? 12 : 8}>
+            <Html
+                position={[0, 0.6, 0]}
+                distanceFactor={is2DMode ? 12 : 8}
+                userData={{
+                    exportLabel: {
+                        text: `${icon ? `${icon} ` : ''}${label}${pinned ? ' 📌' : ''}${layerChanged ? ' ↕️' : ''}`,
+                        active: isActive,
+                        changed: !!layerChanged,
+                        opacity: nodeOpacity,
+                        distanceFactor: is2DMode ? 12 : 8,
+                    } satisfies ExportLabel
+                }}
+            >
                 <div
                     style={{
                         padding: '3px 7px',
@@ -438,7 +505,9 @@ const NodeMarker: React.FC<NodeMarkerProps> = ({
                         opacity: nodeOpacity,
                     }}
                 >
+                    {icon && <span style={{ marginRight: 4 }}>{icon}</span>}
                     {label}
+                    {pinned && <span style={{ marginLeft: 4 }} title="Pinned (right-click to unpin)">📌</span>}
                     {layerChanged && <span style={{ marginLeft: 4 }}>↕️</span>}
                 </div>
             </Html>
@@ -448,38 +517,113 @@ const NodeMarker: React.FC<NodeMarkerProps> = ({
 
 // ==== Main 3D Scene ====
 interface SceneProps {
+    nodes: RawNode[];
+    links: RawLink[];
     activeNode: string | null;
     hierarchicalLayers: NodeLayer[];
-    onNodeClick: (id: string) => void;
+    onNodeClick: (id: string, shiftKey: boolean) => void;
     cyberneticMode: boolean;
-    layout2D: Map<string, { x: number; y: number; vx: number; vy: number }>;
+    layout2D: Layout2D;
     explorationData: Map<string, NodeExploration>;
     previousLayers: NodeLayer[];
+    editSelection: string | null;
+    // When set, nodes are coloured by simulated state instead of category
+    simulationStates: NodeStates | null;
+    simulationSaturation: number;
+    // When set, nodes are coloured by the workshop aggregate instead of category
+    heatColors: Map<string, string> | null;
+    highlightedLoop: FeedbackLoop | null;
+    nodeColors: Map<string, string>;
+    // Nodes in hidden legend categories; the active node is always drawn
+    hiddenNodes: Set<string>;
+    // Node the camera flies to (set from the command palette)
+    focusNode: string | null;
+    // Path finder result to trace in the overview
+    highlightedPath: string[] | null;
+    // Per-node metric scaled to 0..1, and whether it drives marker size or glow
+    nodeEmphasis: Map<string, number> | null;
+    emphasisStyle: MetricEmphasis;
+    // Overview drag-and-drop: the dropped node is pinned at (x, y). Left out
+    // when the overview shows a layout that can't be edited by hand.
+    onNodeDrag?: (id: string, x: number, y: number) => void;
+    onNodeTogglePin?: (id: string) => void;
+    // Camera pose set by the user (or a shared link); overrides the default view
+    cameraPose: CameraPose | null;
+    onCameraChange: (pose: CameraPose) => void;
+    // Influence pulses in the path view; null turns them off. Changing pulseRun replays them.
+    pulseTiming: PulseTiming | null;
+    pulseSpeed: number;
+    pulseRun: number;
+    direction: TraversalDirection;
+}
+
+interface NodeDrag {
+    id: string;
+    x: number;
+    y: number;
+    // Screen position of the press, so a slight wobble still counts as a click
+    startX: number;
+    startY: number;
+    moved: boolean;
 }
 
+// ==== How a link runs between hierarchy layers ====
+// 'next' goes one layer down, 'skip' further down, 'same' stays within a layer
+// and 'back' returns to an earlier layer.
+type HierarchyLinkKind = 'next' | 'skip' | 'same' | 'back';
+
+// Links that don't run to the next layer bow out so they don't cut through the
+// nodes in between; back and feedback links bow furthest
+const HIERARCHY_LINK_CURVATURE: Record<HierarchyLinkKind, number> = { next: 0, skip: 0.2, same: 0.3, back: 0.35 };
+
 const CyberneticTopoScene: React.FC<SceneProps> = ({
+                                                       nodes,
+                                                       links,
                                                        activeNode,
                                                        hierarchicalLayers,
                                                        onNodeClick,
                                                        cyberneticMode,
                                                        layout2D,
                                                        explorationData,
-                                                       previousLayers
+                                                       previousLayers,
+                                                       editSelection,
+                                                       simulationStates,
+                                                       simulationSaturation,
+                                                       heatColors,
+                                                       highlightedLoop,
+                                                       nodeColors,
+                                                       hiddenNodes,
+                                                       focusNode,
+                                                       highlightedPath,
+                                                       nodeEmphasis,
+                                                       emphasisStyle,
+                                                       onNodeDrag,
+                                                       onNodeTogglePin,
+                                                       cameraPose,
+                                                       onCameraChange,
+                                                       pulseTiming,
+                                                       pulseSpeed,
+                                                       pulseRun,
+                                                       direction
                                                    }) => {
-    const nodes = data.nodes as RawNode[];
-    const links = data.links as RawLink[];
-    
-    const getNodeColor = useCallback((id: string): string => {
-        const main: Record<string, string> = {
-            form: '#4ECDC4',
-            function: '#95E1D3',
-            material: '#FF6B6B',
-            emotion: '#F38181',
-            process: '#AA96DA',
-            feedbackLoop: '#FCBAD3',
+    const getNodeColor = (id: string) => nodeColors.get(id) ?? UNCATEGORIZED_COLOR;
+    const [drag, setDrag] = useState<NodeDrag | null>(null);
+    
+    // Finish the drag wherever the pointer is released, even outside the canvas
+    useEffect(() => {
+        if (!drag) return;
+        const finish = () => {
+            if (drag.moved) onNodeDrag?.(drag.id, drag.x, drag.y);
+            setDrag(null);
         };
-        return main[id] || '#a0a0a0';
-    }, []);
+        window.addEventListener('pointerup', finish);
+        return () => window.removeEventListener('pointerup', finish);
+    }, [drag, onNodeDrag]);
+    
+    const handleDragStart = (id: string, clientX: number, clientY: number) => {
+        const pos = layout2D.get(id);
+        if (pos) setDrag({ id, x: pos.x, y: pos.y, startX: clientX, startY: clientY, moved: false });
+    };
     
     // Detect nodes that changed layers
     const changedLayerNodes = useMemo(() => {
@@ -516,8 +660,9 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
         layout2D.forEach((pos, id) => {
             map.set(id, new THREE.Vector3(pos.x, 0, pos.y));
         });
+        if (drag?.moved) map.set(drag.id, new THREE.Vector3(drag.x, 0, drag.y));
         return map;
-    }, [layout2D]);
+    }, [layout2D, drag]);
     
     // Hierarchical mode: layered vertical arrangement
     const hierarchicalPositions = useMemo(() => {
@@ -527,12 +672,14 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
             return map;
         }
         
-        hierarchicalLayers.forEach((layer, levelIdx) => {
-            const yPos = 4 - levelIdx * 1.8;
-            const numNodes = layer.nodes.length;
+        hierarchicalLayers.forEach(layer => {
+            // Upstream layers (negative levels) stack above the source
+            const yPos = 4 - layer.level * 1.8;
+            const visibleNodes = layer.nodes.filter(id => id === activeNode || !hiddenNodes.has(id));
+            const numNodes = visibleNodes.length;
             const radius = Math.min(3, numNodes * 0.4);
             
-            layer.nodes.forEach((nodeId, nodeIdx) => {
+            visibleNodes.forEach((nodeId, nodeIdx) => {
                 const angle = (nodeIdx / numNodes) * Math.PI * 2;
                 const x = Math.cos(angle) * radius;
                 const z = Math.sin(angle) * radius;
@@ -542,7 +689,7 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
         });
         
         return map;
-    }, [activeNode, hierarchicalLayers]);
+    }, [activeNode, hierarchicalLayers, hiddenNodes]);
     
     // Current positions
     const nodePositions = useMemo(() => {
@@ -552,6 +699,25 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
     
     // Camera settings
     const cameraSettings = useMemo(() => {
+        if (cameraPose) {
+            return {
+                position: new THREE.Vector3(...cameraPose.position),
+                lookAt: new THREE.Vector3(...cameraPose.target),
+                is2DMode: !activeNode
+            };
+        }
+        
+        const focusPos = focusNode ? nodePositions.get(focusNode) : undefined;
+        if (focusPos) {
+            return {
+                position: activeNode
+                    ? focusPos.clone().add(new THREE.Vector3(4, 3, 4))
+                    : new THREE.Vector3(focusPos.x, 7, focusPos.z + 0.1),
+                lookAt: focusPos.clone(),
+                is2DMode: !activeNode
+            };
+        }
+        
         if (!activeNode) {
             return {
                 position: new THREE.Vector3(0, 16, 0.1),
@@ -559,46 +725,81 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
                 is2DMode: true
             };
         } else {
+            // Raise the view to take in upstream layers above the source
+            const upstreamLift = Math.max(0, -(hierarchicalLayers[0]?.level ?? 0)) * 0.9;
             return {
-                position: new THREE.Vector3(8, 6, 8),
-                lookAt: new THREE.Vector3(0, 2, 0),
+                position: new THREE.Vector3(8, 6 + upstreamLift, 8),
+                lookAt: new THREE.Vector3(0, 2 + upstreamLift, 0),
                 is2DMode: false
             };
         }
-    }, [activeNode]);
+    }, [activeNode, focusNode, nodePositions, hierarchicalLayers, cameraPose]);
     
-    // Connection lines for hierarchical mode
+    const loopLinkKeys = useMemo(
+        () => (highlightedLoop ? getLoopLinkKeys(highlightedLoop) : new Set<string>()),
+        [highlightedLoop]
+    );
+    
+    // Connection lines for hierarchical mode: every link among the path's nodes,
+    // classified by how it runs between layers. Links that lie on a loop among
+    // these nodes count as feedback whichever way they run.
     const hierarchicalLines = useMemo(() => {
         if (!activeNode || hierarchicalLayers.length === 0) return [];
         
-        const lines: { from: THREE.Vector3; to: THREE.Vector3 }[] = [];
+        const levels = new Map<string, number>();
+        hierarchicalLayers.forEach(layer => layer.nodes.forEach(id => levels.set(id, layer.level)));
         
-        hierarchicalLayers.forEach((layer, levelIdx) => {
-            if (levelIdx === hierarchicalLayers.length - 1) return;
-            
-            const nextLayer = hierarchicalLayers[levelIdx + 1];
-            
-            layer.nodes.forEach(sourceId => {
-                const sourcePos = hierarchicalPositions.get(sourceId);
-                if (!sourcePos) return;
-                
-                nextLayer.nodes.forEach(targetId => {
-                    const isConnected = links.some(
-                        l => l.source === sourceId && l.target === targetId
-                    );
-                    
-                    if (isConnected) {
-                        const targetPos = hierarchicalPositions.get(targetId);
-                        if (targetPos) {
-                            lines.push({ from: sourcePos.clone(), to: targetPos.clone() });
-                        }
-                    }
-                });
-            });
-        });
+        const pathLinks = links.filter(l => hierarchicalPositions.has(l.source) && hierarchicalPositions.has(l.target));
+        const cycleKeys = getCycleLinkKeys(pathLinks);
         
-        return lines;
-    }, [activeNode, hierarchicalLayers, hierarchicalPositions, links]);
+        return pathLinks.map(link => {
+            const key = `${link.source}->${link.target}`;
+            const step = levels.get(link.target)! - levels.get(link.source)!;
+            const kind: HierarchyLinkKind = step === 1 ? 'next' : step > 1 ? 'skip' : step === 0 ? 'same' : 'back';
+            return {
+                from: hierarchicalPositions.get(link.source)!.clone(),
+                to: hierarchicalPositions.get(link.target)!.clone(),
+                link,
+                kind,
+                feedback: cycleKeys.has(key),
+                inLoop: loopLinkKeys.has(key)
+            };
+        });
+    }, [activeNode, hierarchicalLayers, hierarchicalPositions, links, loopLinkKeys]);
+    
+    // Influence pulses spreading from the selected node along the drawn links
+    const pulseSchedule = useMemo(() => {
+        if (!activeNode || !pulseTiming) return null;
+        return schedulePulses(hierarchicalLines.map(line => line.link), activeNode, direction, pulseTiming);
+    }, [activeNode, hierarchicalLines, direction, pulseTiming]);
+    
+    const pulseHops = useMemo(
+        () => new Map(pulseSchedule?.hops.map(hop => [`${hop.link.source}->${hop.link.target}`, hop])),
+        [pulseSchedule]
+    );
+    
+    // Seconds of pulse animation, scaled by the speed setting; restarts with each schedule or replay
+    const pulseClock = useRef(0);
+    
+    useEffect(() => {
+        pulseClock.current = 0;
+    }, [pulseSchedule, pulseRun]);
+    
+    useFrame((_, delta) => {
+        // Cap the step so a backgrounded tab doesn't skip the whole ripple
+        if (pulseSchedule) pulseClock.current += Math.min(delta, 0.1) * pulseSpeed;
+    });
+    
+    const pathLinkKeys = useMemo(
+        () => (highlightedPath ? getPathLinkKeys(highlightedPath) : new Set<string>()),
+        [highlightedPath]
+    );
+    
+    // A traced path stays visible even through hidden categories
+    const isHidden = useCallback(
+        (id: string) => hiddenNodes.has(id) && id !== activeNode && !highlightedPath?.includes(id),
+        [hiddenNodes, activeNode, highlightedPath]
+    );
     
     // Connection lines for 2D mode
     const twoDLines = useMemo(() => {
@@ -607,15 +808,33 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
         return links.map(link => {
             const from = twoDPositions.get(link.source);
             const to = twoDPositions.get(link.target);
-            if (!from || !to) return null;
-            return { from, to };
-        }).filter(Boolean) as { from: THREE.Vector3; to: THREE.Vector3 }[];
-    }, [activeNode, links, twoDPositions]);
+            if (!from || !to || isHidden(link.source) || isHidden(link.target)) return null;
+            const key = `${link.source}->${link.target}`;
+            // While editing, emphasise the selected node's outgoing links
+            return {
+                from,
+                to,
+                link,
+                highlighted: editSelection === link.source,
+                inLoop: loopLinkKeys.has(key),
+                inPath: pathLinkKeys.has(key)
+            };
+        }).filter(Boolean) as {
+            from: THREE.Vector3;
+            to: THREE.Vector3;
+            link: RawLink;
+            highlighted: boolean;
+            inLoop: boolean;
+            inPath: boolean;
+        }[];
+    }, [activeNode, links, twoDPositions, editSelection, loopLinkKeys, pathLinkKeys, isHidden]);
     
     const isNodeInPath = useCallback((nodeId: string) => {
         return hierarchicalLayers.some(layer => layer.nodes.includes(nodeId));
     }, [hierarchicalLayers]);
     
+    const loopColor = highlightedLoop ? LOOP_COLORS[highlightedLoop.polarity] : null;
+    
     return (
         <>
             {/* Lighting */}
@@ -625,32 +844,48 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
             
             {/* 2D connection lines */}
             {twoDLines.map((line, idx) => (
-                <Line
+                <InfluenceLink
                     key={`2d-${idx}`}
-                    points={[line.from, line.to]}
-                    color="#333344"
-                    lineWidth={1}
-                    transparent
-                    opacity={0.4}
+                    from={line.from}
+                    to={line.to}
+                    color={line.inPath
+                        ? PATH_COLOR
+                        : line.inLoop && loopColor
+                            ? loopColor
+                            : getLinkColor(line.link, line.highlighted ? '#8888aa' : '#333344')}
+                    lineWidth={getLinkWidth(line.link, line.inPath ? 3 : line.inLoop ? 2.5 : line.highlighted ? 2 : 1)}
+                    opacity={line.inPath || line.inLoop || line.highlighted ? 0.9 : 0.4}
                 />
             ))}
             
             {/* Hierarchical connection lines */}
-            {hierarchicalLines.map((line, idx) => (
-                <Line
-                    key={`3d-${idx}`}
-                    points={[line.from, line.to]}
-                    color="#4444aa"
-                    lineWidth={1.5}
-                    transparent
-                    opacity={0.6}
-                />
-            ))}
+            {hierarchicalLines.map((line, idx) => {
+                const looping = line.kind === 'back' || line.feedback;
+                const hop = pulseHops.get(`${line.link.source}->${line.link.target}`);
+                return (
+                    <InfluenceLink
+                        key={`3d-${idx}`}
+                        from={line.from}
+                        to={line.to}
+                        color={line.inLoop && loopColor ? loopColor : getLinkColor(line.link, looping ? '#aa66cc' : '#4444aa')}
+                        lineWidth={getLinkWidth(line.link, line.inLoop ? 3 : 1.5)}
+                        opacity={line.inLoop ? 0.95 : line.kind === 'next' || looping ? 0.6 : 0.4}
+                        curvature={HIERARCHY_LINK_CURVATURE[looping ? 'back' : line.kind]}
+                        dashed={looping}
+                        pulse={hop && {
+                            clock: pulseClock,
+                            start: hop.start,
+                            duration: hop.duration,
+                            reverse: hop.from !== line.link.source
+                        }}
+                    />
+                );
+            })}
             
             {/* Nodes */}
             {nodes.map(node => {
                 const pos = nodePositions.get(node.id);
-                if (!pos) return null;
+                if (!pos || isHidden(node.id)) return null;
                 
                 const exploration = explorationData.get(node.id) || {
                     visits: 0,
@@ -660,28 +895,62 @@ const CyberneticTopoScene: React.FC<SceneProps> = ({
                 };
                 
                 const layerChange = changedLayerNodes.get(node.id);
+                const emphasis = nodeEmphasis?.get(node.id);
                 
                 return (
                     <NodeMarker
                         key={node.id}
                         id={node.id}
                         label={node.label}
+                        icon={node.icon}
                         position={pos}
-                        color={getNodeColor(node.id)}
+                        color={simulationStates
+                            ? getStateColor(simulationStates.get(node.id) || 0, simulationSaturation)
+                            : heatColors?.get(node.id) ?? getNodeColor(node.id)}
                         onClick={onNodeClick}
-                        isActive={activeNode === node.id || isNodeInPath(node.id)}
+                        isActive={
+                            activeNode === node.id ||
+                            isNodeInPath(node.id) ||
+                            editSelection === node.id ||
+                            !!highlightedLoop?.nodes.includes(node.id) ||
+                            (!activeNode && !!highlightedPath?.includes(node.id))
+                        }
                         is2DMode={!activeNode}
                         exploration={exploration}
                         cyberneticMode={cyberneticMode}
                         layerChanged={!!layerChange}
+                        sizeScale={emphasis !== undefined && emphasisStyle === 'size' ? 0.5 + emphasis * 1.5 : 1}
+                        glowScale={emphasis !== undefined && emphasisStyle === 'glow' ? 0.3 + emphasis * 2.2 : 1}
+                        pinned={!activeNode && !!layout2D.get(node.id)?.pinned}
+                        onDragStart={activeNode || !onNodeDrag ? undefined : handleDragStart}
+                        onTogglePin={activeNode ? undefined : onNodeTogglePin}
+                        pulseClock={pulseSchedule ? pulseClock : undefined}
+                        pulseArrival={pulseSchedule?.arrivals.get(node.id)}
                     />
                 );
             })}
             
+            {/* Invisible ground plane that tracks the pointer while a node is dragged */}
+            {drag && (
+                <mesh
+                    rotation={[-Math.PI / 2, 0, 0]}
+                    onPointerMove={e => {
+                        const { clientX, clientY } = e.nativeEvent;
+                        if (!drag.moved && Math.hypot(clientX - drag.startX, clientY - drag.startY) < 4) return;
+                        setDrag({ ...drag, x: e.point.x, y: e.point.z, moved: true });
+                    }}
+                >
+                    <planeGeometry args={[500, 500]} />
+                    <meshBasicMaterial visible={false} />
+                </mesh>
+            )}
+            
             <CameraController
                 targetPosition={cameraSettings.position}
                 targetLookAt={cameraSettings.lookAt}
                 is2DMode={cameraSettings.is2DMode}
+                enabled={!drag}
+                onCameraChange={onCameraChange}
             />
         </>
     );
@@ -860,8 +1129,16 @@ interface LeftPanelProps {
     getNodeColor: (id: string) => string;
     onClose: () => void;
     cyberneticMode: boolean;
+    direction: TraversalDirection;
+    onDirectionChange: (direction: TraversalDirection) => void;
 }
 
+const DIRECTION_LABELS: Record<TraversalDirection, { text: string; title: string }> = {
+    downstream: { text: '↓ Influences', title: 'Follow outgoing links: what this node affects' },
+    upstream: { text: '↑ Influenced by', title: 'Follow incoming links: what affects this node' },
+    both: { text: '↕ Both', title: 'Upstream layers above the node, downstream layers below' },
+};
+
 const LeftPanel: React.FC<LeftPanelProps> = ({
                                                  activeNode,
                                                  layers,
@@ -869,14 +1146,10 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                                                  nodes,
                                                  getNodeColor,
                                                  onClose,
-                                                 cyberneticMode
+                                                 cyberneticMode,
+                                                 direction,
+                                                 onDirectionChange
                                              }) => {
-    if (!activeNode || layers.length === 0) return null;
-    
-    const getNodeLabel = (id: string) => {
-        return nodes.find(n => n.id === id)?.label || id;
-    };
-    
     // Get previous layer for each node
     const previousLayerMap = useMemo(() => {
         const map = new Map<string, number>();
@@ -897,7 +1170,8 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
             layer.nodes.forEach(nodeId => {
                 const prevLevel = previousLayerMap.get(nodeId);
                 if (prevLevel !== undefined && prevLevel !== layer.level) {
-                    if (layer.level < prevLevel) promoted++;
+                    // Closer to the source on either side counts as a promotion
+                    if (Math.abs(layer.level) < Math.abs(prevLevel)) promoted++;
                     else demoted++;
                 }
             });
@@ -906,6 +1180,12 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
         return { promoted, demoted };
     }, [layers, previousLayerMap]);
     
+    if (!activeNode || layers.length === 0) return null;
+    
+    const getNodeLabel = (id: string) => {
+        return nodes.find(n => n.id === id)?.label || id;
+    };
+    
     return (
         <div
             style={{
@@ -948,6 +1228,30 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                 </button>
             </div>
             
+            <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+                {TRAVERSAL_DIRECTIONS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onDirectionChange(option)}
+                        title={DIRECTION_LABELS[option].title}
+                        style={{
+                            flex: 1,
+                            background: direction === option ? 'rgba(0,212,255,0.15)' : 'rgba(255,255,255,0.05)',
+                            border: direction === option
+                                ? '1px solid rgba(0,212,255,0.6)'
+                                : '1px solid rgba(255,255,255,0.15)',
+                            color: '#ffffff',
+                            borderRadius: 6,
+                            padding: '6px 4px',
+                            cursor: 'pointer',
+                            fontSize: 11,
+                        }}
+                    >
+                        {DIRECTION_LABELS[option].text}
+                    </button>
+                ))}
+            </div>
+            
             {cyberneticMode && (layerChanges.promoted > 0 || layerChanges.demoted > 0) && previousLayers.length > 0 && (
                 <div style={{
                     background: 'rgba(255, 170, 0, 0.1)',
@@ -979,15 +1283,15 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                     </>
                 ) : (
                     <>
-                        This view shows the hierarchical connections from the selected node.
+                        This view shows the hierarchical connections {direction === 'upstream' ? 'into' : direction === 'both' ? 'into and out of' : 'from'} the selected node.
                         Each layer represents nodes at increasing distances from the source.
                     </>
                 )}
             </div>
             
             <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
-                {layers.map((layer, idx) => (
-                    <div key={idx}>
+                {layers.map(layer => (
+                    <div key={layer.level}>
                         <div style={{
                             fontSize: 11,
                             fontWeight: 600,
@@ -996,7 +1300,9 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                             letterSpacing: 1,
                             marginBottom: 8
                         }}>
-                            {idx === 0 ? 'Source' : `Layer ${idx}`}
+                            {layer.level === 0
+                                ? 'Source'
+                                : layer.level < 0 ? `Upstream ${-layer.level}` : `Layer ${layer.level}`}
                         </div>
                         <div style={{
                             display: 'flex',
@@ -1007,8 +1313,8 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                                 const color = getNodeColor(nodeId);
                                 const prevLevel = previousLayerMap.get(nodeId);
                                 const levelChanged = prevLevel !== undefined && prevLevel !== layer.level;
-                                const wasPromoted = prevLevel !== undefined && layer.level < prevLevel;
-                                const wasDemoted = prevLevel !== undefined && layer.level > prevLevel;
+                                const wasPromoted = prevLevel !== undefined && Math.abs(layer.level) < Math.abs(prevLevel);
+                                const wasDemoted = prevLevel !== undefined && Math.abs(layer.level) > Math.abs(prevLevel);
                                 
                                 return (
                                     <div
@@ -1038,48 +1344,705 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
 };
 
 // ==== Main Wrapper Component ====
-const CyberneticTopoMap: React.FC = () => {
-    const nodes = data.nodes as RawNode[];
-    const links = data.links as RawLink[];
-    const [activeNode, setActiveNode] = useState<string | null>(null);
-    const [hierarchicalLayers, setHierarchicalLayers] = useState<NodeLayer[]>([]);
-    const [previousLayers, setPreviousLayers] = useState<NodeLayer[]>([]);
-    const [cyberneticMode, setCyberneticMode] = useState(false);
-    const [layout2D, setLayout2D] = useState<Map<string, { x: number; y: number; vx: number; vy: number }>>(
-        () => forceDirectedLayout(nodes, links, false)
-    );
-    const [explorationData, setExplorationData] = useState<Map<string, NodeExploration>>(() => {
-        const map = new Map<string, NodeExploration>();
-        nodes.forEach(node => {
-            map.set(node.id, { visits: 0, insightful: 0, neutral: 0, familiar: 0 });
+// Everything undo/redo restores
+interface UndoableState {
+    network: NetworkData;
+    explorationData: Map<string, NodeExploration>;
+    layout2D: Layout2D;
+    layoutSeed: string | null;
+    cyberneticMode: boolean;
+    direction: TraversalDirection;
+    ordering: OrderingSettings;
+    activeNode: string | null;
+    hierarchicalLayers: NodeLayer[];
+    previousLayers: NodeLayer[];
+    // So an undone vote leaves the dated feedback log and exported sessions too
+    sessionLog: SessionEvent[];
+}
+
+const FEEDBACK_LABELS: Record<'insightful' | 'neutral' | 'familiar', string> = {
+    insightful: 'Insightful',
+    neutral: 'Neutral',
+    familiar: 'Too Familiar',
+};
+
+interface CyberneticTopoMapProps {
+    initialNetwork: NetworkData;
+    networkSource: string;
+    onOpenNetwork: () => void;
+    profiles: ProfileRegistry;
+    onSelectProfile: (name: string) => void;
+    onCreateProfile: (name: string) => void;
+    onDeleteProfile: (name: string) => void;
+}
+
+const CyberneticTopoMap: React.FC<CyberneticTopoMapProps> = ({
+                                                                 initialNetwork,
+                                                                 networkSource,
+                                                                 onOpenNetwork,
+                                                                 profiles,
+                                                                 onSelectProfile,
+                                                                 onCreateProfile,
+                                                                 onDeleteProfile
+                                                             }) => {
+    const [network, setNetwork] = useState<NetworkData>(initialNetwork);
+    const { nodes, links } = network;
+    const profile = profiles.active;
+    
+    // Restore what this profile last saved for this network (read once on mount);
+    // view state in a shared link takes precedence
+    const [restored] = useState(() => {
+        const saved = loadPersistedSession(profile, networkSource);
+        const fromUrl = parseUrlState(window.location.hash);
+        const nodeIds = new Set(initialNetwork.nodes.map(n => n.id));
+        
+        const explorationData = new Map<string, NodeExploration>();
+        const savedExploration = recordToExploration(saved?.explorationData ?? {});
+        initialNetwork.nodes.forEach(node => {
+            explorationData.set(node.id, savedExploration.get(node.id) ?? { ...EMPTY_EXPLORATION });
         });
-        return map;
+        
+        const savedLayout = recordToLayout(saved?.layout2D ?? {});
+        [...savedLayout.keys()].forEach(id => {
+            if (!nodeIds.has(id)) savedLayout.delete(id);
+        });
+        // Anything short of a complete saved layout starts from a quick placement
+        // that the layout worker then settles
+        let layout2D = savedLayout;
+        let layoutRequest: LayoutRequest | null = null;
+        if (savedLayout.size < nodeIds.size) {
+            layout2D = seedLayout(initialNetwork.nodes, initialNetwork.links, savedLayout.size > 0 ? savedLayout : undefined);
+            layoutRequest = {
+                nodes: initialNetwork.nodes,
+                links: initialNetwork.links,
+                seed: layout2D,
+                options: savedLayout.size > 0 ? RELAX_LAYOUT_OPTIONS : FULL_LAYOUT_OPTIONS,
+            };
+        }
+        // The seed only describes a layout that was restored as it was saved
+        let layoutSeed = layoutRequest ? null : saved?.layoutSeed ?? null;
+        if (fromUrl?.layoutSeed && fromUrl.layoutSeed !== layoutSeed) {
+            layoutSeed = fromUrl.layoutSeed;
+            layout2D = seedLayout(initialNetwork.nodes, initialNetwork.links, savedLayout, createRandom(layoutSeed));
+            layoutRequest = {
+                nodes: initialNetwork.nodes,
+                links: initialNetwork.links,
+                seed: layout2D,
+                options: RANDOMIZE_LAYOUT_OPTIONS,
+                randomSeed: layoutSeed,
+            };
+        }
+        
+        const cyberneticMode = fromUrl ? fromUrl.cyberneticMode : saved?.cyberneticMode ?? false;
+        const direction = fromUrl ? fromUrl.direction : saved?.direction ?? 'downstream';
+        const requestedNode = fromUrl ? fromUrl.activeNode : saved?.activeNode;
+        const activeNode = requestedNode && nodeIds.has(requestedNode) ? requestedNode : null;
+        const ordering = saved?.ordering ?? DEFAULT_ORDERING_SETTINGS;
+        const history = parseSessionHistory(saved?.history);
+        const hierarchicalLayers = activeNode
+            ? getAdaptiveHierarchicalLayers(activeNode, initialNetwork.links, {
+                explorationData,
+                feedbackLog: getFeedbackLog(history),
+                now: Date.now(),
+                random: Math.random,
+                settings: ordering,
+            }, cyberneticMode, direction)
+            : [];
+        
+        return {
+            explorationData,
+            layout2D,
+            layoutRequest,
+            layoutSeed,
+            cyberneticMode,
+            direction,
+            ordering,
+            activeNode,
+            hierarchicalLayers,
+            camera: fromUrl?.camera ?? null,
+            startedAt: saved?.startedAt || new Date().toISOString(),
+            history,
+        };
+    });
+    
+    const [activeNode, setActiveNode] = useState<string | null>(restored.activeNode);
+    const [hierarchicalLayers, setHierarchicalLayers] = useState<NodeLayer[]>(restored.hierarchicalLayers);
+    const [previousLayers, setPreviousLayers] = useState<NodeLayer[]>([]);
+    const [cyberneticMode, setCyberneticMode] = useState(restored.cyberneticMode);
+    const [direction, setDirection] = useState<TraversalDirection>(restored.direction);
+    const [orderingSettings, setOrderingSettings] = useState<OrderingSettings>(restored.ordering);
+    const [showOrdering, setShowOrdering] = useState(false);
+    const [layout2D, setLayout2D] = useState<Layout2D>(restored.layout2D);
+    const [layoutRequest, setLayoutRequest] = useState<LayoutRequest | null>(restored.layoutRequest);
+    const [layoutSeed, setLayoutSeed] = useState<string | null>(restored.layoutSeed);
+    const [explorationData, setExplorationData] = useState<Map<string, NodeExploration>>(restored.explorationData);
+    const [sessionStartedAt, setSessionStartedAt] = useState(restored.startedAt);
+    const [sessionLog, setSessionLog] = useState<SessionEvent[]>(restored.history);
+    const [sessionImportStatus, setSessionImportStatus] = useState<
+        { source: string; errors: string[]; warnings: string[] } | null
+    >(null);
+    const sessionInputRef = useRef<HTMLInputElement>(null);
+    const feedbackLog = useMemo(() => getFeedbackLog(sessionLog), [sessionLog]);
+    
+    // Inputs for the adaptive ordering; `latest` is feedback not yet in the log
+    const getOrdering = (
+        data: Map<string, NodeExploration> = explorationData,
+        latest: FeedbackRecord[] = [],
+        settings: OrderingSettings = orderingSettings
+    ): OrderingContext => ({
+        explorationData: data,
+        feedbackLog: [...feedbackLog, ...latest],
+        now: Date.now(),
+        random: Math.random,
+        settings,
     });
+    const [networkExportStatus, setNetworkExportStatus] = useState<{ source: string; warnings: string[] } | null>(null);
     const [showFeedback, setShowFeedback] = useState(false);
     const [feedbackNodeId, setFeedbackNodeId] = useState<string | null>(null);
+    const [editMode, setEditMode] = useState(false);
+    const [editSelection, setEditSelection] = useState<string | null>(null);
+    const [editError, setEditError] = useState<string | null>(null);
+    const [simulationView, setSimulationView] = useState(false);
+    const simulation = useFeedbackSimulation(nodes, links);
+    const [showLoops, setShowLoops] = useState(false);
+    const [selectedLoopKey, setSelectedLoopKey] = useState<string | null>(null);
     
-    const getNodeColor = useCallback((id: string): string => {
-        const main: Record<string, string> = {
-            form: '#4ECDC4',
-            function: '#95E1D3',
-            material: '#FF6B6B',
-            emotion: '#F38181',
-            process: '#AA96DA',
-            feedbackLoop: '#FCBAD3',
-        };
-        return main[id] || '#a0a0a0';
-    }, []);
+    const feedbackLoops = useMemo(() => findFeedbackLoops(nodes, links), [nodes, links]);
+    const selectedLoop = useMemo(
+        () => feedbackLoops.loops.find(loop => loop.key === selectedLoopKey) ?? null,
+        [feedbackLoops, selectedLoopKey]
+    );
     
-    const handleNodeClick = (id: string) => {
-        if (activeNode === id) {
-            // Show feedback before closing
-            if (cyberneticMode) {
-                setFeedbackNodeId(id);
-                setShowFeedback(true);
+    // ==== Undo / redo ====
+    // Handlers call markHistory(label) when they change undoable state; the effect
+    // below records a snapshot once React has applied all of that handler's updates,
+    // or drops the label if they changed nothing.
+    const undoableState = useMemo<UndoableState>(() => ({
+        network,
+        explorationData,
+        layout2D,
+        layoutSeed,
+        cyberneticMode,
+        direction,
+        ordering: orderingSettings,
+        activeNode,
+        hierarchicalLayers,
+        previousLayers,
+        sessionLog
+    }), [network, explorationData, layout2D, layoutSeed, cyberneticMode, direction, orderingSettings, activeNode, hierarchicalLayers, previousLayers, sessionLog]);
+    const history = useUndoHistory<UndoableState>('Session start', undoableState);
+    const pendingHistory = useRef<{ label: string; before: UndoableState } | null>(null);
+    // Bumped with each mark so the effect runs even when the handler's updates were no-ops
+    const [historyMarks, setHistoryMarks] = useState(0);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showPalette, setShowPalette] = useState(false);
+    const [focusNode, setFocusNode] = useState<string | null>(null);
+    const [pulsesEnabled, setPulsesEnabled] = useState(true);
+    const [pulseSpeed, setPulseSpeed] = useState(1);
+    const [pulseTiming, setPulseTiming] = useState<PulseTiming>('depth');
+    const [pulseRun, setPulseRun] = useState(0);
+    
+    // ==== Camera pose ====
+    // A pose the user (or a shared link) left the camera in belongs to the view
+    // it was taken in; opening another node or focusing one returns to the
+    // default camera for that view
+    const viewKey = `${activeNode ?? ''}|${focusNode ?? ''}`;
+    const [cameraView, setCameraView] = useState<{ pose: CameraPose; view: string } | null>(
+        restored.camera ? { pose: restored.camera, view: `${restored.activeNode ?? ''}|` } : null
+    );
+    const cameraPose = cameraView?.view === viewKey ? cameraView.pose : null;
+    
+    // ==== Structural metrics ====
+    const [showMetrics, setShowMetrics] = useState(false);
+    const [scaleMetric, setScaleMetric] = useState<MetricKey | null>(null);
+    const [metricEmphasis, setMetricEmphasis] = useState<MetricEmphasis>('size');
+    // The explore-next suggestions weigh nodes by these metrics too
+    const [showRecommendations, setShowRecommendations] = useState(true);
+    const recommendationsVisible = cyberneticMode && !activeNode && showRecommendations;
+    const networkMetrics = useNetworkMetrics(nodes, links, showMetrics || scaleMetric !== null || recommendationsVisible);
+    const nodeEmphasis = useMemo(
+        () => (scaleMetric && networkMetrics ? normalizeMetric(networkMetrics, scaleMetric) : null),
+        [networkMetrics, scaleMetric]
+    );
+    
+    // ==== Path finder ====
+    const [showPathFinder, setShowPathFinder] = useState(false);
+    const [pathQuery, setPathQuery] = useState<PathQuery>(EMPTY_PATH_QUERY);
+    const pathResult = useMemo(() => {
+        const { from, to, mode, k, maxLength } = pathQuery;
+        if (!showPathFinder || !from || !to || from === to) return null;
+        return findPaths(links, from, to, mode, { k, maxLength });
+    }, [showPathFinder, pathQuery, links]);
+    const highlightedPath = showPathFinder && !activeNode ? pathResult?.paths[pathQuery.selected] ?? null : null;
+    
+    // Shift-click picks the start, then the end; a third pick starts over
+    const handlePathPick = (id: string) => {
+        setShowPathFinder(true);
+        setPathQuery(prev => {
+            if (!prev.from || prev.to) return { ...prev, from: id, to: null, selected: 0 };
+            if (prev.from === id) return prev;
+            return { ...prev, to: id, selected: 0 };
+        });
+    };
+    const { record: recordHistory } = history;
+    
+    useEffect(() => {
+        const pending = pendingHistory.current;
+        if (pending === null) return;
+        if (pending.before !== undoableState) recordHistory(pending.label, undoableState);
+        pendingHistory.current = null;
+    }, [undoableState, historyMarks, recordHistory]);
+    
+    const markHistory = (label: string) => {
+        pendingHistory.current = { label, before: undoableState };
+        setHistoryMarks(count => count + 1);
+    };
+    
+    // ==== Background layout ====
+    // Intermediate frames stream into the overview; a labelled request records
+    // its history entry once the layout has settled.
+    const layoutProgress = useForceLayout(layoutRequest, (layout, done, request) => {
+        if (done && request.label) markHistory(request.label);
+        setLayout2D(layout);
+    });
+    
+    // Any layout not started from a seed no longer matches the one shown
+    const startLayout = (request: LayoutRequest) => {
+        setLayout2D(request.seed);
+        setLayoutRequest(request);
+        setLayoutSeed(request.randomSeed ?? null);
+    };
+    
+    const restoreHistoryEntry = (index: number) => {
+        const state = history.moveTo(index);
+        if (!state) return;
+        setNetwork(state.network);
+        setExplorationData(state.explorationData);
+        setLayout2D(state.layout2D);
+        setLayoutRequest(null);
+        setLayoutSeed(state.layoutSeed);
+        setCyberneticMode(state.cyberneticMode);
+        setDirection(state.direction);
+        setOrderingSettings(state.ordering);
+        setActiveNode(state.activeNode);
+        setHierarchicalLayers(state.hierarchicalLayers);
+        setPreviousLayers(state.previousLayers);
+        setSessionLog(state.sessionLog);
+        setShowFeedback(false);
+        setEditSelection(null);
+        setEditError(null);
+        setFocusNode(null);
+    };
+    
+    const handleUndo = () => restoreHistoryEntry(history.index - 1);
+    const handleRedo = () => restoreHistoryEntry(history.index + 1);
+    
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave text fields to their own native undo
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+            
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
             }
-            setActiveNode(null);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+    
+    // Save automatically, debounced so a burst of clicks is written once
+    const pendingSave = useRef<(() => void) | null>(null);
+    useEffect(() => {
+        const save = () => {
+            pendingSave.current = null;
+            savePersistedSession(profile, networkSource, {
+                cyberneticMode,
+                direction,
+                ordering: orderingSettings,
+                activeNode,
+                explorationData: explorationToRecord(explorationData),
+                layout2D: layoutToRecord(layout2D),
+                layoutSeed,
+                startedAt: sessionStartedAt,
+                history: sessionLog,
+            });
+        };
+        pendingSave.current = save;
+        const timeout = setTimeout(save, 300);
+        return () => clearTimeout(timeout);
+    }, [profile, networkSource, cyberneticMode, direction, orderingSettings, activeNode, explorationData, layout2D, layoutSeed, sessionStartedAt, sessionLog]);
+    
+    // A change still waiting for the debounce is written before switching
+    // profile or network, or unmounting, rather than dropped
+    useEffect(() => () => pendingSave.current?.(), [profile, networkSource]);
+    
+    // ==== URL state ====
+    // The hash mirrors the view so it can be shared. Each node selection gets
+    // its own browser history entry; other changes update the current one.
+    const urlInitialized = useRef(false);
+    useEffect(() => {
+        const hash = formatUrlState({ activeNode, cyberneticMode, direction, layoutSeed, camera: cameraPose });
+        if (hash === window.location.hash) {
+            urlInitialized.current = true;
+            return;
+        }
+        
+        const url = `${window.location.pathname}${window.location.search}${hash}`;
+        const shownNode = parseUrlState(window.location.hash)?.activeNode ?? null;
+        if (urlInitialized.current && shownNode !== activeNode) window.history.pushState(null, '', url);
+        else window.history.replaceState(null, '', url);
+        urlInitialized.current = true;
+    }, [activeNode, cyberneticMode, direction, layoutSeed, cameraPose]);
+    
+    // Back / forward walks through node selections without counting them as visits
+    useEffect(() => {
+        const onPopState = () => {
+            const state = parseUrlState(window.location.hash);
+            const id = state?.activeNode && nodes.some(n => n.id === state.activeNode) ? state.activeNode : null;
+            setFocusNode(null);
+            setShowFeedback(false);
+            if (id !== activeNode) {
+                setActiveNode(id);
+                setHierarchicalLayers(id ? getAdaptiveHierarchicalLayers(id, links, getOrdering(), cyberneticMode, direction) : []);
+                setPreviousLayers([]);
+            }
+            setCameraView(state?.camera ? { pose: state.camera, view: `${id ?? ''}|` } : null);
+        };
+        window.addEventListener('popstate', onPopState);
+        return () => window.removeEventListener('popstate', onPopState);
+    });
+    
+    // ==== Session log and portable session files ====
+    const logSessionEvent = (event: Omit<SessionEvent, 'at'>) => {
+        setSessionLog(prev => [...prev, { ...event, at: new Date().toISOString() }]);
+    };
+    
+    const handleExportSession = () => {
+        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        downloadText(`session-${profile}-${stamp}.json`, serializeSession({
+            profile,
+            startedAt: sessionStartedAt,
+            network,
+            state: {
+                cyberneticMode,
+                direction,
+                ordering: orderingSettings,
+                activeNode,
+                explorationData,
+                layout2D,
+                hierarchicalLayers,
+                previousLayers
+            },
+            history: sessionLog,
+        }));
+    };
+    
+    const handleImportSession = async (file: File) => {
+        let text: string;
+        try {
+            text = await file.text();
+        } catch (err) {
+            const detail = err instanceof Error ? err.message : String(err);
+            setSessionImportStatus({ source: file.name, errors: [`Could not read ${file.name}: ${detail}`], warnings: [] });
+            return;
+        }
+        
+        const result = parseSessionFile(text);
+        if (!result.ok) {
+            setSessionImportStatus({ source: file.name, errors: result.errors, warnings: result.warnings });
+            return;
+        }
+        
+        const { session } = result;
+        const nodeIds = new Set(nodes.map(n => n.id));
+        const keepKnown = (layers: NodeLayer[]) => layers
+            .map(layer => ({ ...layer, nodes: layer.nodes.filter(id => nodeIds.has(id)) }))
+            .filter(layer => layer.nodes.length > 0);
+        
+        const importedExploration = new Map<string, NodeExploration>();
+        nodes.forEach(node => {
+            importedExploration.set(node.id, session.state.explorationData.get(node.id) ?? { ...EMPTY_EXPLORATION });
+        });
+        
+        const importedLayout: Layout2D = new Map(
+            [...session.state.layout2D].filter(([id]) => nodeIds.has(id))
+        );
+        
+        const warnings = compareNetworks(session.network, network);
+        const importedActive = session.state.activeNode;
+        if (importedActive && !nodeIds.has(importedActive)) {
+            warnings.push(`The node open when the session was exported ("${importedActive}") no longer exists.`);
+        }
+        const restoredActive = importedActive && nodeIds.has(importedActive) ? importedActive : null;
+        
+        setEditMode(false);
+        setShowFeedback(false);
+        setExplorationData(importedExploration);
+        setCyberneticMode(session.state.cyberneticMode);
+        setDirection(session.state.direction);
+        setOrderingSettings(session.state.ordering);
+        if (importedLayout.size === nodeIds.size) {
+            setLayout2D(importedLayout);
+            setLayoutRequest(null);
+            setLayoutSeed(null);
+            markHistory(`Import session ${file.name}`);
+        } else {
+            startLayout({
+                nodes,
+                links,
+                seed: seedLayout(nodes, links, importedLayout.size > 0 ? importedLayout : undefined),
+                options: importedLayout.size > 0 ? RELAX_LAYOUT_OPTIONS : FULL_LAYOUT_OPTIONS,
+                label: `Import session ${file.name}`,
+            });
+        }
+        setActiveNode(restoredActive);
+        setHierarchicalLayers(restoredActive ? keepKnown(session.state.hierarchicalLayers) : []);
+        setPreviousLayers(restoredActive ? keepKnown(session.state.previousLayers) : []);
+        setSessionStartedAt(session.startedAt || new Date().toISOString());
+        setSessionLog(session.history);
+        setSessionImportStatus(warnings.length > 0 ? { source: file.name, errors: [], warnings } : null);
+    };
+    
+    // ==== Workshop aggregate ====
+    // Other participants' session files, merged for comparison; they never
+    // change this session's own feedback or history
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [excludedParticipants, setExcludedParticipants] = useState<Set<string>>(new Set());
+    const [compareParticipants, setCompareParticipants] = useState<[string | null, string | null]>([null, null]);
+    const [heatmapMode, setHeatmapMode] = useState<HeatmapMode | null>('variance');
+    const [showAggregate, setShowAggregate] = useState(false);
+    const [workshopLoadStatus, setWorkshopLoadStatus] = useState<
+        { source: string; errors: string[]; warnings: string[] } | null
+    >(null);
+    const workshopInputRef = useRef<HTMLInputElement>(null);
+    
+    const nextParticipantId = useRef(0);
+    
+    const handleAddParticipants = async (files: File[]) => {
+        const added: Participant[] = [];
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        for (const file of files) {
+            let text: string;
+            try {
+                text = await file.text();
+            } catch (err) {
+                const detail = err instanceof Error ? err.message : String(err);
+                errors.push(`${file.name}: Could not read the file: ${detail}`);
+                continue;
+            }
+            const result = loadParticipant(`participant-${nextParticipantId.current++}`, file.name, text, network);
+            if (!result.ok) {
+                errors.push(...result.errors);
+                continue;
+            }
+            added.push(result.participant);
+            warnings.push(...result.warnings);
+        }
+        
+        // Another batch may have been added while these files were read
+        setParticipants(prev => {
+            const taken = new Set(prev.map(p => p.name));
+            return [...prev, ...added.map(participant => {
+                const name = uniqueParticipantName(participant.name, taken);
+                taken.add(name);
+                return { ...participant, name };
+            })];
+        });
+        setCompareParticipants(([a, b]) => {
+            const fresh = added.map(p => p.id);
+            const first = a ?? fresh.shift() ?? null;
+            return [first, b ?? fresh.shift() ?? null];
+        });
+        if (added.length > 0) setShowAggregate(true);
+        // Files that failed alongside ones that loaded are reported as warnings
+        const failed = added.length === 0 ? errors : [];
+        const notes = added.length === 0 ? warnings : [...errors, ...warnings];
+        setWorkshopLoadStatus(failed.length > 0 || notes.length > 0
+            ? { source: files.map(file => file.name).join(', '), errors: failed, warnings: notes }
+            : null);
+    };
+    
+    const handleRemoveParticipant = (id: string) => {
+        setParticipants(prev => prev.filter(p => p.id !== id));
+        setExcludedParticipants(prev => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+        });
+        setCompareParticipants(([a, b]) => [a === id ? null : a, b === id ? null : b]);
+    };
+    
+    const handleToggleParticipant = (id: string) => {
+        setExcludedParticipants(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+    
+    const aggregates = useMemo(
+        () => aggregateFeedback(participants.filter(p => !excludedParticipants.has(p.id)), nodes.map(n => n.id)),
+        [participants, excludedParticipants, nodes]
+    );
+    const heatColors = useMemo(() => {
+        if (!showAggregate || !heatmapMode || participants.length === 0) return null;
+        return new Map(nodes.map(n => [n.id, getHeatColor(aggregates.get(n.id), heatmapMode)]));
+    }, [showAggregate, heatmapMode, participants, nodes, aggregates]);
+    
+    // Each participant's cybernetic hierarchy from the open node, ordered with
+    // the current strategy as it stood at the end of their session
+    const comparison = useMemo<[NodeLayer[], NodeLayer[]] | null>(() => {
+        const [a, b] = compareParticipants.map(id => participants.find(p => p.id === id));
+        if (!showAggregate || !activeNode || !a || !b) return null;
+        const layersFor = (participant: Participant) => getAdaptiveHierarchicalLayers(activeNode, links, {
+            explorationData: participant.explorationData,
+            feedbackLog: getFeedbackLog(participant.history),
+            now: getParticipantClock(participant),
+            random: createRandom(participant.name),
+            settings: orderingSettings,
+        }, true, direction);
+        return [layersFor(a), layersFor(b)];
+    }, [compareParticipants, participants, showAggregate, activeNode, links, orderingSettings, direction]);
+    
+    const categories = useMemo(() => getNodeCategories(nodes), [nodes]);
+    const nodeColors = useMemo(() => getNodeColors(nodes, categories), [nodes, categories]);
+    const getNodeColor = useCallback(
+        (id: string): string => nodeColors.get(id) ?? UNCATEGORIZED_COLOR,
+        [nodeColors]
+    );
+    
+    // ==== Category visibility ====
+    const [hiddenCategories, setHiddenCategories] = useState<Set<string>>(new Set());
+    const hiddenNodes = useMemo(
+        () => new Set(nodes.filter(n => hiddenCategories.has(getNodeCategory(n))).map(n => n.id)),
+        [nodes, hiddenCategories]
+    );
+    
+    // ==== Explore next ====
+    // Worked out only while the panel is open, once the metrics are in
+    const recommendations = useMemo(
+        () => (recommendationsVisible && networkMetrics
+            ? recommendNextNodes(nodes, links, explorationData, networkMetrics, hiddenNodes)
+            : null),
+        [recommendationsVisible, nodes, links, explorationData, networkMetrics, hiddenNodes]
+    );
+    
+    const toggleCategory = (id: string) => {
+        setHiddenCategories(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+    
+    // ==== Network editing ====
+    const applyNetworkEdit = (next: NetworkData, label: string) => {
+        setNetwork(next);
+        startLayout({
+            nodes: next.nodes,
+            links: next.links,
+            seed: seedLayout(next.nodes, next.links, layout2D),
+            options: RELAX_LAYOUT_OPTIONS,
+            label,
+        });
+        // Keep exploration entries in step with the node list
+        setExplorationData(prev => {
+            const newMap = new Map<string, NodeExploration>();
+            next.nodes.forEach(node => {
+                newMap.set(node.id, prev.get(node.id) || { ...EMPTY_EXPLORATION });
+            });
+            return newMap;
+        });
+        setEditError(null);
+    };
+    
+    const handleEditNodeClick = (id: string) => {
+        if (!editSelection || editSelection === id) {
+            setEditSelection(editSelection === id ? null : id);
+            setEditError(null);
+            return;
+        }
+        
+        // Second click: toggle the directed link selection → id
+        const linkLabel = `${getNodeLabel(editSelection)} → ${getNodeLabel(id)}`;
+        if (hasLink(network, editSelection, id)) {
+            applyNetworkEdit(removeLink(network, editSelection, id), `Remove link ${linkLabel}`);
+        } else {
+            const result = addLink(network, editSelection, id);
+            if (result.ok) applyNetworkEdit(result.network, `Add link ${linkLabel}`);
+            else setEditError(result.error);
+        }
+    };
+    
+    const handleAddNode = (id: string, label: string): boolean => {
+        const result = addNode(network, id, label);
+        if (!result.ok) {
+            setEditError(result.error);
+            return false;
+        }
+        applyNetworkEdit(result.network, `Add node ${id.trim()}`);
+        setEditSelection(id.trim());
+        return true;
+    };
+    
+    const handleRenameNode = (id: string, label: string) => {
+        const result = renameNode(network, id, label);
+        if (result.ok) applyNetworkEdit(result.network, `Rename ${getNodeLabel(id)} to ${label.trim()}`);
+        else setEditError(result.error);
+    };
+    
+    const handleDeleteNode = (id: string) => {
+        applyNetworkEdit(removeNode(network, id), `Delete node ${getNodeLabel(id)}`);
+        setEditSelection(null);
+    };
+    
+    const handleExportNetwork = (format: NetworkFormat) => {
+        const { extension, mimeType } = NETWORK_FORMATS[format];
+        const fileName = `network.${extension}`;
+        const exported = exportNetwork(network, format);
+        downloadText(fileName, exported.text, mimeType);
+        // Tell the user what the format couldn't carry
+        setNetworkExportStatus(exported.lost.length > 0 ? { source: fileName, warnings: exported.lost } : null);
+    };
+    
+    const toggleEditMode = () => {
+        setEditMode(!editMode);
+        setEditSelection(null);
+        setEditError(null);
+    };
+    
+    const toggleSimulationView = () => {
+        if (simulationView) simulation.pause();
+        setSimulationView(!simulationView);
+    };
+    
+    const handleNodeClick = (id: string) => {
+        if (editMode) {
+            handleEditNodeClick(id);
+            return;
+        }
+        
+        if (activeNode === id) {
+            // Show feedback before closing
+            if (cyberneticMode) {
+                setFeedbackNodeId(id);
+                setShowFeedback(true);
+            }
+            setActiveNode(null);
             setHierarchicalLayers([]);
             setPreviousLayers([]);
+            logSessionEvent({ type: 'close', nodeId: id, previousLayers: hierarchicalLayers, layers: [] });
+            markHistory(`Close ${getNodeLabel(id)}`);
         } else {
             // Save previous layers before updating
             if (hierarchicalLayers.length > 0 && cyberneticMode) {
@@ -1087,8 +2050,10 @@ const CyberneticTopoMap: React.FC = () => {
             }
             
             setActiveNode(id);
-            const newLayers = getAdaptiveHierarchicalLayers(id, links, explorationData, cyberneticMode);
+            const newLayers = getAdaptiveHierarchicalLayers(id, links, getOrdering(), cyberneticMode, direction);
             setHierarchicalLayers(newLayers);
+            logSessionEvent({ type: 'select', nodeId: id, previousLayers: hierarchicalLayers, layers: newLayers });
+            markHistory(`Open ${getNodeLabel(id)}`);
             
             // Track visit
             setExplorationData(prev => {
@@ -1119,33 +2084,344 @@ const CyberneticTopoMap: React.FC = () => {
         setExplorationData(newExplorationData);
         
         // Regenerate path with updated feedback
+        let newLayers = hierarchicalLayers;
         if (activeNode && cyberneticMode) {
             setPreviousLayers(hierarchicalLayers);
-            const newLayers = getAdaptiveHierarchicalLayers(activeNode, links, newExplorationData, cyberneticMode);
+            newLayers = getAdaptiveHierarchicalLayers(
+                activeNode,
+                links,
+                getOrdering(newExplorationData, [{ nodeId, feedback: type, at: Date.now() }]),
+                cyberneticMode,
+                direction
+            );
             setHierarchicalLayers(newLayers);
         }
+        logSessionEvent({ type: 'feedback', nodeId, feedback: type, previousLayers: hierarchicalLayers, layers: newLayers });
+        markHistory(`Vote ${FEEDBACK_LABELS[type]} on ${getNodeLabel(nodeId)}`);
     };
     
     const handleClose = () => {
+        setFocusNode(null);
+        logSessionEvent({ type: 'close', nodeId: activeNode, previousLayers: hierarchicalLayers, layers: [] });
+        if (activeNode) markHistory(`Close ${getNodeLabel(activeNode)}`);
         setActiveNode(null);
         setHierarchicalLayers([]);
         setPreviousLayers([]);
     };
     
-    const handleRandomize = () => {
-        if (!activeNode) {
-            setLayout2D(forceDirectedLayout(nodes, links, true));
+    // ==== Seeded layouts ====
+    // The same seed scatters and jitters the nodes the same way, so entering a
+    // seed again reproduces its layout (given the same network and pins)
+    const applyLayoutSeed = (randomSeed: string, label: string) => {
+        if (activeNode) return;
+        setOverviewLayout('force');
+        // Pinned nodes stay put; everything else is scattered afresh
+        startLayout({
+            nodes,
+            links,
+            seed: seedLayout(nodes, links, layout2D, createRandom(randomSeed)),
+            options: RANDOMIZE_LAYOUT_OPTIONS,
+            randomSeed,
+            label,
+        });
+    };
+    
+    const handleRandomize = () => applyLayoutSeed(generateSeed(), 'Randomize layout');
+    
+    const [showSeeds, setShowSeeds] = useState(false);
+    const [seedGallery, setSeedGallery] = useState<SavedLayoutSeed[]>(() => loadSeedGallery(profile, networkSource));
+    
+    const updateSeedGallery = (entries: SavedLayoutSeed[]) => {
+        setSeedGallery(entries);
+        saveSeedGallery(profile, networkSource, entries);
+    };
+    
+    const handleSaveSeed = (name: string) => {
+        if (!layoutSeed) return;
+        updateSeedGallery([
+            {
+                seed: layoutSeed,
+                name,
+                savedAt: new Date().toISOString(),
+                // Mid-settle positions aren't worth keeping; the seed recreates the layout
+                layout2D: layoutProgress.running ? {} : layoutToRecord(layout2D),
+            },
+            ...seedGallery,
+        ]);
+    };
+    
+    // A saved layout is shown as it was saved; after network edits it no longer
+    // covers every node, so the seed lays the network out again instead
+    const handleApplySavedSeed = (index: number) => {
+        const entry = seedGallery[index];
+        if (!entry || activeNode) return;
+        const saved = recordToLayout(entry.layout2D);
+        if (nodes.every(n => saved.has(n.id))) {
+            setOverviewLayout('force');
+            setLayout2D(new Map(nodes.map(n => [n.id, saved.get(n.id)!])));
+            setLayoutRequest(null);
+            setLayoutSeed(entry.seed);
+            markHistory(`Layout ${entry.name}`);
+        } else {
+            applyLayoutSeed(entry.seed, `Layout ${entry.name}`);
         }
     };
     
+    const handleDeleteSavedSeed = (index: number) => {
+        updateSeedGallery(seedGallery.filter((_, idx) => idx !== index));
+    };
+    
+    // ==== Overview layout choice ====
+    // The force layout is the one that's saved, pinned and edited; the others
+    // are arrangements of the same nodes drawn in its place
+    const [overviewLayout, setOverviewLayout] = useState<OverviewLayoutKind>('force');
+    const [radialRoot, setRadialRoot] = useState<string | null>(null);
+    const effectiveRadialRoot = radialRoot && nodes.some(n => n.id === radialRoot)
+        ? radialRoot
+        : getDefaultRadialRoot(nodes, links);
+    const overviewLayoutRequest = useMemo<OverviewLayoutRequest | null>(() => {
+        if (overviewLayout === 'force' || !effectiveRadialRoot) return null;
+        return { kind: overviewLayout, nodes, links, categories, rootId: effectiveRadialRoot };
+    }, [overviewLayout, effectiveRadialRoot, nodes, links, categories]);
+    // The previous arrangement stays on screen until the new one has been computed
+    const alternativeLayout = useOverviewLayout(overviewLayoutRequest);
+    const shownAlternative = alternativeLayout.result?.request;
+    const overviewPositions = useLayoutTransition(
+        alternativeLayout.result?.layout ?? layout2D,
+        !shownAlternative ? 'force' : shownAlternative.kind === 'radial' ? `radial:${shownAlternative.rootId}` : shownAlternative.kind
+    );
+    
+    // ==== Pinned nodes ====
+    const pinnedCount = useMemo(() => [...layout2D.values()].filter(pos => pos.pinned).length, [layout2D]);
+    
+    const relaxAround = (seed: Layout2D, label: string) => {
+        startLayout({ nodes, links, seed, options: RELAX_LAYOUT_OPTIONS, label });
+    };
+    
+    const handleNodeDrag = (id: string, x: number, y: number) => {
+        const seed = seedLayout(nodes, links, layout2D);
+        seed.set(id, { x, y, vx: 0, vy: 0, pinned: true });
+        relaxAround(seed, `Move ${getNodeLabel(id)}`);
+    };
+    
+    const handleTogglePin = (id: string) => {
+        const seed = seedLayout(nodes, links, layout2D);
+        const pos = seed.get(id);
+        if (!pos) return;
+        seed.set(id, { ...pos, pinned: !pos.pinned });
+        relaxAround(seed, `${pos.pinned ? 'Unpin' : 'Pin'} ${getNodeLabel(id)}`);
+    };
+    
+    const handleUnpinAll = () => {
+        const seed = seedLayout(nodes, links, layout2D);
+        seed.forEach(pos => {
+            pos.pinned = false;
+        });
+        relaxAround(seed, 'Unpin all nodes');
+    };
+    
     const toggleCyberneticMode = () => {
         setCyberneticMode(!cyberneticMode);
         // Regenerate current path if one is active
+        let newLayers = hierarchicalLayers;
         if (activeNode) {
             setPreviousLayers(hierarchicalLayers);
-            const newLayers = getAdaptiveHierarchicalLayers(activeNode, links, explorationData, !cyberneticMode);
+            newLayers = getAdaptiveHierarchicalLayers(activeNode, links, getOrdering(), !cyberneticMode, direction);
             setHierarchicalLayers(newLayers);
         }
+        markHistory(`Cybernetic mode ${cyberneticMode ? 'off' : 'on'}`);
+        logSessionEvent({
+            type: 'mode',
+            nodeId: activeNode,
+            cyberneticMode: !cyberneticMode,
+            previousLayers: hierarchicalLayers,
+            layers: newLayers
+        });
+    };
+    
+    const handleOrderingChange = (settings: OrderingSettings) => {
+        const keys = Object.keys(settings) as (keyof OrderingSettings)[];
+        if (keys.every(key => settings[key] === orderingSettings[key])) return;
+        setOrderingSettings(settings);
+        if (activeNode && cyberneticMode) {
+            setPreviousLayers(hierarchicalLayers);
+            setHierarchicalLayers(getAdaptiveHierarchicalLayers(activeNode, links, getOrdering(explorationData, [], settings), cyberneticMode, direction));
+        }
+        markHistory(`Ordering: ${ORDERING_STRATEGIES[settings.strategy].label}`);
+    };
+    
+    // ==== Export ====
+    // The canvas store is read at export time so the camera and size are current
+    const canvasStore = useRef<(() => RootState) | null>(null);
+    
+    const [exportFailure, setExportFailure] = useState<{ label: string; source: string; error: string } | null>(null);
+    
+    const runExport = async (label: string, task: () => Promise<void>) => {
+        try {
+            await task();
+            setExportFailure(null);
+        } catch (err) {
+            const detail = err instanceof Error ? err.message : String(err);
+            setExportFailure({ label, source: exportBaseName(), error: detail });
+        }
+    };
+    
+    const exportBaseName = () => {
+        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        return `${activeNode ? `path-${activeNode}` : 'overview'}-${stamp}`;
+    };
+    
+    const exportPng = (scale: number) => runExport('PNG', async () => {
+        const state = canvasStore.current?.();
+        if (!state) throw new Error('The scene is not ready yet');
+        const background: [string, string] = cyberneticMode ? ['#1a0a2e', '#050509'] : ['#151822', '#050509'];
+        downloadBlob(`${exportBaseName()}@${scale}x.png`, await captureScenePng(state, scale, background));
+    });
+    
+    const exportOptions: ExportOption[] = [
+        { id: 'png-2', label: 'PNG image (2×)', hint: 'Current view with labels', run: () => exportPng(2) },
+        { id: 'png-4', label: 'PNG image (4×)', hint: 'For print and large screens', run: () => exportPng(4) },
+        ...(activeNode ? [
+            {
+                id: 'gltf',
+                label: '3D scene (glTF)',
+                hint: 'Hierarchical view as .glb for Blender and other 3D tools',
+                run: () => runExport('glTF', async () => {
+                    const state = canvasStore.current?.();
+                    if (!state) throw new Error('The scene is not ready yet');
+                    const glb = await exportSceneGltf(state.scene);
+                    downloadBlob(`${exportBaseName()}.glb`, new Blob([glb], { type: 'model/gltf-binary' }));
+                }),
+            },
+        ] : [
+            {
+                id: 'svg',
+                label: 'Overview (SVG)',
+                hint: 'Vector drawing of the 2D layout',
+                run: () => runExport('SVG', async () => {
+                    downloadText(`${exportBaseName()}.svg`, overviewToSvg({
+                        nodes,
+                        links,
+                        layout: overviewPositions,
+                        nodeColors,
+                        fallbackColor: UNCATEGORIZED_COLOR,
+                        hiddenNodes,
+                        title: networkSource,
+                    }), 'image/svg+xml');
+                }),
+            },
+        ]),
+    ];
+    
+    // ==== Command palette ====
+    // Picks select the node as a click would, but never toggle an open node closed
+    const handlePaletteSelectNode = (id: string) => {
+        if (editMode) {
+            setEditSelection(id);
+            setEditError(null);
+        } else if (activeNode !== id) {
+            handleNodeClick(id);
+        }
+        setFocusNode(id);
+    };
+    
+    const paletteCommands: PaletteCommand[] = [
+        ...(activeNode
+            ? [{ id: 'close', label: 'Close path view', run: handleClose }]
+            : [
+                { id: 'randomize', label: 'Randomize layout', run: handleRandomize },
+                { id: 'seeds', label: showSeeds ? 'Hide layout seeds' : 'Layout seeds…', run: () => setShowSeeds(!showSeeds) },
+                ...seedGallery.map((entry, idx) => ({
+                    id: `seed-${idx}`,
+                    label: `Show saved layout: ${entry.name}`,
+                    hint: entry.seed,
+                    run: () => handleApplySavedSeed(idx),
+                })),
+                ...(pinnedCount > 0 ? [{ id: 'unpin-all', label: `Unpin all nodes (${pinnedCount})`, run: handleUnpinAll }] : []),
+                ...(Object.keys(OVERVIEW_LAYOUT_LABELS) as OverviewLayoutKind[])
+                    .filter(kind => kind !== overviewLayout)
+                    .map(kind => ({ id: `layout-${kind}`, label: `${OVERVIEW_LAYOUT_LABELS[kind]} layout`, run: () => setOverviewLayout(kind) })),
+            ]),
+        {
+            id: 'cybernetic',
+            label: cyberneticMode ? 'Turn cybernetic mode off' : 'Turn cybernetic mode on',
+            run: toggleCyberneticMode
+        },
+        ...(cyberneticMode ? [{
+            id: 'ordering',
+            label: showOrdering ? 'Hide ordering settings' : 'Ordering settings…',
+            hint: ORDERING_STRATEGIES[orderingSettings.strategy].label,
+            run: () => setShowOrdering(!showOrdering)
+        }] : []),
+        ...(cyberneticMode && !activeNode ? [{
+            id: 'recommendations',
+            label: showRecommendations ? 'Hide explore-next suggestions' : 'Show explore-next suggestions',
+            run: () => setShowRecommendations(!showRecommendations)
+        }] : []),
+        { id: 'undo', label: 'Undo', hint: 'Ctrl+Z', run: handleUndo },
+        { id: 'redo', label: 'Redo', hint: 'Ctrl+Shift+Z', run: handleRedo },
+        { id: 'path-finder', label: showPathFinder ? 'Close path finder' : 'Find path between nodes', run: () => setShowPathFinder(!showPathFinder) },
+        { id: 'loops', label: showLoops ? 'Hide feedback loops' : 'Show feedback loops', run: () => setShowLoops(!showLoops) },
+        { id: 'metrics', label: showMetrics ? 'Hide network metrics' : 'Show network metrics', run: () => setShowMetrics(!showMetrics) },
+        { id: 'history', label: showHistory ? 'Hide history' : 'Show history', run: () => setShowHistory(!showHistory) },
+        { id: 'workshop-add', label: 'Add participant session files…', run: () => workshopInputRef.current?.click() },
+        ...(participants.length > 0 ? [{
+            id: 'workshop',
+            label: showAggregate ? 'Hide workshop aggregate' : 'Show workshop aggregate',
+            hint: `${participants.length} participants`,
+            run: () => setShowAggregate(!showAggregate)
+        }] : []),
+        ...(activeNode ? [
+            { id: 'pulses', label: pulsesEnabled ? 'Turn off influence pulses' : 'Turn on influence pulses', run: () => setPulsesEnabled(!pulsesEnabled) },
+            { id: 'replay-pulses', label: 'Replay influence pulses', run: () => {
+                setPulsesEnabled(true);
+                setPulseRun(run => run + 1);
+            } },
+        ] : []),
+        ...(activeNode ? [] : [
+            { id: 'simulate', label: simulationView ? 'Stop simulation view' : 'Simulate feedback', run: toggleSimulationView },
+            { id: 'edit', label: editMode ? 'Finish editing network' : 'Edit network', run: toggleEditMode },
+        ]),
+        { id: 'export-session', label: 'Export session', run: handleExportSession },
+        ...exportOptions.map(option => ({ id: `export-${option.id}`, label: `Export ${option.label}`, run: option.run })),
+        { id: 'import-session', label: 'Import session…', run: () => sessionInputRef.current?.click() },
+        ...(Object.keys(NETWORK_FORMATS) as NetworkFormat[]).map(format => ({
+            id: `save-network-${format}`,
+            label: `Export network as ${NETWORK_FORMATS[format].label}`,
+            run: () => handleExportNetwork(format),
+        })),
+        { id: 'load-network', label: 'Load network file…', run: onOpenNetwork },
+    ];
+    
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setShowPalette(open => !open);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+    
+    const handleDirectionChange = (next: TraversalDirection) => {
+        if (next === direction) return;
+        setDirection(next);
+        let newLayers = hierarchicalLayers;
+        if (activeNode) {
+            // A different traversal isn't a reorganization, so don't mark layer changes
+            setPreviousLayers([]);
+            newLayers = getAdaptiveHierarchicalLayers(activeNode, links, getOrdering(), cyberneticMode, next);
+            setHierarchicalLayers(newLayers);
+        }
+        markHistory(`Path direction: ${next}`);
+        logSessionEvent({
+            type: 'direction',
+            nodeId: activeNode,
+            direction: next,
+            previousLayers: hierarchicalLayers,
+            layers: newLayers
+        });
     };
     
     const getNodeLabel = (id: string) => {
@@ -1173,10 +2449,63 @@ const CyberneticTopoMap: React.FC = () => {
                         top: 20,
                         right: 20,
                         display: 'flex',
+                        flexWrap: 'wrap',
+                        justifyContent: 'flex-end',
+                        maxWidth: 'calc(100vw - 400px)',
                         gap: 10,
                         zIndex: 2,
                     }}
                 >
+                    <button
+                        onClick={() => setShowPalette(true)}
+                        style={{
+                            background: 'rgba(255,255,255,0.1)',
+                            border: '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                        title="Search nodes and actions (Ctrl+K)"
+                    >
+                        🔍 Search
+                    </button>
+                    <button
+                        onClick={() => setShowPathFinder(!showPathFinder)}
+                        style={{
+                            background: showPathFinder ? 'rgba(255, 217, 61, 0.2)' : 'rgba(255,255,255,0.1)',
+                            border: showPathFinder
+                                ? '1px solid rgba(255, 217, 61, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                        title="Find paths between two nodes (or shift-click two nodes)"
+                    >
+                        Find Path
+                    </button>
+                    <ProfileSwitcher
+                        profiles={profiles.names}
+                        activeProfile={profile}
+                        onSelectProfile={onSelectProfile}
+                        onCreateProfile={onCreateProfile}
+                        onDeleteProfile={onDeleteProfile}
+                    />
+                    {!activeNode && (
+                        <LayoutSelector
+                            layout={overviewLayout}
+                            onLayoutChange={setOverviewLayout}
+                            nodes={nodes}
+                            radialRoot={effectiveRadialRoot}
+                            onRadialRootChange={setRadialRoot}
+                        />
+                    )}
                     <button
                         onClick={handleRandomize}
                         style={{
@@ -1192,6 +2521,42 @@ const CyberneticTopoMap: React.FC = () => {
                     >
                         Randomize
                     </button>
+                    <button
+                        onClick={() => setShowSeeds(!showSeeds)}
+                        title="Enter a seed to reproduce a layout, or flip between saved layouts"
+                        style={{
+                            background: showSeeds ? 'rgba(78, 205, 196, 0.2)' : 'rgba(255,255,255,0.1)',
+                            border: showSeeds
+                                ? '1px solid rgba(78, 205, 196, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        🎲 {layoutSeed ? <span style={{ fontFamily: 'monospace' }}>{layoutSeed}</span> : 'Seeds'}
+                    </button>
+                    {!activeNode && pinnedCount > 0 && (
+                        <button
+                            onClick={handleUnpinAll}
+                            title="Release every pinned node back to the force layout"
+                            style={{
+                                background: 'rgba(255,255,255,0.1)',
+                                border: '1px solid rgba(255,255,255,0.2)',
+                                color: '#ffffff',
+                                borderRadius: 8,
+                                padding: '10px 16px',
+                                cursor: 'pointer',
+                                fontSize: 13,
+                                fontWeight: 500,
+                            }}
+                        >
+                            📌 Unpin ({pinnedCount})
+                        </button>
+                    )}
                     <button
                         onClick={toggleCyberneticMode}
                         style={{
@@ -1212,11 +2577,226 @@ const CyberneticTopoMap: React.FC = () => {
                     >
                         {cyberneticMode ? 'Cybernetic: ON' : 'Cybernetic: OFF'}
                     </button>
+                    {cyberneticMode && (
+                        <button
+                            onClick={() => setShowOrdering(!showOrdering)}
+                            title="Choose how feedback reorders the path"
+                            style={{
+                                background: showOrdering ? 'rgba(170, 150, 218, 0.2)' : 'rgba(255,255,255,0.1)',
+                                border: showOrdering
+                                    ? '1px solid rgba(170, 150, 218, 0.6)'
+                                    : '1px solid rgba(255,255,255,0.2)',
+                                color: '#ffffff',
+                                borderRadius: 8,
+                                padding: '10px 16px',
+                                cursor: 'pointer',
+                                fontSize: 13,
+                                fontWeight: 500,
+                            }}
+                        >
+                            ⚙ {ORDERING_STRATEGIES[orderingSettings.strategy].label}
+                        </button>
+                    )}
+                    <button
+                        onClick={onOpenNetwork}
+                        style={{
+                            background: 'rgba(255,255,255,0.1)',
+                            border: '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        Load Network
+                    </button>
+                    <button
+                        onClick={toggleEditMode}
+                        style={{
+                            background: editMode
+                                ? 'rgba(78, 205, 196, 0.25)'
+                                : 'rgba(255,255,255,0.1)',
+                            border: editMode
+                                ? '1px solid rgba(78, 205, 196, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        {editMode ? 'Editing' : 'Edit Network'}
+                    </button>
+                    <button
+                        onClick={toggleSimulationView}
+                        style={{
+                            background: simulationView
+                                ? 'rgba(255, 140, 66, 0.25)'
+                                : 'rgba(255,255,255,0.1)',
+                            border: simulationView
+                                ? '1px solid rgba(255, 140, 66, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        {simulationView ? 'Simulation: ON' : 'Simulate'}
+                    </button>
+                    <button
+                        onClick={() => setShowLoops(!showLoops)}
+                        style={{
+                            background: showLoops
+                                ? 'rgba(252, 186, 211, 0.25)'
+                                : 'rgba(255,255,255,0.1)',
+                            border: showLoops
+                                ? '1px solid rgba(252, 186, 211, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        Loops ({feedbackLoops.loops.length}{feedbackLoops.truncated ? '+' : ''})
+                    </button>
+                    <button
+                        onClick={handleExportSession}
+                        style={{
+                            background: 'rgba(255,255,255,0.1)',
+                            border: '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        Export Session
+                    </button>
+                    <ExportMenu options={exportOptions} />
+                    <button
+                        onClick={() => sessionInputRef.current?.click()}
+                        style={{
+                            background: 'rgba(255,255,255,0.1)',
+                            border: '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        Import Session
+                    </button>
+                    <button
+                        onClick={() => (participants.length > 0 ? setShowAggregate(!showAggregate) : workshopInputRef.current?.click())}
+                        title="Merge several participants' session files"
+                        style={{
+                            background: showAggregate ? 'rgba(170, 150, 218, 0.2)' : 'rgba(255,255,255,0.1)',
+                            border: showAggregate
+                                ? '1px solid rgba(170, 150, 218, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                    >
+                        👥 Workshop{participants.length > 0 ? ` (${participants.length})` : ''}
+                    </button>
+                    <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        style={{
+                            background: showHistory ? 'rgba(0, 212, 255, 0.2)' : 'rgba(255,255,255,0.1)',
+                            border: showHistory
+                                ? '1px solid rgba(0, 212, 255, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                        title="Undo (Ctrl+Z) and redo (Ctrl+Shift+Z) work with the panel closed too"
+                    >
+                        History
+                    </button>
+                    <button
+                        onClick={() => setShowMetrics(!showMetrics)}
+                        style={{
+                            background: showMetrics ? 'rgba(170, 150, 218, 0.2)' : 'rgba(255,255,255,0.1)',
+                            border: showMetrics
+                                ? '1px solid rgba(170, 150, 218, 0.6)'
+                                : '1px solid rgba(255,255,255,0.2)',
+                            color: '#ffffff',
+                            borderRadius: 8,
+                            padding: '10px 16px',
+                            cursor: 'pointer',
+                            fontSize: 13,
+                            fontWeight: 500,
+                        }}
+                        title="Centrality, influence and reach for every node"
+                    >
+                        Metrics
+                    </button>
                 </div>
             )}
             
+            {/* Network Editor */}
+            {editMode && !activeNode && (
+                <NetworkEditorPanel
+                    nodes={nodes}
+                    links={links}
+                    selectedNodeId={editSelection}
+                    error={editError}
+                    onAddNode={handleAddNode}
+                    onRenameNode={handleRenameNode}
+                    onDeleteNode={handleDeleteNode}
+                    onRemoveLink={(source, target) => applyNetworkEdit(
+                        removeLink(network, source, target),
+                        `Remove link ${getNodeLabel(source)} → ${getNodeLabel(target)}`
+                    )}
+                    onUpdateLink={(source, target, patch) => {
+                        const result = updateLink(network, source, target, patch);
+                        if (result.ok) applyNetworkEdit(result.network, `Edit link ${getNodeLabel(source)} → ${getNodeLabel(target)}`);
+                        else setEditError(result.error);
+                    }}
+                    onDeselect={() => setEditSelection(null)}
+                    onSave={handleExportNetwork}
+                    onDone={toggleEditMode}
+                />
+            )}
+            
+            {/* Path Finder Panel */}
+            {showPathFinder && !activeNode && !editMode && (
+                <PathFinderPanel
+                    nodes={nodes}
+                    links={links}
+                    query={pathQuery}
+                    result={pathResult}
+                    onQueryChange={patch => setPathQuery(prev => ({ ...prev, ...patch }))}
+                    getNodeColor={getNodeColor}
+                    onClose={() => setShowPathFinder(false)}
+                />
+            )}
+            
             {/* Overview Description */}
-            {!activeNode && (
+            {!activeNode && !editMode && !showPathFinder && (
                 <div
                     style={{
                         position: 'absolute',
@@ -1247,9 +2827,19 @@ const CyberneticTopoMap: React.FC = () => {
                         )}
                     </div>
                     <div style={{ marginTop: 12, color: '#888888', fontSize: 11 }}>
-                        Click any node to explore • Scroll to zoom
+                        Click any node to explore • Drag to pin it in place, right-click to unpin • Ctrl+K to search • Scroll to zoom • Drop a network .json to load it
                         {cyberneticMode && ' • Your feedback reshapes the hierarchy'}
                     </div>
+                    {layoutProgress.running && (
+                        <div style={{ marginTop: 6, color: '#4ECDC4', fontSize: 11 }}>
+                            Settling layout… iteration {layoutProgress.iteration}
+                        </div>
+                    )}
+                    {alternativeLayout.running && (
+                        <div style={{ marginTop: 6, color: '#4ECDC4', fontSize: 11 }}>
+                            Arranging {OVERVIEW_LAYOUT_LABELS[overviewLayout].toLowerCase()} layout…
+                        </div>
+                    )}
                 </div>
             )}
             
@@ -1258,6 +2848,199 @@ const CyberneticTopoMap: React.FC = () => {
                 <ExplorationStatsPanel explorationData={explorationData} nodes={nodes} />
             )}
             
+            {/* Explore Next Recommendations */}
+            {recommendationsVisible && (
+                <RecommendationsPanel
+                    recommendations={recommendations}
+                    nodes={nodes}
+                    getNodeColor={getNodeColor}
+                    onSelectNode={handlePaletteSelectNode}
+                    onClose={() => setShowRecommendations(false)}
+                    right={290}
+                />
+            )}
+            
+            <input
+                ref={sessionInputRef}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportSession(file);
+                    e.target.value = '';
+                }}
+            />
+            
+            {sessionImportStatus && (
+                <NetworkLoadStatus
+                    subject="Session"
+                    source={sessionImportStatus.source}
+                    errors={sessionImportStatus.errors}
+                    warnings={sessionImportStatus.warnings}
+                    hasNetwork={false}
+                    onDismiss={() => setSessionImportStatus(null)}
+                    onOpenFile={() => sessionInputRef.current?.click()}
+                />
+            )}
+            
+            <input
+                ref={workshopInputRef}
+                type="file"
+                accept=".json,application/json"
+                multiple
+                style={{ display: 'none' }}
+                onChange={e => {
+                    const files = [...(e.target.files ?? [])];
+                    if (files.length > 0) handleAddParticipants(files);
+                    e.target.value = '';
+                }}
+            />
+            
+            {workshopLoadStatus && (
+                <NetworkLoadStatus
+                    subject="Session files"
+                    source={workshopLoadStatus.source}
+                    errors={workshopLoadStatus.errors}
+                    warnings={workshopLoadStatus.warnings}
+                    hasNetwork={false}
+                    onDismiss={() => setWorkshopLoadStatus(null)}
+                    onOpenFile={() => workshopInputRef.current?.click()}
+                />
+            )}
+            
+            {/* Workshop Aggregate Panel (stays open in the path view for comparisons) */}
+            {showAggregate && (
+                <AggregatePanel
+                    participants={participants}
+                    excluded={excludedParticipants}
+                    onToggleParticipant={handleToggleParticipant}
+                    onRemoveParticipant={handleRemoveParticipant}
+                    onAddFiles={() => workshopInputRef.current?.click()}
+                    aggregates={aggregates}
+                    heatmap={heatmapMode}
+                    onHeatmapChange={setHeatmapMode}
+                    nodes={nodes}
+                    onSelectNode={handlePaletteSelectNode}
+                    compare={compareParticipants}
+                    onCompareChange={setCompareParticipants}
+                    comparison={comparison}
+                    activeNode={activeNode}
+                    onClose={() => setShowAggregate(false)}
+                    top={activeNode ? 20 : 80}
+                    right={20}
+                />
+            )}
+            
+            {networkExportStatus && (
+                <NetworkLoadStatus
+                    verb="exported"
+                    source={networkExportStatus.source}
+                    errors={[]}
+                    warnings={networkExportStatus.warnings}
+                    hasNetwork
+                    onDismiss={() => setNetworkExportStatus(null)}
+                    onOpenFile={onOpenNetwork}
+                />
+            )}
+            
+            {exportFailure && (
+                <NetworkLoadStatus
+                    subject={exportFailure.label}
+                    verb="exported"
+                    source={exportFailure.source}
+                    errors={[exportFailure.error]}
+                    warnings={[]}
+                    hasNetwork={false}
+                    onDismiss={() => setExportFailure(null)}
+                />
+            )}
+            
+            {/* Feedback Loops Panel (stays open in the path view so a loop can be traced there) */}
+            {showLoops && (
+                <FeedbackLoopsPanel
+                    loops={feedbackLoops.loops}
+                    truncated={feedbackLoops.truncated}
+                    nodes={nodes}
+                    selectedLoopKey={selectedLoopKey}
+                    onSelectLoop={setSelectedLoopKey}
+                    top={activeNode ? 20 : 80}
+                />
+            )}
+            
+            {/* Network Metrics Panel */}
+            {showMetrics && (
+                <NetworkMetricsPanel
+                    nodes={nodes}
+                    metrics={networkMetrics}
+                    scaleMetric={scaleMetric}
+                    onScaleMetricChange={setScaleMetric}
+                    emphasis={metricEmphasis}
+                    onEmphasisChange={setMetricEmphasis}
+                    getNodeColor={getNodeColor}
+                    onSelectNode={handlePaletteSelectNode}
+                    top={activeNode ? 20 : 80}
+                    right={20 + (showLoops ? 310 : 0) + (showHistory ? 280 : 0)}
+                />
+            )}
+            
+            {/* Undo / Redo History Panel */}
+            {showHistory && (
+                <HistoryPanel
+                    entries={history.entries}
+                    index={history.index}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onJump={restoreHistoryEntry}
+                    top={activeNode ? 20 : 80}
+                    right={showLoops ? 330 : 20}
+                />
+            )}
+            
+            {/* Layout Seed Gallery */}
+            {showSeeds && !activeNode && (
+                <SeedGallery
+                    currentSeed={layoutSeed}
+                    entries={seedGallery}
+                    onApplySeed={seed => applyLayoutSeed(seed, `Layout seed ${seed}`)}
+                    onSaveCurrent={handleSaveSeed}
+                    onApplyEntry={handleApplySavedSeed}
+                    onDeleteEntry={handleDeleteSavedSeed}
+                    onClose={() => setShowSeeds(false)}
+                    top={80}
+                    right={20}
+                />
+            )}
+            
+            {/* Adaptive Ordering Settings */}
+            {showOrdering && cyberneticMode && (
+                <OrderingSettingsPanel
+                    settings={orderingSettings}
+                    onChange={handleOrderingChange}
+                    onClose={() => setShowOrdering(false)}
+                    top={activeNode ? 20 : 80}
+                    right={20}
+                />
+            )}
+            
+            {/* Feedback Simulation Panel */}
+            {simulationView && !activeNode && !editMode && (
+                <SimulationPanel simulation={simulation} nodes={nodes} />
+            )}
+            
+            {/* Category Legend */}
+            {!editMode && (
+                <CategoryLegend
+                    categories={categories}
+                    hiddenCategories={hiddenCategories}
+                    onToggleCategory={toggleCategory}
+                    onShowAll={() => setHiddenCategories(new Set())}
+                    left={activeNode || showPathFinder ? 360 : simulationView ? 320 : 20}
+                />
+            )}
+            
             {/* Feedback Panel */}
             {showFeedback && feedbackNodeId && (
                 <FeedbackPanel
@@ -1277,21 +3060,224 @@ const CyberneticTopoMap: React.FC = () => {
                 getNodeColor={getNodeColor}
                 onClose={handleClose}
                 cyberneticMode={cyberneticMode}
+                direction={direction}
+                onDirectionChange={handleDirectionChange}
             />
             
-            <Canvas shadows camera={{ position: [0, 16, 0.1], fov: 45 }}>
+            {/* Command Palette */}
+            {showPalette && (
+                <CommandPalette
+                    nodes={nodes}
+                    commands={paletteCommands}
+                    getNodeColor={getNodeColor}
+                    onSelectNode={handlePaletteSelectNode}
+                    onClose={() => setShowPalette(false)}
+                />
+            )}
+            
+            {/* Export (the control bar holds it in the overview) */}
+            {activeNode && (
+                <div style={{ position: 'absolute', bottom: 20, right: 20, zIndex: 2, display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <PulseControls
+                        enabled={pulsesEnabled}
+                        speed={pulseSpeed}
+                        timing={pulseTiming}
+                        onToggle={() => setPulsesEnabled(!pulsesEnabled)}
+                        onSpeedChange={setPulseSpeed}
+                        onTimingChange={setPulseTiming}
+                        onReplay={() => setPulseRun(run => run + 1)}
+                    />
+                    <ExportMenu options={exportOptions} openUpward />
+                </div>
+            )}
+            
+            <Canvas
+                shadows
+                camera={{ position: [0, 16, 0.1], fov: 45 }}
+                onCreated={state => {
+                    canvasStore.current = state.get;
+                }}
+            >
                 <CyberneticTopoScene
+                    nodes={nodes}
+                    links={links}
                     activeNode={activeNode}
                     hierarchicalLayers={hierarchicalLayers}
-                    onNodeClick={handleNodeClick}
+                    onNodeClick={(id, shiftKey) => {
+                        setFocusNode(null);
+                        if (shiftKey && !activeNode && !editMode) handlePathPick(id);
+                        else handleNodeClick(id);
+                    }}
                     cyberneticMode={cyberneticMode}
-                    layout2D={layout2D}
+                    layout2D={overviewPositions}
                     explorationData={explorationData}
                     previousLayers={previousLayers}
+                    editSelection={editMode ? editSelection : null}
+                    simulationStates={simulationView ? simulation.states : null}
+                    simulationSaturation={simulation.params.saturation}
+                    heatColors={heatColors}
+                    highlightedLoop={showLoops ? selectedLoop : null}
+                    nodeColors={nodeColors}
+                    hiddenNodes={hiddenNodes}
+                    focusNode={focusNode}
+                    highlightedPath={highlightedPath}
+                    nodeEmphasis={nodeEmphasis}
+                    emphasisStyle={metricEmphasis}
+                    onNodeDrag={overviewLayout === 'force' ? handleNodeDrag : undefined}
+                    onNodeTogglePin={overviewLayout === 'force' ? handleTogglePin : undefined}
+                    cameraPose={cameraPose}
+                    onCameraChange={pose => setCameraView({ pose, view: viewKey })}
+                    pulseTiming={pulsesEnabled ? pulseTiming : null}
+                    pulseSpeed={pulseSpeed}
+                    pulseRun={pulseRun}
+                    direction={direction}
                 />
             </Canvas>
         </div>
     );
 };
 
-export default CyberneticTopoMap;
\ No newline at end of file
+// ==== Network Loader (runtime loading, file picker, drag-and-drop) ====
+const CyberneticDesignNetwork: React.FC = () => {
+    const [network, setNetwork] = useState<NetworkData | null>(null);
+    const [networkSource, setNetworkSource] = useState('');
+    const [networkKey, setNetworkKey] = useState(0);
+    const [profiles, setProfiles] = useState<ProfileRegistry>(loadProfiles);
+    const [loadStatus, setLoadStatus] = useState<NetworkLoadResult | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    
+    const applyLoadResult = useCallback((result: NetworkLoadResult) => {
+        if (result.ok) {
+            setNetwork(result.network);
+            setNetworkSource(result.source);
+            // Remount the map so exploration state from the previous network is dropped
+            setNetworkKey(key => key + 1);
+        }
+        setLoadStatus(result.ok && result.warnings.length === 0 ? null : result);
+    }, []);
+    
+    // Initial load: ?network= if given, otherwise the bundled public/data.json
+    useEffect(() => {
+        let cancelled = false;
+        const url = getNetworkUrlFromQuery() ?? DEFAULT_NETWORK_URL;
+        loadNetworkFromUrl(url).then(result => {
+            if (!cancelled) applyLoadResult(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [applyLoadResult]);
+    
+    const loadFile = (file: File) => {
+        loadNetworkFromFile(file).then(applyLoadResult);
+    };
+    
+    const openFilePicker = () => {
+        fileInputRef.current?.click();
+    };
+    
+    const updateProfiles = (next: ProfileRegistry) => {
+        setProfiles(next);
+        saveProfiles(next);
+    };
+    
+    const handleDeleteProfile = (name: string) => {
+        const names = profiles.names.filter(n => n !== name);
+        if (names.length === 0) return;
+        clearProfileSessions(name);
+        updateProfiles({ active: profiles.active === name ? names[0] : profiles.active, names });
+    };
+    
+    return (
+        <div
+            style={{ width: '100vw', height: '100vh', position: 'relative', background: '#050509' }}
+            onDragOver={e => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDragging(true);
+            }}
+            onDragLeave={e => {
+                if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+                setIsDragging(false);
+            }}
+            onDrop={e => {
+                e.preventDefault();
+                setIsDragging(false);
+                const file = e.dataTransfer.files[0];
+                if (file) loadFile(file);
+            }}
+        >
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={NETWORK_FILE_ACCEPT}
+                style={{ display: 'none' }}
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) loadFile(file);
+                    // Allow re-selecting the same file after fixing it on disk
+                    e.target.value = '';
+                }}
+            />
+            
+            {network ? (
+                <CyberneticTopoMap
+                    // Remounts on profile switch so the other profile's saved state is restored
+                    key={`${networkKey}:${profiles.active}`}
+                    initialNetwork={network}
+                    networkSource={networkSource}
+                    onOpenNetwork={openFilePicker}
+                    profiles={profiles}
+                    onSelectProfile={name => updateProfiles({ ...profiles, active: name })}
+                    onCreateProfile={name => updateProfiles({ active: name, names: [...profiles.names, name] })}
+                    onDeleteProfile={handleDeleteProfile}
+                />
+            ) : !loadStatus && (
+                <div style={{
+                    position: 'absolute',
+                    top: '50%',
+                    left: '50%',
+                    transform: 'translate(-50%, -50%)',
+                    color: '#888888',
+                    fontSize: 13
+                }}>
+                    Loading network…
+                </div>
+            )}
+            
+            {loadStatus && (
+                <NetworkLoadStatus
+                    source={loadStatus.source}
+                    errors={loadStatus.ok ? [] : loadStatus.errors}
+                    warnings={loadStatus.warnings}
+                    hasNetwork={network !== null}
+                    onDismiss={() => setLoadStatus(null)}
+                    onOpenFile={openFilePicker}
+                />
+            )}
+            
+            {isDragging && (
+                <div style={{
+                    position: 'absolute',
+                    inset: 12,
+                    border: '2px dashed rgba(78, 205, 196, 0.7)',
+                    borderRadius: 16,
+                    background: 'rgba(78, 205, 196, 0.08)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: '#4ECDC4',
+                    fontSize: 16,
+                    fontWeight: 600,
+                    pointerEvents: 'none',
+                    zIndex: 10,
+                }}>
+                    Drop a network file to load it
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CyberneticDesignNetwork;
\ No newline at end of file
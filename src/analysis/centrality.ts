@@ -0,0 +1,225 @@
+import type { RawLink, RawNode } from '../network/types';
+import { getLinkStrength } from '../network/links';
+
+// ==== Structural metrics ====
+// Per-node measures for spotting leverage points. Distances count links and
+// ignore strength; PageRank and Katz weight each link by its strength.
+
+export interface NodeMetrics {
+    inDegree: number;
+    outDegree: number;
+    // Share of shortest paths between other nodes that pass through this one
+    betweenness: number;
+    // Harmonic closeness over outgoing paths: how quickly this node reaches the rest
+    closeness: number;
+    // How much influence flows into the node (sums to 1 over the network)
+    pageRank: number;
+    // Attenuated count of walks starting at the node, scaled so the largest is 1
+    katz: number;
+    // Nodes reachable downstream
+    reach: number;
+}
+
+export type MetricKey = keyof NodeMetrics;
+
+export const METRIC_LABELS: Record<MetricKey, { short: string; long: string }> = {
+    inDegree: { short: 'In', long: 'In-degree' },
+    outDegree: { short: 'Out', long: 'Out-degree' },
+    betweenness: { short: 'Betw.', long: 'Betweenness' },
+    closeness: { short: 'Close.', long: 'Closeness' },
+    pageRank: { short: 'PR', long: 'PageRank' },
+    katz: { short: 'Katz', long: 'Katz influence' },
+    reach: { short: 'Reach', long: 'Downstream reach' },
+};
+
+const PAGE_RANK_DAMPING = 0.85;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-9;
+
+interface Graph {
+    ids: string[];
+    out: number[][];
+    // Link strength parallel to out
+    weights: number[][];
+}
+
+function buildGraph(nodes: RawNode[], links: RawLink[]): Graph {
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+    const out: number[][] = nodes.map(() => []);
+    const weights: number[][] = nodes.map(() => []);
+
+    links.forEach(link => {
+        const s = index.get(link.source);
+        const t = index.get(link.target);
+        if (s === undefined || t === undefined) return;
+        out[s].push(t);
+        weights[s].push(getLinkStrength(link));
+    });
+
+    return { ids: nodes.map(n => n.id), out, weights };
+}
+
+interface PathMetrics {
+    betweenness: number[];
+    closeness: number[];
+    reach: number[];
+}
+
+// Brandes' algorithm for unweighted directed graphs, normalised to 0..1. The
+// same BFS from each node gives its closeness and reach.
+function shortestPathMetrics(graph: Graph): PathMetrics {
+    const n = graph.ids.length;
+    const scores = new Array(n).fill(0);
+    const closeness = new Array(n).fill(0);
+    const reach = new Array(n).fill(0);
+
+    // Reused across sources; only the entries a BFS touched are reset
+    const sigma = new Float64Array(n);
+    const dist = new Int32Array(n).fill(-1);
+    const delta = new Float64Array(n);
+    const order = new Int32Array(n);
+
+    for (let s = 0; s < n; s++) {
+        sigma[s] = 1;
+        dist[s] = 0;
+        order[0] = s;
+        let visited = 1;
+        let harmonic = 0;
+
+        for (let head = 0; head < visited; head++) {
+            const v = order[head];
+            if (v !== s) harmonic += 1 / dist[v];
+            graph.out[v].forEach(w => {
+                if (dist[w] < 0) {
+                    dist[w] = dist[v] + 1;
+                    order[visited++] = w;
+                }
+                if (dist[w] === dist[v] + 1) sigma[w] += sigma[v];
+            });
+        }
+
+        // Back to front, so each node's successors on shortest paths are done first
+        for (let i = visited - 1; i >= 0; i--) {
+            const v = order[i];
+            graph.out[v].forEach(w => {
+                if (dist[w] === dist[v] + 1) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+            });
+            if (v !== s) scores[v] += delta[v];
+        }
+
+        closeness[s] = n > 1 ? harmonic / (n - 1) : 0;
+        reach[s] = visited - 1;
+        for (let i = 0; i < visited; i++) {
+            const v = order[i];
+            sigma[v] = 0;
+            dist[v] = -1;
+            delta[v] = 0;
+        }
+    }
+
+    const pairs = (n - 1) * (n - 2);
+    return {
+        betweenness: pairs > 0 ? scores.map(score => score / pairs) : scores,
+        closeness,
+        reach,
+    };
+}
+
+function pageRank(graph: Graph): number[] {
+    const n = graph.ids.length;
+    const outWeight = graph.weights.map(ws => ws.reduce((sum, w) => sum + w, 0));
+    let rank = new Array(n).fill(1 / n);
+
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+        // Nodes without outgoing links spread their rank evenly
+        const dangling = rank.reduce((sum, r, v) => (outWeight[v] === 0 ? sum + r : sum), 0);
+        const next = new Array(n).fill((1 - PAGE_RANK_DAMPING) / n + (PAGE_RANK_DAMPING * dangling) / n);
+
+        graph.out.forEach((targets, v) => {
+            targets.forEach((w, i) => {
+                next[w] += PAGE_RANK_DAMPING * rank[v] * (graph.weights[v][i] / outWeight[v]);
+            });
+        });
+
+        const change = next.reduce((sum, r, v) => sum + Math.abs(r - rank[v]), 0);
+        rank = next;
+        if (change < TOLERANCE) break;
+    }
+
+    return rank;
+}
+
+// x = alpha * A x + 1, with alpha kept below 1 / spectral radius so the series converges
+function katz(graph: Graph): number[] {
+    const n = graph.ids.length;
+    const multiply = (x: number[]) => graph.out.map((targets, v) =>
+        targets.reduce((sum, w, i) => sum + graph.weights[v][i] * x[w], 0)
+    );
+
+    // Power iteration for the spectral radius (0 for acyclic networks)
+    let vector = new Array(n).fill(1);
+    let radius = 0;
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+        const next = multiply(vector);
+        const norm = Math.max(...next, 0);
+        if (norm === 0) {
+            radius = 0;
+            break;
+        }
+        const nextVector = next.map(value => value / norm);
+        const settled = nextVector.every((value, v) => Math.abs(value - vector[v]) < 1e-6);
+        vector = nextVector;
+        radius = norm;
+        if (settled) break;
+    }
+
+    const alpha = radius > 0 ? 0.85 / radius : 0.5;
+    let x = new Array(n).fill(1);
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+        const next = multiply(x).map(value => alpha * value + 1);
+        const change = next.reduce((sum, value, v) => sum + Math.abs(value - x[v]), 0);
+        x = next;
+        if (change < TOLERANCE) break;
+    }
+
+    const max = Math.max(...x, 0);
+    return max > 0 ? x.map(value => value / max) : x;
+}
+
+export function computeNetworkMetrics(nodes: RawNode[], links: RawLink[]): Map<string, NodeMetrics> {
+    const graph = buildGraph(nodes, links);
+    const n = graph.ids.length;
+    const inDegree = new Array(n).fill(0);
+    graph.out.forEach(targets => targets.forEach(w => inDegree[w]++));
+
+    const paths = shortestPathMetrics(graph);
+    const pageRankScores = pageRank(graph);
+    const katzScores = katz(graph);
+
+    const metrics = new Map<string, NodeMetrics>();
+    graph.ids.forEach((id, v) => {
+        metrics.set(id, {
+            inDegree: inDegree[v],
+            outDegree: graph.out[v].length,
+            betweenness: paths.betweenness[v],
+            closeness: paths.closeness[v],
+            pageRank: pageRankScores[v],
+            katz: katzScores[v],
+            reach: paths.reach[v],
+        });
+    });
+
+    return metrics;
+}
+
+// Metric values scaled to 0..1 by the network maximum, for sizing markers
+export function normalizeMetric(metrics: Map<string, NodeMetrics>, key: MetricKey): Map<string, number> {
+    const max = Math.max(0, ...[...metrics.values()].map(m => m[key]));
+    return new Map([...metrics].map(([id, m]) => [id, max > 0 ? m[key] / max : 0]));
+}
+
+// ==== Worker protocol ====
+export interface NetworkMetricsRequest {
+    nodes: RawNode[];
+    links: RawLink[];
+}
@@ -0,0 +1,188 @@
+import type { RawLink, RawNode } from '../network/types';
+import { getLinkSign } from '../network/links';
+
+// ==== Feedback loop detection ====
+// Enumerates every elementary cycle with Johnson's algorithm and classifies
+// each one by the product of its link polarities: an even number of '-' links
+// makes a reinforcing loop, an odd number a balancing one.
+
+export type LoopPolarity = 'reinforcing' | 'balancing';
+
+export interface FeedbackLoop {
+    // Member ids joined with '>', starting at the member listed first in the network
+    key: string;
+    nodes: string[];
+    links: RawLink[];
+    polarity: LoopPolarity;
+    // False when some links have no explicit polarity and were assumed positive
+    fullyAnnotated: boolean;
+}
+
+export interface FeedbackLoopResult {
+    loops: FeedbackLoop[];
+    // Enumeration stopped at maxLoops; dense networks can have exponentially many cycles
+    truncated: boolean;
+}
+
+export const DEFAULT_MAX_LOOPS = 500;
+
+export const LOOP_COLORS: Record<LoopPolarity, string> = {
+    reinforcing: '#FCBAD3',
+    balancing: '#95E1D3',
+};
+
+export function getLoopLinkKeys(loop: FeedbackLoop): Set<string> {
+    return new Set(loop.links.map(l => `${l.source}->${l.target}`));
+}
+
+// Nodes >= minIndex that can both reach and be reached from start
+function componentOf(start: number, minIndex: number, adjacency: number[][], reverse: number[][]): Set<number> {
+    const walk = (graph: number[][]) => {
+        const seen = new Set<number>([start]);
+        const queue = [start];
+        while (queue.length > 0) {
+            const v = queue.pop()!;
+            graph[v].forEach(w => {
+                if (w >= minIndex && !seen.has(w)) {
+                    seen.add(w);
+                    queue.push(w);
+                }
+            });
+        }
+        return seen;
+    };
+
+    const forward = walk(adjacency);
+    const backward = walk(reverse);
+    return new Set([...forward].filter(v => backward.has(v)));
+}
+
+export function findFeedbackLoops(
+    nodes: RawNode[],
+    links: RawLink[],
+    maxLoops: number = DEFAULT_MAX_LOOPS
+): FeedbackLoopResult {
+    const index = new Map<string, number>();
+    nodes.forEach((node, i) => index.set(node.id, i));
+
+    const adjacency: number[][] = nodes.map(() => []);
+    const reverse: number[][] = nodes.map(() => []);
+    const linkByPair = new Map<string, RawLink>();
+
+    links.forEach(link => {
+        const s = index.get(link.source);
+        const t = index.get(link.target);
+        if (s === undefined || t === undefined) return;
+        adjacency[s].push(t);
+        reverse[t].push(s);
+        linkByPair.set(`${s}>${t}`, link);
+    });
+
+    const cycles: number[][] = [];
+    let truncated = false;
+
+    for (let start = 0; start < nodes.length && !truncated; start++) {
+        const component = componentOf(start, start, adjacency, reverse);
+        if (component.size < 2 && !adjacency[start].includes(start)) continue;
+
+        const blocked = new Set<number>();
+        const blockMap = new Map<number, Set<number>>();
+        const stack: number[] = [];
+
+        const unblock = (v: number) => {
+            blocked.delete(v);
+            const waiting = blockMap.get(v);
+            if (!waiting) return;
+            blockMap.delete(v);
+            waiting.forEach(w => {
+                if (blocked.has(w)) unblock(w);
+            });
+        };
+
+        const circuit = (v: number): boolean => {
+            let found = false;
+            stack.push(v);
+            blocked.add(v);
+
+            for (const w of adjacency[v]) {
+                if (!component.has(w)) continue;
+                if (w === start) {
+                    cycles.push([...stack]);
+                    found = true;
+                    if (cycles.length >= maxLoops) {
+                        truncated = true;
+                        break;
+                    }
+                } else if (!blocked.has(w) && circuit(w)) {
+                    found = true;
+                }
+                if (truncated) break;
+            }
+
+            if (found) {
+                unblock(v);
+            } else {
+                adjacency[v].forEach(w => {
+                    if (!component.has(w)) return;
+                    if (!blockMap.has(w)) blockMap.set(w, new Set());
+                    blockMap.get(w)!.add(v);
+                });
+            }
+
+            stack.pop();
+            return found;
+        };
+
+        circuit(start);
+    }
+
+    const loops = cycles.map(cycle => {
+        const loopLinks = cycle.map((v, i) => linkByPair.get(`${v}>${cycle[(i + 1) % cycle.length]}`)!);
+        const sign = loopLinks.reduce((product, link) => product * getLinkSign(link), 1);
+        const memberIds = cycle.map(v => nodes[v].id);
+
+        return {
+            key: memberIds.join('>'),
+            nodes: memberIds,
+            links: loopLinks,
+            polarity: (sign > 0 ? 'reinforcing' : 'balancing') as LoopPolarity,
+            fullyAnnotated: loopLinks.every(link => link.polarity !== undefined),
+        };
+    });
+
+    loops.sort((a, b) => a.nodes.length - b.nodes.length || a.key.localeCompare(b.key));
+
+    return { loops, truncated };
+}
+
+// Keys of the links that lie on some cycle, i.e. whose target can reach their
+// source again. Cheaper than enumerating loops when only membership matters.
+export function getCycleLinkKeys(links: RawLink[]): Set<string> {
+    const adjacency = new Map<string, string[]>();
+    links.forEach(link => {
+        if (!adjacency.has(link.source)) adjacency.set(link.source, []);
+        adjacency.get(link.source)!.push(link.target);
+    });
+
+    const reachable = new Map<string, Set<string>>();
+    const reachableFrom = (start: string) => {
+        let seen = reachable.get(start);
+        if (seen) return seen;
+        seen = new Set<string>();
+        const queue = [start];
+        while (queue.length > 0) {
+            (adjacency.get(queue.pop()!) ?? []).forEach(next => {
+                if (!seen!.has(next)) {
+                    seen!.add(next);
+                    queue.push(next);
+                }
+            });
+        }
+        reachable.set(start, seen);
+        return seen;
+    };
+
+    return new Set(links
+        .filter(link => link.source === link.target || reachableFrom(link.target).has(link.source))
+        .map(link => `${link.source}->${link.target}`));
+}
@@ -0,0 +1,8 @@
+import { computeNetworkMetrics, type NetworkMetricsRequest } from './centrality';
+
+// ==== Metrics worker ====
+// Computes the structural metrics for one network and posts them back.
+
+self.addEventListener('message', (event: MessageEvent<NetworkMetricsRequest>) => {
+    self.postMessage(computeNetworkMetrics(event.data.nodes, event.data.links));
+});
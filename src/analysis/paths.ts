@@ -0,0 +1,198 @@
+import type { RawLink } from '../network/types';
+
+// ==== Path finding between two nodes ====
+// Paths follow link direction and are measured in steps (links), so "shortest"
+// means fewest hand-offs between design factors, not strongest influence.
+
+export type PathSearchMode = 'shortest' | 'kShortest' | 'allSimple';
+
+export interface PathSearchResult {
+    // Node ids from start to end, shortest first
+    paths: string[][];
+    // All-simple-paths enumeration stopped at the path cap
+    truncated: boolean;
+}
+
+export const DEFAULT_K_PATHS = 3;
+export const DEFAULT_MAX_PATH_LENGTH = 6;
+export const MAX_SIMPLE_PATHS = 200;
+
+export const PATH_COLOR = '#FFD93D';
+
+// What the path finder is currently asked for
+export interface PathQuery {
+    from: string | null;
+    to: string | null;
+    mode: PathSearchMode;
+    k: number;
+    maxLength: number;
+    // Index of the highlighted path in the result list
+    selected: number;
+}
+
+export const EMPTY_PATH_QUERY: PathQuery = {
+    from: null,
+    to: null,
+    mode: 'shortest',
+    k: DEFAULT_K_PATHS,
+    maxLength: DEFAULT_MAX_PATH_LENGTH,
+    selected: 0,
+};
+
+type Adjacency = Map<string, string[]>;
+
+function buildAdjacency(links: RawLink[]): Adjacency {
+    const adjacency: Adjacency = new Map();
+    links.forEach(link => {
+        if (!adjacency.has(link.source)) adjacency.set(link.source, []);
+        adjacency.get(link.source)!.push(link.target);
+    });
+    return adjacency;
+}
+
+function edgeKey(source: string, target: string): string {
+    return `${source}->${target}`;
+}
+
+export function getPathLinkKeys(path: string[]): Set<string> {
+    return new Set(path.slice(1).map((id, idx) => edgeKey(path[idx], id)));
+}
+
+// BFS avoiding the given nodes and links; null when end is unreachable
+function bfsPath(
+    adjacency: Adjacency,
+    start: string,
+    end: string,
+    blockedNodes: Set<string> = new Set(),
+    blockedEdges: Set<string> = new Set()
+): string[] | null {
+    if (start === end) return [start];
+
+    const parent = new Map<string, string>();
+    const seen = new Set<string>([start]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of adjacency.get(current) ?? []) {
+            if (seen.has(next) || blockedNodes.has(next) || blockedEdges.has(edgeKey(current, next))) continue;
+            seen.add(next);
+            parent.set(next, current);
+            if (next === end) {
+                const path = [end];
+                while (path[0] !== start) path.unshift(parent.get(path[0])!);
+                return path;
+            }
+            queue.push(next);
+        }
+    }
+
+    return null;
+}
+
+export function findShortestPath(links: RawLink[], start: string, end: string): string[] | null {
+    return bfsPath(buildAdjacency(links), start, end);
+}
+
+// Yen's algorithm: each next path deviates from an earlier one at some "spur" node
+export function findKShortestPaths(links: RawLink[], start: string, end: string, k: number = DEFAULT_K_PATHS): string[][] {
+    const adjacency = buildAdjacency(links);
+    const first = bfsPath(adjacency, start, end);
+    if (!first) return [];
+
+    const found: string[][] = [first];
+    const candidates: string[][] = [];
+    const known = new Set([first.join('>')]);
+
+    while (found.length < k) {
+        const previous = found[found.length - 1];
+
+        for (let i = 0; i < previous.length - 1; i++) {
+            const spur = previous[i];
+            const root = previous.slice(0, i + 1);
+            const rootKey = root.join('>');
+
+            // Block the next step of every found path sharing this root, and the root itself
+            const blockedEdges = new Set<string>();
+            found.forEach(path => {
+                if (path.length > i + 1 && path.slice(0, i + 1).join('>') === rootKey) {
+                    blockedEdges.add(edgeKey(path[i], path[i + 1]));
+                }
+            });
+            const blockedNodes = new Set(root.slice(0, -1));
+
+            const spurPath = bfsPath(adjacency, spur, end, blockedNodes, blockedEdges);
+            if (!spurPath) continue;
+
+            const candidate = [...root.slice(0, -1), ...spurPath];
+            const key = candidate.join('>');
+            if (!known.has(key)) {
+                known.add(key);
+                candidates.push(candidate);
+            }
+        }
+
+        if (candidates.length === 0) break;
+        candidates.sort((a, b) => a.length - b.length || a.join('>').localeCompare(b.join('>')));
+        found.push(candidates.shift()!);
+    }
+
+    return found;
+}
+
+// Depth-first enumeration of paths with at most maxLength links
+export function findAllSimplePaths(
+    links: RawLink[],
+    start: string,
+    end: string,
+    maxLength: number = DEFAULT_MAX_PATH_LENGTH,
+    maxPaths: number = MAX_SIMPLE_PATHS
+): PathSearchResult {
+    const adjacency = buildAdjacency(links);
+    const paths: string[][] = [];
+    const stack = [start];
+    const onStack = new Set([start]);
+    let truncated = false;
+
+    const walk = (current: string) => {
+        if (truncated) return;
+        if (current === end) {
+            if (paths.length >= maxPaths) {
+                truncated = true;
+                return;
+            }
+            paths.push([...stack]);
+            return;
+        }
+        if (stack.length > maxLength) return;
+
+        for (const next of adjacency.get(current) ?? []) {
+            if (onStack.has(next)) continue;
+            stack.push(next);
+            onStack.add(next);
+            walk(next);
+            stack.pop();
+            onStack.delete(next);
+            if (truncated) return;
+        }
+    };
+
+    if (start !== end) walk(start);
+    paths.sort((a, b) => a.length - b.length);
+
+    return { paths, truncated };
+}
+
+export function findPaths(
+    links: RawLink[],
+    start: string,
+    end: string,
+    mode: PathSearchMode,
+    options: { k?: number; maxLength?: number } = {}
+): PathSearchResult {
+    if (mode === 'allSimple') return findAllSimplePaths(links, start, end, options.maxLength);
+    if (mode === 'kShortest') return { paths: findKShortestPaths(links, start, end, options.k), truncated: false };
+
+    const path = findShortestPath(links, start, end);
+    return { paths: path ? [path] : [], truncated: false };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { RawLink, RawNode } from '../network/types';
+import { computeNetworkMetrics, type NetworkMetricsRequest, type NodeMetrics } from './centrality';
+
+// ==== Background structural metrics ====
+// The all-pairs shortest paths behind the metrics take seconds on networks of
+// thousands of nodes, so they're computed in a worker and only while
+// something shows them. Null until the metrics for the current network are in.
+
+interface NetworkMetricsResult extends NetworkMetricsRequest {
+    metrics: Map<string, NodeMetrics>;
+}
+
+export function useNetworkMetrics(nodes: RawNode[], links: RawLink[], enabled: boolean): Map<string, NodeMetrics> | null {
+    const [result, setResult] = useState<NetworkMetricsResult | null>(null);
+    const current = result?.nodes === nodes && result.links === links;
+
+    useEffect(() => {
+        if (!enabled || current) return;
+
+        const runHere = () => setResult({ nodes, links, metrics: computeNetworkMetrics(nodes, links) });
+
+        if (typeof Worker === 'undefined') {
+            runHere();
+            return;
+        }
+
+        const worker = new Worker(new URL('./metrics.worker.ts', import.meta.url), { type: 'module' });
+        // As for the layouts, a worker that can't load or crashes falls back to the main thread
+        const fallBack = () => {
+            worker.terminate();
+            runHere();
+        };
+        worker.addEventListener('error', fallBack);
+        worker.addEventListener('messageerror', fallBack);
+        worker.addEventListener('message', (event: MessageEvent<Map<string, NodeMetrics>>) => {
+            setResult({ nodes, links, metrics: event.data });
+            worker.terminate();
+        });
+        const request: NetworkMetricsRequest = { nodes, links };
+        worker.postMessage(request);
+
+        return () => worker.terminate();
+    }, [nodes, links, enabled, current]);
+
+    return current ? result.metrics : null;
+}
@@ -0,0 +1,303 @@
+import React from 'react';
+import type { RawNode } from '../network/types';
+import type { NodeLayer } from '../exploration/types';
+import {
+    getHeatColor,
+    HEATMAP_LABELS,
+    type HeatmapMode,
+    type NodeAggregate,
+    type Participant
+} from '../session/aggregate';
+
+// ==== Workshop aggregate (many participants' session files) ====
+interface AggregatePanelProps {
+    participants: Participant[];
+    // Ids of participants left out of the aggregate
+    excluded: Set<string>;
+    onToggleParticipant: (id: string) => void;
+    onRemoveParticipant: (id: string) => void;
+    onAddFiles: () => void;
+    aggregates: Map<string, NodeAggregate>;
+    heatmap: HeatmapMode | null;
+    onHeatmapChange: (mode: HeatmapMode | null) => void;
+    nodes: RawNode[];
+    onSelectNode: (id: string) => void;
+    // Ids of the two participants whose hierarchies are compared
+    compare: [string | null, string | null];
+    onCompareChange: (compare: [string | null, string | null]) => void;
+    // Hierarchies for the open node, one per compared participant
+    comparison: [NodeLayer[], NodeLayer[]] | null;
+    activeNode: string | null;
+    onClose: () => void;
+    top: number;
+    right: number;
+}
+
+const MAX_DISAGREEMENTS = 8;
+
+const controlStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '3px 8px',
+    fontSize: 11,
+    cursor: 'pointer',
+};
+
+const sectionStyle: React.CSSProperties = {
+    marginTop: 12,
+    paddingTop: 10,
+    borderTop: '1px solid rgba(255,255,255,0.1)',
+};
+
+const headingStyle: React.CSSProperties = {
+    fontSize: 11,
+    color: '#888888',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+};
+
+function formatScore(value: number): string {
+    return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+const AggregatePanel: React.FC<AggregatePanelProps> = ({
+                                                           participants,
+                                                           excluded,
+                                                           onToggleParticipant,
+                                                           onRemoveParticipant,
+                                                           onAddFiles,
+                                                           aggregates,
+                                                           heatmap,
+                                                           onHeatmapChange,
+                                                           nodes,
+                                                           onSelectNode,
+                                                           compare,
+                                                           onCompareChange,
+                                                           comparison,
+                                                           activeNode,
+                                                           onClose,
+                                                           top,
+                                                           right
+                                                       }) => {
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+    const included = participants.length - participants.filter(p => excluded.has(p.id)).length;
+
+    const disagreements = [...aggregates]
+        .filter(([, aggregate]) => aggregate.raters > 1 && aggregate.variance > 0)
+        .sort((a, b) => b[1].variance - a[1].variance)
+        .slice(0, MAX_DISAGREEMENTS);
+
+    // Level of each node in the other participant's hierarchy, to flag differences
+    const levelMaps = comparison?.map(layers => new Map(layers.flatMap(layer => layer.nodes.map(id => [id, layer.level]))));
+
+    const participantSelect = (side: 0 | 1) => (
+        <select
+            value={compare[side] ?? ''}
+            onChange={e => {
+                const next: [string | null, string | null] = [...compare];
+                next[side] = e.target.value || null;
+                onCompareChange(next);
+            }}
+            style={{ ...controlStyle, width: '100%' }}
+        >
+            <option value="" style={{ background: '#111118' }}>Choose…</option>
+            {participants.map(p => (
+                <option key={p.id} value={p.id} style={{ background: '#111118' }}>{p.name}</option>
+            ))}
+        </select>
+    );
+
+    const hierarchyColumn = (side: 0 | 1) => {
+        const layers = comparison![side];
+        const other = levelMaps![1 - side];
+        return (
+            <div style={{ flex: 1, minWidth: 0 }}>
+                {layers.map(layer => (
+                    <div key={layer.level} style={{ display: 'flex', gap: 4, alignItems: 'start', marginBottom: 4 }}>
+                        <span style={{ fontSize: 10, color: '#888888', width: 22, flexShrink: 0, paddingTop: 3 }}>
+                            {layer.level}
+                        </span>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                            {layer.nodes.map(id => {
+                                const moved = other.get(id) !== layer.level;
+                                return (
+                                    <span
+                                        key={id}
+                                        title={moved
+                                            ? `Level ${other.get(id) ?? 'none'} for the other participant`
+                                            : 'Same level for both participants'}
+                                        style={{
+                                            fontSize: 10,
+                                            padding: '2px 6px',
+                                            borderRadius: 4,
+                                            background: moved ? 'rgba(255, 170, 0, 0.15)' : 'rgba(255,255,255,0.06)',
+                                            border: moved ? '1px solid #ffaa00' : '1px solid rgba(255,255,255,0.12)',
+                                        }}
+                                    >
+                                        {getNodeLabel(id)}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right,
+                width: 340,
+                maxHeight: 'calc(100vh - 120px)',
+                overflow: 'auto',
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: '1px solid rgba(170, 150, 218, 0.4)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 3,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>Workshop aggregate</div>
+                <button onClick={onClose} style={{ ...controlStyle, padding: '2px 8px', fontSize: 12 }} title="Close">✕</button>
+            </div>
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <div style={{ fontSize: 12, color: '#b8b8c8' }}>
+                    {participants.length === 0
+                        ? 'Load participants’ exported session files to merge them.'
+                        : `${included} of ${participants.length} participants included`}
+                </div>
+                <button onClick={onAddFiles} style={controlStyle}>+ Session files…</button>
+            </div>
+
+            {participants.length > 0 && (
+                <div style={{ marginTop: 8 }}>
+                    {participants.map(p => (
+                        <div key={p.id} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, padding: '2px 0' }}>
+                            <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer', minWidth: 0 }} title={p.fileName}>
+                                <input type="checkbox" checked={!excluded.has(p.id)} onChange={() => onToggleParticipant(p.id)} />
+                                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{p.name}</span>
+                            </label>
+                            <button
+                                onClick={() => onRemoveParticipant(p.id)}
+                                style={{ ...controlStyle, padding: '0 6px', background: 'none', border: 'none', color: '#888888' }}
+                                title="Remove from the workshop"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {participants.length > 0 && (
+                <div style={sectionStyle}>
+                    <div style={headingStyle}>Colour nodes by</div>
+                    <div style={{ display: 'flex', gap: 6 }}>
+                        {([null, 'mean', 'variance'] as (HeatmapMode | null)[]).map(mode => (
+                            <button
+                                key={mode ?? 'off'}
+                                onClick={() => onHeatmapChange(mode)}
+                                style={{
+                                    ...controlStyle,
+                                    ...(heatmap === mode ? { background: 'rgba(170, 150, 218, 0.3)', border: '1px solid rgba(170, 150, 218, 0.7)' } : {}),
+                                }}
+                            >
+                                {mode ? HEATMAP_LABELS[mode] : 'Category'}
+                            </button>
+                        ))}
+                    </div>
+                    {heatmap && (
+                        <div style={{ fontSize: 10, color: '#888888', marginTop: 6 }}>
+                            {heatmap === 'mean'
+                                ? 'Red: found familiar · grey: mixed or neutral · teal: insightful.'
+                                : 'Blue: participants agree · red: they disagree.'}
+                            {' '}Dark grey nodes have no feedback.
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {disagreements.length > 0 && (
+                <div style={sectionStyle}>
+                    <div style={headingStyle}>Most disagreement</div>
+                    {disagreements.map(([id, aggregate]) => (
+                        <button
+                            key={id}
+                            onClick={() => onSelectNode(id)}
+                            style={{
+                                display: 'flex',
+                                width: '100%',
+                                alignItems: 'center',
+                                gap: 8,
+                                background: 'none',
+                                border: 'none',
+                                color: '#ffffff',
+                                padding: '3px 0',
+                                cursor: 'pointer',
+                                fontSize: 12,
+                                textAlign: 'left',
+                            }}
+                        >
+                            <span
+                                style={{
+                                    width: 10,
+                                    height: 10,
+                                    borderRadius: '50%',
+                                    flexShrink: 0,
+                                    background: getHeatColor(aggregate, 'variance'),
+                                }}
+                            />
+                            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                {getNodeLabel(id)}
+                            </span>
+                            <span style={{ fontSize: 11, color: '#b8b8c8' }} title="Mean score (−2 to +2)">
+                                {formatScore(aggregate.mean)}
+                            </span>
+                            <span style={{ fontSize: 11, color: '#888888', width: 56, textAlign: 'right' }} title={`Variance of ${aggregate.raters} participants' scores`}>
+                                σ² {aggregate.variance.toFixed(2)}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {participants.length > 1 && (
+                <div style={sectionStyle}>
+                    <div style={headingStyle}>
+                        Compare hierarchies{activeNode ? ` from ${getNodeLabel(activeNode)}` : ''}
+                    </div>
+                    <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                        {participantSelect(0)}
+                        {participantSelect(1)}
+                    </div>
+                    {!activeNode && (
+                        <div style={{ fontSize: 11, color: '#888888' }}>Open a node to compare the paths the two participants would see from it.</div>
+                    )}
+                    {comparison && (
+                        <>
+                            <div style={{ display: 'flex', gap: 8 }}>
+                                {hierarchyColumn(0)}
+                                {hierarchyColumn(1)}
+                            </div>
+                            <div style={{ fontSize: 10, color: '#888888', marginTop: 4 }}>
+                                Orange nodes sit at a different level for the other participant.
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AggregatePanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import type { NodeCategory } from '../network/categories';
+
+// ==== Category Legend (click a category to hide or show its nodes) ====
+interface CategoryLegendProps {
+    categories: NodeCategory[];
+    hiddenCategories: Set<string>;
+    onToggleCategory: (id: string) => void;
+    onShowAll: () => void;
+    left: number;
+}
+
+const CategoryLegend: React.FC<CategoryLegendProps> = ({
+                                                           categories,
+                                                           hiddenCategories,
+                                                           onToggleCategory,
+                                                           onShowAll,
+                                                           left
+                                                       }) => {
+    const anyHidden = categories.some(category => hiddenCategories.has(category.id));
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                bottom: 20,
+                left,
+                background: 'rgba(10,10,15,0.9)',
+                borderRadius: 12,
+                border: '1px solid rgba(255,255,255,0.08)',
+                padding: '12px 14px',
+                color: '#ffffff',
+                zIndex: 2,
+                minWidth: 180,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div style={{ fontSize: 11, color: '#888888', textTransform: 'uppercase', letterSpacing: 1 }}>
+                    Categories
+                </div>
+                {anyHidden && (
+                    <button
+                        onClick={onShowAll}
+                        style={{
+                            background: 'transparent',
+                            border: 'none',
+                            color: '#00d4ff',
+                            cursor: 'pointer',
+                            fontSize: 11,
+                            padding: 0,
+                        }}
+                    >
+                        Show all
+                    </button>
+                )}
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                {categories.map(category => {
+                    const hidden = hiddenCategories.has(category.id);
+
+                    return (
+                        <div
+                            key={category.id}
+                            onClick={() => onToggleCategory(category.id)}
+                            title={hidden ? 'Show these nodes' : 'Hide these nodes'}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: 8,
+                                padding: '3px 4px',
+                                borderRadius: 6,
+                                cursor: 'pointer',
+                                fontSize: 12,
+                                opacity: hidden ? 0.4 : 1,
+                                textDecoration: hidden ? 'line-through' : 'none',
+                            }}
+                        >
+                            <span
+                                style={{
+                                    width: 10,
+                                    height: 10,
+                                    borderRadius: '50%',
+                                    background: hidden ? 'transparent' : category.color,
+                                    border: `1px solid ${category.color}`,
+                                    boxShadow: hidden ? 'none' : `0 0 6px ${category.color}88`,
+                                    flexShrink: 0,
+                                }}
+                            />
+                            <span style={{ flex: 1, color: '#cccccc' }}>
+                                {category.icon && <span style={{ marginRight: 4 }}>{category.icon}</span>}
+                                {category.label}
+                            </span>
+                            <span style={{ fontSize: 10, color: '#666666' }}>{category.size}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default CategoryLegend;
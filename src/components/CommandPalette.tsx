@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { RawNode } from '../network/types';
+import { fuzzyMatch } from '../search/fuzzyMatch';
+
+// ==== Command Palette (Ctrl+K) ====
+export interface PaletteCommand {
+    id: string;
+    label: string;
+    hint?: string;
+    run: () => void;
+}
+
+interface CommandPaletteProps {
+    nodes: RawNode[];
+    commands: PaletteCommand[];
+    getNodeColor: (id: string) => string;
+    onSelectNode: (id: string) => void;
+    onClose: () => void;
+}
+
+type PaletteResult =
+    | { kind: 'node'; node: RawNode; score: number; indices: number[] }
+    | { kind: 'command'; command: PaletteCommand; score: number; indices: number[] };
+
+const MAX_RESULTS = 40;
+
+// Label with the fuzzy-matched characters emphasised
+const HighlightedText: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+    const matched = new Set(indices);
+    return (
+        <>
+            {text.split('').map((ch, idx) => (
+                matched.has(idx)
+                    ? <span key={idx} style={{ color: '#00d4ff', fontWeight: 600 }}>{ch}</span>
+                    : <React.Fragment key={idx}>{ch}</React.Fragment>
+            ))}
+        </>
+    );
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+                                                           nodes,
+                                                           commands,
+                                                           getNodeColor,
+                                                           onSelectNode,
+                                                           onClose
+                                                       }) => {
+    const [query, setQuery] = useState('');
+    const [selectedIdx, setSelectedIdx] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const results = useMemo(() => {
+        const found: PaletteResult[] = [];
+
+        nodes.forEach(node => {
+            // Ids are searchable too, but only highlighted when the label itself matched
+            const byLabel = fuzzyMatch(query, node.label);
+            const byId = fuzzyMatch(query, node.id);
+            if (byLabel && (!byId || byLabel.score >= byId.score)) {
+                found.push({ kind: 'node', node, score: byLabel.score, indices: byLabel.indices });
+            } else if (byId) {
+                found.push({ kind: 'node', node, score: byId.score, indices: [] });
+            }
+        });
+        commands.forEach(command => {
+            const match = fuzzyMatch(query, command.label);
+            if (match) found.push({ kind: 'command', command, score: match.score, indices: match.indices });
+        });
+
+        // With no query, list actions first and nodes in network order
+        if (query.trim() === '') {
+            return [...found.filter(r => r.kind === 'command'), ...found.filter(r => r.kind === 'node')].slice(0, MAX_RESULTS);
+        }
+        return found.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+    }, [nodes, commands, query]);
+
+    useEffect(() => {
+        listRef.current?.children[selectedIdx]?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIdx]);
+
+    const choose = (result: PaletteResult | undefined) => {
+        if (!result) return;
+        onClose();
+        if (result.kind === 'node') onSelectNode(result.node.id);
+        else result.command.run();
+    };
+
+    return (
+        <div
+            onClick={onClose}
+            style={{
+                position: 'absolute',
+                inset: 0,
+                background: 'rgba(0,0,0,0.45)',
+                zIndex: 10,
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'flex-start',
+                paddingTop: '12vh',
+            }}
+        >
+            <div
+                onClick={e => e.stopPropagation()}
+                style={{
+                    width: 520,
+                    maxWidth: 'calc(100vw - 40px)',
+                    background: 'rgba(10,10,15,0.97)',
+                    borderRadius: 12,
+                    border: '1px solid rgba(0,212,255,0.3)',
+                    boxShadow: '0 12px 40px rgba(0,0,0,0.6)',
+                    color: '#ffffff',
+                    overflow: 'hidden',
+                }}
+            >
+                <input
+                    autoFocus
+                    value={query}
+                    placeholder="Search nodes or actions…"
+                    onChange={e => {
+                        setQuery(e.target.value);
+                        setSelectedIdx(0);
+                    }}
+                    onKeyDown={e => {
+                        if (e.key === 'ArrowDown') {
+                            e.preventDefault();
+                            setSelectedIdx(idx => Math.min(idx + 1, results.length - 1));
+                        } else if (e.key === 'ArrowUp') {
+                            e.preventDefault();
+                            setSelectedIdx(idx => Math.max(idx - 1, 0));
+                        } else if (e.key === 'Enter') {
+                            e.preventDefault();
+                            choose(results[selectedIdx]);
+                        } else if (e.key === 'Escape') {
+                            e.preventDefault();
+                            onClose();
+                        }
+                    }}
+                    style={{
+                        width: '100%',
+                        boxSizing: 'border-box',
+                        background: 'transparent',
+                        border: 'none',
+                        borderBottom: '1px solid rgba(255,255,255,0.1)',
+                        color: '#ffffff',
+                        fontSize: 15,
+                        padding: '14px 16px',
+                        outline: 'none',
+                    }}
+                />
+
+                <div ref={listRef} style={{ maxHeight: '50vh', overflow: 'auto', padding: 6 }}>
+                    {results.length === 0 && (
+                        <div style={{ padding: '10px 12px', fontSize: 12, color: '#888888' }}>
+                            No nodes or actions match "{query}".
+                        </div>
+                    )}
+                    {results.map((result, idx) => {
+                        const selected = idx === selectedIdx;
+                        const key = result.kind === 'node' ? `node:${result.node.id}` : `cmd:${result.command.id}`;
+
+                        return (
+                            <div
+                                key={key}
+                                onClick={() => choose(result)}
+                                onMouseMove={() => setSelectedIdx(idx)}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: 10,
+                                    padding: '8px 12px',
+                                    borderRadius: 8,
+                                    cursor: 'pointer',
+                                    fontSize: 13,
+                                    background: selected ? 'rgba(0,212,255,0.12)' : 'transparent',
+                                }}
+                            >
+                                {result.kind === 'node' ? (
+                                    <>
+                                        <span
+                                            style={{
+                                                width: 8,
+                                                height: 8,
+                                                borderRadius: '50%',
+                                                background: getNodeColor(result.node.id),
+                                                flexShrink: 0,
+                                            }}
+                                        />
+                                        <span style={{ flex: 1 }}>
+                                            {result.node.icon && <span style={{ marginRight: 4 }}>{result.node.icon}</span>}
+                                            <HighlightedText text={result.node.label} indices={result.indices} />
+                                        </span>
+                                        <span style={{ fontSize: 11, color: '#666666' }}>{result.node.id}</span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span style={{ width: 8, color: '#888888', fontSize: 11 }}>›</span>
+                                        <span style={{ flex: 1 }}>
+                                            <HighlightedText text={result.command.label} indices={result.indices} />
+                                        </span>
+                                        {result.command.hint && (
+                                            <span style={{ fontSize: 11, color: '#666666' }}>{result.command.hint}</span>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div style={{ padding: '8px 14px', fontSize: 10, color: '#666666', borderTop: '1px solid rgba(255,255,255,0.06)' }}>
+                    ↑↓ to move • Enter to open • Esc to close
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
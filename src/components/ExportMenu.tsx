@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// ==== Export menu (images and 3D model of the current view) ====
+export interface ExportOption {
+    id: string;
+    label: string;
+    hint: string;
+    // Reports its own failures; the menu only waits for it to finish
+    run: () => Promise<void>;
+}
+
+interface ExportMenuProps {
+    options: ExportOption[];
+    // Open the list above the button when it sits at the bottom of the screen
+    openUpward?: boolean;
+}
+
+const itemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    background: 'none',
+    border: 'none',
+    color: '#ffffff',
+    textAlign: 'left',
+    padding: '7px 10px',
+    borderRadius: 6,
+    cursor: 'pointer',
+    fontSize: 12,
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, openUpward }) => {
+    const [open, setOpen] = useState(false);
+    const [busy, setBusy] = useState<string | null>(null);
+    const rootRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking anywhere else
+    useEffect(() => {
+        if (!open) return;
+        const onPointerDown = (e: PointerEvent) => {
+            if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+        };
+        window.addEventListener('pointerdown', onPointerDown);
+        return () => window.removeEventListener('pointerdown', onPointerDown);
+    }, [open]);
+
+    const runOption = async (option: ExportOption) => {
+        setBusy(option.id);
+        try {
+            await option.run();
+        } finally {
+            setBusy(null);
+            setOpen(false);
+        }
+    };
+
+    return (
+        <div ref={rootRef} style={{ position: 'relative' }}>
+            <button
+                onClick={() => setOpen(!open)}
+                style={{
+                    background: open ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.1)',
+                    border: '1px solid rgba(255,255,255,0.2)',
+                    color: '#ffffff',
+                    borderRadius: 8,
+                    padding: '10px 16px',
+                    cursor: 'pointer',
+                    fontSize: 13,
+                    fontWeight: 500,
+                }}
+                title="Export the current view as an image or 3D model"
+            >
+                Export ▾
+            </button>
+            {open && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        right: 0,
+                        ...(openUpward ? { bottom: '100%', marginBottom: 6 } : { top: '100%', marginTop: 6 }),
+                        minWidth: 220,
+                        background: 'rgba(10,10,15,0.95)',
+                        border: '1px solid rgba(255,255,255,0.15)',
+                        borderRadius: 10,
+                        padding: 4,
+                        zIndex: 5,
+                    }}
+                >
+                    {options.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => runOption(option)}
+                            disabled={busy !== null}
+                            style={{ ...itemStyle, opacity: busy && busy !== option.id ? 0.4 : 1 }}
+                        >
+                            <div>{busy === option.id ? `${option.label}…` : option.label}</div>
+                            <div style={{ fontSize: 10, color: '#888' }}>{option.hint}</div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import type { RawNode } from '../network/types';
+import { LOOP_COLORS, type FeedbackLoop, type LoopPolarity } from '../analysis/feedbackLoops';
+
+// ==== Feedback Loops Panel ====
+interface FeedbackLoopsPanelProps {
+    loops: FeedbackLoop[];
+    truncated: boolean;
+    nodes: RawNode[];
+    selectedLoopKey: string | null;
+    onSelectLoop: (key: string | null) => void;
+    top: number;
+}
+
+type LoopFilter = 'all' | LoopPolarity;
+
+const FeedbackLoopsPanel: React.FC<FeedbackLoopsPanelProps> = ({
+                                                                   loops,
+                                                                   truncated,
+                                                                   nodes,
+                                                                   selectedLoopKey,
+                                                                   onSelectLoop,
+                                                                   top
+                                                               }) => {
+    const [filter, setFilter] = useState<LoopFilter>('all');
+
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+    const visibleLoops = filter === 'all' ? loops : loops.filter(loop => loop.polarity === filter);
+    const reinforcingCount = loops.filter(loop => loop.polarity === 'reinforcing').length;
+
+    const filterButton = (value: LoopFilter, text: string) => (
+        <button
+            key={value}
+            onClick={() => setFilter(value)}
+            style={{
+                background: filter === value ? 'rgba(255,255,255,0.15)' : 'transparent',
+                border: '1px solid rgba(255,255,255,0.15)',
+                color: '#ffffff',
+                borderRadius: 6,
+                padding: '3px 8px',
+                cursor: 'pointer',
+                fontSize: 11,
+            }}
+        >
+            {text}
+        </button>
+    );
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right: 20,
+                width: 290,
+                maxHeight: '45vh',
+                overflow: 'auto',
+                background: 'rgba(10,10,15,0.92)',
+                borderRadius: 12,
+                border: '1px solid rgba(252, 186, 211, 0.3)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ fontSize: 13, fontWeight: 600, color: '#FCBAD3', marginBottom: 4 }}>
+                Feedback Loops
+            </div>
+            <div style={{ fontSize: 11, color: '#888888', marginBottom: 10 }}>
+                {loops.length}{truncated ? '+' : ''} loops • {reinforcingCount} reinforcing • {loops.length - reinforcingCount} balancing
+            </div>
+
+            <div style={{ display: 'flex', gap: 6, marginBottom: 10 }}>
+                {filterButton('all', 'All')}
+                {filterButton('reinforcing', 'R Reinforcing')}
+                {filterButton('balancing', 'B Balancing')}
+            </div>
+
+            {visibleLoops.length === 0 && (
+                <div style={{ fontSize: 12, color: '#888888' }}>
+                    {loops.length === 0 ? 'No loops in this network.' : 'No loops match this filter.'}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                {visibleLoops.map(loop => {
+                    const selected = loop.key === selectedLoopKey;
+                    const color = LOOP_COLORS[loop.polarity];
+
+                    return (
+                        <div
+                            key={loop.key}
+                            onClick={() => onSelectLoop(selected ? null : loop.key)}
+                            style={{
+                                padding: '8px 10px',
+                                borderRadius: 8,
+                                cursor: 'pointer',
+                                background: selected ? `${color}22` : 'rgba(255,255,255,0.03)',
+                                border: selected ? `1px solid ${color}` : '1px solid rgba(255,255,255,0.08)',
+                                boxShadow: selected ? `0 0 10px ${color}55` : 'none',
+                            }}
+                        >
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, marginBottom: 4 }}>
+                                <span style={{ color, fontWeight: 600 }}>
+                                    {loop.polarity === 'reinforcing' ? 'R' : 'B'} {loop.polarity}
+                                    {!loop.fullyAnnotated && (
+                                        <span
+                                            style={{ color: '#888888', fontWeight: 400 }}
+                                            title="Some links have no polarity and were assumed positive"
+                                        >
+                                            {' '}(assumed)
+                                        </span>
+                                    )}
+                                </span>
+                                <span style={{ color: '#888888' }}>length {loop.nodes.length}</span>
+                            </div>
+                            <div style={{ fontSize: 12, color: '#cccccc', lineHeight: 1.5 }}>
+                                {[...loop.nodes, loop.nodes[0]].map(getNodeLabel).join(' → ')}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {truncated && (
+                <div style={{ marginTop: 10, fontSize: 10, color: '#888888', fontStyle: 'italic' }}>
+                    Only the first {loops.length} loops are listed.
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FeedbackLoopsPanel;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import type { HistoryEntry } from '../history/useUndoHistory';
+
+// ==== Undo / Redo History Panel ====
+interface HistoryPanelProps {
+    entries: HistoryEntry<unknown>[];
+    index: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onJump: (index: number) => void;
+    top: number;
+    right: number;
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '5px 10px',
+    cursor: 'pointer',
+    fontSize: 12,
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+                                                       entries,
+                                                       index,
+                                                       canUndo,
+                                                       canRedo,
+                                                       onUndo,
+                                                       onRedo,
+                                                       onJump,
+                                                       top,
+                                                       right
+                                                   }) => {
+    const currentRef = useRef<HTMLDivElement>(null);
+
+    // Keep the current entry in view as new commands are recorded
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [index, entries.length]);
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right,
+                width: 260,
+                background: 'rgba(10,10,15,0.92)',
+                borderRadius: 12,
+                border: '1px solid rgba(255,255,255,0.15)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>History</div>
+                <div style={{ display: 'flex', gap: 6 }}>
+                    <button onClick={onUndo} disabled={!canUndo} style={{ ...buttonStyle, opacity: canUndo ? 1 : 0.4 }} title="Undo (Ctrl+Z)">
+                        ↶ Undo
+                    </button>
+                    <button onClick={onRedo} disabled={!canRedo} style={{ ...buttonStyle, opacity: canRedo ? 1 : 0.4 }} title="Redo (Ctrl+Shift+Z)">
+                        ↷ Redo
+                    </button>
+                </div>
+            </div>
+
+            <div style={{ maxHeight: '35vh', overflow: 'auto', display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {entries.map((entry, idx) => {
+                    const isCurrent = idx === index;
+                    const isUndone = idx > index;
+
+                    return (
+                        <div
+                            key={entry.id}
+                            ref={isCurrent ? currentRef : undefined}
+                            onClick={() => onJump(idx)}
+                            style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                padding: '5px 8px',
+                                borderRadius: 6,
+                                cursor: 'pointer',
+                                fontSize: 12,
+                                background: isCurrent ? 'rgba(0,212,255,0.15)' : 'transparent',
+                                border: isCurrent ? '1px solid rgba(0,212,255,0.5)' : '1px solid transparent',
+                                color: isUndone ? '#666666' : '#cccccc',
+                                fontStyle: isUndone ? 'italic' : 'normal',
+                            }}
+                        >
+                            <span>{entry.label}</span>
+                            <span style={{ fontSize: 10, color: '#666666', marginLeft: 8 }}>
+                                {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div style={{ marginTop: 8, fontSize: 10, color: '#666666' }}>
+                Ctrl+Z undo • Ctrl+Shift+Z redo • click an entry to jump back
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,118 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+
+// ==== Directed influence link (line + arrowhead) ====
+interface InfluenceLinkProps {
+    from: THREE.Vector3;
+    to: THREE.Vector3;
+    color: string;
+    lineWidth: number;
+    opacity: number;
+    // Distance to pull the arrowhead back from the target so it sits outside the node halo
+    targetRadius?: number;
+    // Sideways bow as a fraction of the link's length; 0 draws a straight line.
+    // Links in opposite directions bow to opposite sides.
+    curvature?: number;
+    dashed?: boolean;
+    pulse?: LinkPulse;
+}
+
+// A pulse travelling along the link, timed against a shared animation clock
+export interface LinkPulse {
+    // Animation time in seconds, advanced by the scene
+    clock: React.RefObject<number>;
+    start: number;
+    duration: number;
+    // Run from target to source (pulses spreading upstream)
+    reverse: boolean;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+const CURVE_SEGMENTS = 24;
+
+function getLinkPoints(from: THREE.Vector3, to: THREE.Vector3, curvature: number): THREE.Vector3[] {
+    if (curvature === 0) return [from, to];
+    const direction = to.clone().sub(from);
+    let side = direction.clone().cross(UP);
+    // Vertical links have no horizontal side; bow them along x instead
+    if (side.lengthSq() < 1e-6) side = new THREE.Vector3(1, 0, 0);
+    const control = from.clone().add(to).multiplyScalar(0.5)
+        .add(side.normalize().multiplyScalar(direction.length() * curvature));
+    return new THREE.QuadraticBezierCurve3(from, control, to).getPoints(CURVE_SEGMENTS);
+}
+
+const PulseDot: React.FC<{ points: THREE.Vector3[]; pulse: LinkPulse; color: string }> = ({ points, pulse, color }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+
+    useFrame(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const t = (pulse.clock.current - pulse.start) / pulse.duration;
+        mesh.visible = t >= 0 && t <= 1;
+        if (!mesh.visible) return;
+        const along = (pulse.reverse ? 1 - t : t) * (points.length - 1);
+        const idx = Math.min(points.length - 2, Math.floor(along));
+        mesh.position.lerpVectors(points[idx], points[idx + 1], along - idx);
+    });
+
+    return (
+        <mesh ref={meshRef} visible={false}>
+            <sphereGeometry args={[0.08, 12, 12]} />
+            <meshBasicMaterial color={color} toneMapped={false} />
+        </mesh>
+    );
+};
+
+const InfluenceLink: React.FC<InfluenceLinkProps> = ({
+                                                         from,
+                                                         to,
+                                                         color,
+                                                         lineWidth,
+                                                         opacity,
+                                                         targetRadius = 0.4,
+                                                         curvature = 0,
+                                                         dashed = false,
+                                                         pulse
+                                                     }) => {
+    const points = useMemo(() => getLinkPoints(from, to, curvature), [from, to, curvature]);
+
+    const arrow = useMemo(() => {
+        if (to.distanceTo(from) < targetRadius * 2) return null;
+        // Point along the last stretch of the line so curved links arrive head-on
+        const direction = to.clone().sub(points[points.length - 2]).normalize();
+
+        return {
+            position: to.clone().sub(direction.clone().multiplyScalar(targetRadius)),
+            quaternion: new THREE.Quaternion().setFromUnitVectors(UP, direction),
+        };
+    }, [from, to, points, targetRadius]);
+
+    // Arrowhead scales gently with line width so strong links read as heavier
+    const arrowScale = 0.7 + Math.min(lineWidth, 4) * 0.15;
+
+    return (
+        <>
+            <Line
+                points={points}
+                color={color}
+                lineWidth={lineWidth}
+                dashed={dashed}
+                dashSize={0.18}
+                gapSize={0.1}
+                transparent
+                opacity={opacity}
+            />
+            {arrow && (
+                <mesh position={arrow.position} quaternion={arrow.quaternion} scale={arrowScale}>
+                    <coneGeometry args={[0.07, 0.2, 12]} />
+                    <meshBasicMaterial color={color} transparent opacity={Math.min(1, opacity + 0.2)} />
+                </mesh>
+            )}
+            {pulse && <PulseDot points={points} pulse={pulse} color={color} />}
+        </>
+    );
+};
+
+export default InfluenceLink;
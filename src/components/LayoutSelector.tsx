@@ -0,0 +1,65 @@
+import React from 'react';
+import type { RawNode } from '../network/types';
+import { OVERVIEW_LAYOUT_LABELS, type OverviewLayoutKind } from '../layout/overviewLayouts';
+
+// ==== Overview layout selector (sits in the control bar) ====
+interface LayoutSelectorProps {
+    layout: OverviewLayoutKind;
+    onLayoutChange: (layout: OverviewLayoutKind) => void;
+    nodes: RawNode[];
+    // Only used by the radial layout
+    radialRoot: string | null;
+    onRadialRootChange: (id: string) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 8,
+    padding: '9px 10px',
+    cursor: 'pointer',
+    fontSize: 13,
+    fontWeight: 500,
+};
+
+const LayoutSelector: React.FC<LayoutSelectorProps> = ({
+                                                           layout,
+                                                           onLayoutChange,
+                                                           nodes,
+                                                           radialRoot,
+                                                           onRadialRootChange
+                                                       }) => {
+    return (
+        <>
+            <select
+                value={layout}
+                onChange={e => onLayoutChange(e.target.value as OverviewLayoutKind)}
+                title="Overview layout"
+                style={selectStyle}
+            >
+                {(Object.keys(OVERVIEW_LAYOUT_LABELS) as OverviewLayoutKind[]).map(kind => (
+                    <option key={kind} value={kind} style={{ background: '#111118' }}>
+                        {OVERVIEW_LAYOUT_LABELS[kind]}
+                    </option>
+                ))}
+            </select>
+            {layout === 'radial' && (
+                <select
+                    value={radialRoot ?? ''}
+                    onChange={e => onRadialRootChange(e.target.value)}
+                    title="Node at the centre of the radial layout"
+                    style={{ ...selectStyle, maxWidth: 160 }}
+                >
+                    {nodes.map(node => (
+                        <option key={node.id} value={node.id} style={{ background: '#111118' }}>
+                            ◎ {node.label}
+                        </option>
+                    ))}
+                </select>
+            )}
+        </>
+    );
+};
+
+export default LayoutSelector;
@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import type { RawLink, RawNode } from '../network/types';
+import type { LinkPatch } from '../network/editing';
+import { NETWORK_FORMATS, type NetworkFormat } from '../network/interchange';
+import { getLinkColor } from '../network/links';
+
+// ==== Network Editor Panel ====
+interface NetworkEditorPanelProps {
+    nodes: RawNode[];
+    links: RawLink[];
+    selectedNodeId: string | null;
+    error: string | null;
+    onAddNode: (id: string, label: string) => boolean;
+    onRenameNode: (id: string, label: string) => void;
+    onDeleteNode: (id: string) => void;
+    onRemoveLink: (source: string, target: string) => void;
+    onUpdateLink: (source: string, target: string, patch: LinkPatch) => void;
+    onDeselect: () => void;
+    onSave: (format: NetworkFormat) => void;
+    onDone: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    background: 'rgba(255,255,255,0.06)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    borderRadius: 6,
+    color: '#ffffff',
+    padding: '6px 8px',
+    fontSize: 12,
+};
+
+const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '6px 12px',
+    cursor: 'pointer',
+    fontSize: 12,
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+    fontSize: 11,
+    fontWeight: 600,
+    color: '#888888',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+};
+
+// Keyed by node id from the parent so the rename field resets on selection change
+const SelectedNodeEditor: React.FC<{
+    node: RawNode;
+    links: RawLink[];
+    getNodeLabel: (id: string) => string;
+    onRenameNode: (id: string, label: string) => void;
+    onDeleteNode: (id: string) => void;
+    onRemoveLink: (source: string, target: string) => void;
+    onUpdateLink: (source: string, target: string, patch: LinkPatch) => void;
+    onDeselect: () => void;
+}> = ({ node, links, getNodeLabel, onRenameNode, onDeleteNode, onRemoveLink, onUpdateLink, onDeselect }) => {
+    const [label, setLabel] = useState(node.label);
+    const outgoing = links.filter(l => l.source === node.id);
+    const incoming = links.filter(l => l.target === node.id);
+
+    const renderLink = (link: RawLink) => (
+        <div
+            key={`${link.source}->${link.target}`}
+            style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 12, color: '#cccccc' }}
+        >
+            <span style={{ flex: 1 }}>{getNodeLabel(link.source)} → {getNodeLabel(link.target)}</span>
+            <button
+                onClick={() => onUpdateLink(link.source, link.target, {
+                    // Cycle: unset → + → − → unset
+                    polarity: link.polarity === undefined ? '+' : link.polarity === '+' ? '-' : null
+                })}
+                style={{
+                    ...buttonStyle,
+                    padding: '2px 8px',
+                    fontSize: 11,
+                    marginRight: 4,
+                    color: getLinkColor(link, '#ffffff'),
+                }}
+                title="Polarity: amplifies (+) or counteracts (−) the target"
+            >
+                {link.polarity === '-' ? '−' : link.polarity ?? '±'}
+            </button>
+            <input
+                key={`${link.source}->${link.target}:${link.strength ?? ''}`}
+                type="number"
+                min={0.1}
+                step={0.1}
+                defaultValue={link.strength ?? ''}
+                placeholder="1"
+                title="Strength"
+                onBlur={e => {
+                    const value = e.target.value.trim();
+                    const strength = value === '' ? null : Number(value);
+                    if (strength !== (link.strength ?? null)) {
+                        onUpdateLink(link.source, link.target, { strength });
+                    }
+                }}
+                style={{ ...inputStyle, width: 52, padding: '2px 4px', marginRight: 4 }}
+            />
+            <button
+                onClick={() => onRemoveLink(link.source, link.target)}
+                style={{ ...buttonStyle, padding: '2px 8px', fontSize: 11 }}
+                title="Remove link"
+            >
+                ✕
+            </button>
+        </div>
+    );
+
+    return (
+        <div style={{ marginBottom: 16, paddingBottom: 16, borderBottom: '1px solid rgba(255,255,255,0.1)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', ...sectionTitleStyle }}>
+                <span>Selected: {node.id}</span>
+                <button onClick={onDeselect} style={{ ...buttonStyle, padding: '2px 8px', fontSize: 11 }}>
+                    Deselect
+                </button>
+            </div>
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    onRenameNode(node.id, label);
+                }}
+                style={{ display: 'flex', gap: 6, marginBottom: 10 }}
+            >
+                <input value={label} onChange={e => setLabel(e.target.value)} style={inputStyle} />
+                <button type="submit" style={buttonStyle}>Rename</button>
+            </form>
+            <div style={{ fontSize: 11, color: '#888888', marginBottom: 10 }}>
+                Click another node to draw a link from this one, or click an existing target to remove it.
+            </div>
+            {outgoing.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginBottom: 8 }}>
+                    <div style={{ fontSize: 11, color: '#888888' }}>Outgoing</div>
+                    {outgoing.map(renderLink)}
+                </div>
+            )}
+            {incoming.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginBottom: 8 }}>
+                    <div style={{ fontSize: 11, color: '#888888' }}>Incoming</div>
+                    {incoming.map(renderLink)}
+                </div>
+            )}
+            <button
+                onClick={() => onDeleteNode(node.id)}
+                style={{
+                    ...buttonStyle,
+                    background: 'rgba(243, 129, 129, 0.2)',
+                    border: '1px solid rgba(243, 129, 129, 0.5)',
+                    color: '#F38181',
+                    marginTop: 4,
+                }}
+            >
+                Delete node and its {outgoing.length + incoming.length} links
+            </button>
+        </div>
+    );
+};
+
+const NetworkEditorPanel: React.FC<NetworkEditorPanelProps> = ({
+                                                                   nodes,
+                                                                   links,
+                                                                   selectedNodeId,
+                                                                   error,
+                                                                   onAddNode,
+                                                                   onRenameNode,
+                                                                   onDeleteNode,
+                                                                   onRemoveLink,
+                                                                   onUpdateLink,
+                                                                   onDeselect,
+                                                                   onSave,
+                                                                   onDone
+                                                               }) => {
+    const [newId, setNewId] = useState('');
+    const [newLabel, setNewLabel] = useState('');
+
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+    const selectedNode = nodes.find(n => n.id === selectedNodeId);
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top: 20,
+                left: 20,
+                width: 320,
+                maxHeight: 'calc(100vh - 40px)',
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: '1px solid rgba(78, 205, 196, 0.3)',
+                padding: '20px',
+                color: '#ffffff',
+                overflow: 'auto',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: 16 }}>
+                <div>
+                    <div style={{ fontSize: 16, fontWeight: 600, marginBottom: 4 }}>Edit Network</div>
+                    <div style={{ fontSize: 12, color: '#aaaaaa' }}>
+                        {nodes.length} nodes • {links.length} links
+                    </div>
+                </div>
+                <button onClick={onDone} style={buttonStyle}>Done</button>
+            </div>
+
+            {error && (
+                <div style={{
+                    background: 'rgba(243, 129, 129, 0.1)',
+                    border: '1px solid rgba(243, 129, 129, 0.4)',
+                    borderRadius: 8,
+                    padding: '8px 10px',
+                    marginBottom: 12,
+                    fontSize: 12,
+                    color: '#F38181'
+                }}>
+                    {error}
+                </div>
+            )}
+
+            {selectedNode ? (
+                <SelectedNodeEditor
+                    key={selectedNode.id}
+                    node={selectedNode}
+                    links={links}
+                    getNodeLabel={getNodeLabel}
+                    onRenameNode={onRenameNode}
+                    onDeleteNode={onDeleteNode}
+                    onRemoveLink={onRemoveLink}
+                    onUpdateLink={onUpdateLink}
+                    onDeselect={onDeselect}
+                />
+            ) : (
+                <div style={{ fontSize: 12, color: '#888888', marginBottom: 16 }}>
+                    Click a node to rename or delete it, then click a second node to draw a link from the first.
+                </div>
+            )}
+
+            <div style={sectionTitleStyle}>Add node</div>
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    if (onAddNode(newId, newLabel)) {
+                        setNewId('');
+                        setNewLabel('');
+                    }
+                }}
+                style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 16 }}
+            >
+                <input placeholder="id (e.g. lighting)" value={newId} onChange={e => setNewId(e.target.value)} style={inputStyle} />
+                <input placeholder="Label" value={newLabel} onChange={e => setNewLabel(e.target.value)} style={inputStyle} />
+                <button type="submit" style={{ ...buttonStyle, alignSelf: 'flex-start' }}>Add node</button>
+            </form>
+
+            <button
+                onClick={() => onSave('json')}
+                style={{
+                    ...buttonStyle,
+                    background: 'rgba(78, 205, 196, 0.2)',
+                    border: '1px solid rgba(78, 205, 196, 0.5)',
+                    color: '#4ECDC4',
+                    width: '100%',
+                    padding: '8px 12px',
+                }}
+            >
+                Save network as JSON
+            </button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8, fontSize: 11, color: '#888' }}>
+                Or as
+                {(Object.keys(NETWORK_FORMATS) as NetworkFormat[]).filter(format => format !== 'json').map(format => (
+                    <button
+                        key={format}
+                        onClick={() => onSave(format)}
+                        style={{ ...buttonStyle, flex: 1, padding: '6px 4px' }}
+                        title={`Save network.${NETWORK_FORMATS[format].extension}`}
+                    >
+                        {NETWORK_FORMATS[format].label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default NetworkEditorPanel;
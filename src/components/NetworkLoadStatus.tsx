@@ -0,0 +1,112 @@
+import React from 'react';
+
+// ==== Load status (errors / warnings after loading a network or session file) ====
+// Also reports what an export to another format had to leave out, and exports
+// that failed.
+interface NetworkLoadStatusProps {
+    // What was being loaded, used in the heading
+    subject?: string;
+    // 'loaded' or 'exported'
+    verb?: string;
+    source: string;
+    errors: string[];
+    warnings: string[];
+    hasNetwork: boolean;
+    onDismiss: () => void;
+    // Offered after a failed load; left out where another file wouldn't help
+    onOpenFile?: () => void;
+}
+
+const NetworkLoadStatus: React.FC<NetworkLoadStatusProps> = ({
+                                                                 subject = 'Network',
+                                                                 verb = 'loaded',
+                                                                 source,
+                                                                 errors,
+                                                                 warnings,
+                                                                 hasNetwork,
+                                                                 onDismiss,
+                                                                 onOpenFile
+                                                             }) => {
+    if (errors.length === 0 && warnings.length === 0) return null;
+
+    const failed = errors.length > 0;
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top: 80,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                width: 480,
+                maxHeight: '60vh',
+                overflow: 'auto',
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: failed
+                    ? '1px solid rgba(243, 129, 129, 0.6)'
+                    : '1px solid rgba(255, 170, 0, 0.4)',
+                padding: '16px 20px',
+                color: '#ffffff',
+                zIndex: 5,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: 10 }}>
+                <div>
+                    <div style={{ fontSize: 14, fontWeight: 600, color: failed ? '#F38181' : '#ffaa00' }}>
+                        {failed ? `${subject} could not be ${verb}` : `${subject} ${verb} with warnings`}
+                    </div>
+                    <div style={{ fontSize: 11, color: '#888888', marginTop: 2 }}>{source}</div>
+                </div>
+                <button
+                    onClick={onDismiss}
+                    style={{
+                        background: 'rgba(255,255,255,0.1)',
+                        border: '1px solid rgba(255,255,255,0.2)',
+                        color: '#ffffff',
+                        borderRadius: 6,
+                        padding: '4px 10px',
+                        cursor: 'pointer',
+                        fontSize: 12,
+                    }}
+                >
+                    Dismiss
+                </button>
+            </div>
+
+            {errors.length > 0 && (
+                <ul style={{ fontSize: 12, color: '#F38181', lineHeight: 1.6, paddingLeft: 18 }}>
+                    {errors.map((error, idx) => <li key={idx}>{error}</li>)}
+                </ul>
+            )}
+
+            {warnings.length > 0 && (
+                <ul style={{ fontSize: 12, color: '#ffaa00', lineHeight: 1.6, paddingLeft: 18, marginTop: errors.length > 0 ? 8 : 0 }}>
+                    {warnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                </ul>
+            )}
+
+            {failed && onOpenFile && (
+                <div style={{ marginTop: 12, fontSize: 11, color: '#888888' }}>
+                    {hasNetwork && 'The previous network is still shown. '}
+                    <button
+                        onClick={onOpenFile}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: '#4ECDC4',
+                            cursor: 'pointer',
+                            fontSize: 11,
+                            padding: 0,
+                            textDecoration: 'underline',
+                        }}
+                    >
+                        Choose another file
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NetworkLoadStatus;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import type { RawNode } from '../network/types';
+import { METRIC_LABELS, type MetricKey, type NodeMetrics } from '../analysis/centrality';
+
+// ==== Network Metrics Panel (sortable centrality table) ====
+export type MetricEmphasis = 'size' | 'glow';
+
+interface NetworkMetricsPanelProps {
+    nodes: RawNode[];
+    // Null while the metrics are being computed
+    metrics: Map<string, NodeMetrics> | null;
+    scaleMetric: MetricKey | null;
+    onScaleMetricChange: (key: MetricKey | null) => void;
+    emphasis: MetricEmphasis;
+    onEmphasisChange: (emphasis: MetricEmphasis) => void;
+    getNodeColor: (id: string) => string;
+    onSelectNode: (id: string) => void;
+    top: number;
+    right: number;
+}
+
+const METRIC_KEYS = Object.keys(METRIC_LABELS) as MetricKey[];
+
+// Counts print as integers, scores with enough precision to rank them
+function formatMetric(key: MetricKey, value: number): string {
+    if (key === 'inDegree' || key === 'outDegree' || key === 'reach') return String(value);
+    return value.toFixed(3);
+}
+
+const fieldStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.06)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    borderRadius: 6,
+    color: '#ffffff',
+    fontSize: 11,
+    padding: '3px 6px',
+};
+
+const NetworkMetricsPanel: React.FC<NetworkMetricsPanelProps> = ({
+                                                                     nodes,
+                                                                     metrics,
+                                                                     scaleMetric,
+                                                                     onScaleMetricChange,
+                                                                     emphasis,
+                                                                     onEmphasisChange,
+                                                                     getNodeColor,
+                                                                     onSelectNode,
+                                                                     top,
+                                                                     right
+                                                                 }) => {
+    const [sortKey, setSortKey] = useState<MetricKey>('betweenness');
+    const [ascending, setAscending] = useState(false);
+
+    const rows = nodes
+        .filter(node => metrics?.has(node.id))
+        .map(node => ({ node, values: metrics!.get(node.id)! }))
+        .sort((a, b) => (ascending ? 1 : -1) * (a.values[sortKey] - b.values[sortKey]) || a.node.label.localeCompare(b.node.label));
+
+    const handleSort = (key: MetricKey) => {
+        if (key === sortKey) {
+            setAscending(!ascending);
+        } else {
+            setSortKey(key);
+            setAscending(false);
+        }
+    };
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right,
+                width: 470,
+                background: 'rgba(10,10,15,0.94)',
+                borderRadius: 12,
+                border: '1px solid rgba(170, 150, 218, 0.3)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ fontSize: 13, fontWeight: 600, color: '#AA96DA', marginBottom: 4 }}>
+                Network Metrics
+            </div>
+            <div style={{ fontSize: 11, color: '#888888', marginBottom: 10 }}>
+                {metrics ? 'Click a column to sort • click a row to open that node' : 'Computing metrics…'}
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 10, fontSize: 11, color: '#aaaaaa' }}>
+                Scale nodes by
+                <select
+                    value={scaleMetric ?? ''}
+                    onChange={e => onScaleMetricChange((e.target.value || null) as MetricKey | null)}
+                    style={fieldStyle}
+                >
+                    <option value="" style={{ background: '#111118' }}>Nothing</option>
+                    {METRIC_KEYS.map(key => (
+                        <option key={key} value={key} style={{ background: '#111118' }}>{METRIC_LABELS[key].long}</option>
+                    ))}
+                </select>
+                <select
+                    value={emphasis}
+                    onChange={e => onEmphasisChange(e.target.value as MetricEmphasis)}
+                    disabled={!scaleMetric}
+                    style={{ ...fieldStyle, opacity: scaleMetric ? 1 : 0.4 }}
+                >
+                    <option value="size" style={{ background: '#111118' }}>Size</option>
+                    <option value="glow" style={{ background: '#111118' }}>Glow</option>
+                </select>
+            </div>
+
+            <div style={{ maxHeight: '45vh', overflow: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+                    <thead>
+                        <tr>
+                            <th style={{ textAlign: 'left', padding: '4px 6px', color: '#888888', fontWeight: 500 }}>Node</th>
+                            {METRIC_KEYS.map(key => (
+                                <th
+                                    key={key}
+                                    onClick={() => handleSort(key)}
+                                    title={METRIC_LABELS[key].long}
+                                    style={{
+                                        textAlign: 'right',
+                                        padding: '4px 6px',
+                                        cursor: 'pointer',
+                                        whiteSpace: 'nowrap',
+                                        fontWeight: key === sortKey ? 600 : 500,
+                                        color: key === sortKey ? '#AA96DA' : '#888888',
+                                        position: 'sticky',
+                                        top: 0,
+                                        background: 'rgba(10,10,15,0.98)',
+                                    }}
+                                >
+                                    {METRIC_LABELS[key].short}
+                                    {key === sortKey && (ascending ? ' ▲' : ' ▼')}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ node, values }) => (
+                            <tr
+                                key={node.id}
+                                onClick={() => onSelectNode(node.id)}
+                                style={{ cursor: 'pointer', borderTop: '1px solid rgba(255,255,255,0.05)' }}
+                            >
+                                <td style={{ padding: '4px 6px', color: '#cccccc', maxWidth: 120, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    <span style={{ color: getNodeColor(node.id), marginRight: 4 }}>●</span>
+                                    {node.label}
+                                </td>
+                                {METRIC_KEYS.map(key => (
+                                    <td
+                                        key={key}
+                                        style={{
+                                            padding: '4px 6px',
+                                            textAlign: 'right',
+                                            fontVariantNumeric: 'tabular-nums',
+                                            color: key === sortKey ? '#ffffff' : '#999999',
+                                        }}
+                                    >
+                                        {formatMetric(key, values[key])}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default NetworkMetricsPanel;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import {
+    ORDERING_STRATEGIES,
+    ORDERING_STRATEGY_IDS,
+    parseOrderingSettings,
+    type BanditMethod,
+    type OrderingSettings
+} from '../exploration/ordering';
+
+// ==== Adaptive ordering settings (cybernetic mode) ====
+interface OrderingSettingsPanelProps {
+    settings: OrderingSettings;
+    onChange: (settings: OrderingSettings) => void;
+    onClose: () => void;
+    top: number;
+    right: number;
+}
+
+const controlStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '4px 8px',
+    fontSize: 12,
+};
+
+const fieldStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    fontSize: 12,
+    color: '#b8b8c8',
+    marginTop: 8,
+};
+
+// Edits a draft and commits it on blur or Enter, so typing "10" is one change
+// rather than two; an empty or invalid entry reverts to the current value.
+interface NumberFieldProps {
+    value: number;
+    min: number;
+    max: number;
+    step?: number;
+    onCommit: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ value, min, max, step, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+    const [shown, setShown] = useState(value);
+    // The value changed from outside (a commit, undo or redo): show it
+    if (shown !== value) {
+        setShown(value);
+        setDraft(String(value));
+    }
+
+    const commit = () => {
+        const parsed = Number(draft);
+        // Also shows the clamped value when the commit changes nothing
+        setDraft(String(value));
+        if (draft.trim() !== '' && Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+    };
+
+    return (
+        <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') setDraft(String(value));
+            }}
+            style={{ ...controlStyle, width: 60 }}
+        />
+    );
+};
+
+const OrderingSettingsPanel: React.FC<OrderingSettingsPanelProps> = ({
+                                                                         settings,
+                                                                         onChange,
+                                                                         onClose,
+                                                                         top,
+                                                                         right
+                                                                     }) => {
+    // Out-of-range input is clamped to the nearest allowed value
+    const update = (changes: Partial<Record<keyof OrderingSettings, unknown>>) => {
+        onChange(parseOrderingSettings({ ...settings, ...changes }));
+    };
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right,
+                width: 300,
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: '1px solid rgba(170, 150, 218, 0.4)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 3,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>Adaptive ordering</div>
+                <button onClick={onClose} style={{ ...controlStyle, padding: '2px 8px', cursor: 'pointer' }} title="Close">✕</button>
+            </div>
+
+            {ORDERING_STRATEGY_IDS.map(id => (
+                <label
+                    key={id}
+                    style={{
+                        display: 'flex',
+                        gap: 8,
+                        alignItems: 'start',
+                        padding: '6px 8px',
+                        marginBottom: 4,
+                        borderRadius: 8,
+                        cursor: 'pointer',
+                        background: settings.strategy === id ? 'rgba(170, 150, 218, 0.15)' : 'transparent',
+                    }}
+                >
+                    <input
+                        type="radio"
+                        name="ordering-strategy"
+                        checked={settings.strategy === id}
+                        onChange={() => update({ strategy: id })}
+                        style={{ marginTop: 2 }}
+                    />
+                    <span>
+                        <span style={{ fontSize: 12, fontWeight: 600 }}>{ORDERING_STRATEGIES[id].label}</span>
+                        <span style={{ display: 'block', fontSize: 11, color: '#888888', lineHeight: 1.4 }}>
+                            {ORDERING_STRATEGIES[id].description}
+                        </span>
+                    </span>
+                </label>
+            ))}
+
+            {settings.strategy !== 'depth' && (
+                <label style={fieldStyle}>
+                    Nodes per layer
+                    <NumberField
+                        value={settings.nodesPerLayer}
+                        min={1}
+                        max={12}
+                        onCommit={value => update({ nodesPerLayer: value })}
+                    />
+                </label>
+            )}
+
+            {settings.strategy === 'decay' && (
+                <label style={fieldStyle}>
+                    Half-life (minutes)
+                    <NumberField
+                        value={settings.halfLifeMinutes}
+                        min={0.5}
+                        max={240}
+                        step={0.5}
+                        onCommit={value => update({ halfLifeMinutes: value })}
+                    />
+                </label>
+            )}
+
+            {settings.strategy === 'bandit' && (
+                <>
+                    <label style={fieldStyle}>
+                        Method
+                        <select
+                            value={settings.bandit}
+                            onChange={e => update({ bandit: e.target.value as BanditMethod })}
+                            style={controlStyle}
+                        >
+                            <option value="ucb" style={{ background: '#111118' }}>Upper confidence bound</option>
+                            <option value="thompson" style={{ background: '#111118' }}>Thompson sampling</option>
+                        </select>
+                    </label>
+                    {settings.bandit === 'ucb' && (
+                        <label style={fieldStyle} title="Higher values pull rarely visited nodes further up the path">
+                            Exploration weight
+                            <NumberField
+                                value={settings.explorationWeight}
+                                min={0}
+                                max={5}
+                                step={0.1}
+                                onCommit={value => update({ explorationWeight: value })}
+                            />
+                        </label>
+                    )}
+                    {settings.bandit === 'thompson' && (
+                        <div style={{ fontSize: 11, color: '#888888', marginTop: 6 }}>
+                            Each selection or vote draws a fresh order, so under-visited nodes surface now and then.
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default OrderingSettingsPanel;
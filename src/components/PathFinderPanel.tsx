@@ -0,0 +1,261 @@
+import React from 'react';
+import type { RawLink, RawNode } from '../network/types';
+import {
+    findShortestPath,
+    PATH_COLOR,
+    type PathQuery,
+    type PathSearchMode,
+    type PathSearchResult
+} from '../analysis/paths';
+
+// ==== Path Finder Panel ====
+interface PathFinderPanelProps {
+    nodes: RawNode[];
+    links: RawLink[];
+    query: PathQuery;
+    result: PathSearchResult | null;
+    onQueryChange: (patch: Partial<PathQuery>) => void;
+    getNodeColor: (id: string) => string;
+    onClose: () => void;
+}
+
+const MODE_LABELS: Record<PathSearchMode, string> = {
+    shortest: 'Shortest',
+    kShortest: 'K shortest',
+    allSimple: 'All paths',
+};
+
+const fieldStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.06)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    borderRadius: 6,
+    color: '#ffffff',
+    fontSize: 12,
+    padding: '5px 6px',
+};
+
+const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+                                                             nodes,
+                                                             links,
+                                                             query,
+                                                             result,
+                                                             onQueryChange,
+                                                             getNodeColor,
+                                                             onClose
+                                                         }) => {
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+    const getPolarity = (source: string, target: string) =>
+        links.find(l => l.source === source && l.target === target)?.polarity;
+
+    // When nothing leads from A to B, it's worth knowing whether B leads to A
+    const reversePath = result && result.paths.length === 0 && query.from && query.to
+        ? findShortestPath(links, query.to, query.from)
+        : null;
+
+    const nodePicker = (value: string | null, onChange: (id: string | null) => void) => (
+        <select
+            value={value ?? ''}
+            onChange={e => onChange(e.target.value || null)}
+            style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+        >
+            <option value="" style={{ background: '#111118' }}>Choose a node…</option>
+            {nodes.map(node => (
+                <option key={node.id} value={node.id} style={{ background: '#111118' }}>{node.label}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top: 20,
+                left: 20,
+                width: 320,
+                maxHeight: 'calc(100vh - 40px)',
+                overflow: 'auto',
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: '1px solid rgba(255, 217, 61, 0.3)',
+                padding: '16px 18px',
+                color: '#ffffff',
+                zIndex: 3,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+                <div style={{ fontSize: 15, fontWeight: 600, color: PATH_COLOR }}>Path Finder</div>
+                <button
+                    onClick={onClose}
+                    style={{
+                        background: 'rgba(255,255,255,0.1)',
+                        border: '1px solid rgba(255,255,255,0.2)',
+                        color: '#ffffff',
+                        borderRadius: 6,
+                        padding: '4px 10px',
+                        cursor: 'pointer',
+                        fontSize: 12,
+                    }}
+                >
+                    Close
+                </button>
+            </div>
+            <div style={{ fontSize: 11, color: '#888888', marginBottom: 12 }}>
+                Shift-click two nodes, or choose them below.
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+                <span style={{ fontSize: 11, color: '#aaaaaa', width: 32 }}>From</span>
+                {nodePicker(query.from, id => onQueryChange({ from: id, selected: 0 }))}
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 10 }}>
+                <span style={{ fontSize: 11, color: '#aaaaaa', width: 32 }}>To</span>
+                {nodePicker(query.to, id => onQueryChange({ to: id, selected: 0 }))}
+                <button
+                    onClick={() => onQueryChange({ from: query.to, to: query.from, selected: 0 })}
+                    style={{ ...fieldStyle, cursor: 'pointer' }}
+                    title="Swap start and end"
+                >
+                    ⇅
+                </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: 6, marginBottom: 10 }}>
+                {(Object.keys(MODE_LABELS) as PathSearchMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => onQueryChange({ mode, selected: 0 })}
+                        style={{
+                            flex: 1,
+                            background: query.mode === mode ? 'rgba(255, 217, 61, 0.15)' : 'transparent',
+                            border: query.mode === mode
+                                ? `1px solid ${PATH_COLOR}`
+                                : '1px solid rgba(255,255,255,0.15)',
+                            color: '#ffffff',
+                            borderRadius: 6,
+                            padding: '4px 6px',
+                            cursor: 'pointer',
+                            fontSize: 11,
+                        }}
+                    >
+                        {MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+
+            {query.mode === 'kShortest' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11, color: '#aaaaaa', marginBottom: 10 }}>
+                    Number of paths (k)
+                    <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={query.k}
+                        onChange={e => onQueryChange({ k: Math.max(1, Math.min(20, Number(e.target.value) || 1)), selected: 0 })}
+                        style={{ ...fieldStyle, width: 56 }}
+                    />
+                </label>
+            )}
+            {query.mode === 'allSimple' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11, color: '#aaaaaa', marginBottom: 10 }}>
+                    Max steps
+                    <input
+                        type="number"
+                        min={1}
+                        max={12}
+                        value={query.maxLength}
+                        onChange={e => onQueryChange({ maxLength: Math.max(1, Math.min(12, Number(e.target.value) || 1)), selected: 0 })}
+                        style={{ ...fieldStyle, width: 56 }}
+                    />
+                </label>
+            )}
+
+            {query.from && query.to && query.from === query.to && (
+                <div style={{ fontSize: 12, color: '#888888' }}>Choose two different nodes.</div>
+            )}
+
+            {result && result.paths.length === 0 && (
+                <div
+                    style={{
+                        background: 'rgba(243, 129, 129, 0.1)',
+                        border: '1px solid rgba(243, 129, 129, 0.3)',
+                        borderRadius: 8,
+                        padding: '10px 12px',
+                        fontSize: 12,
+                        color: '#F38181',
+                        lineHeight: 1.5,
+                    }}
+                >
+                    No path from <strong>{getNodeLabel(query.from!)}</strong> to <strong>{getNodeLabel(query.to!)}</strong>
+                    {query.mode === 'allSimple' && ` within ${query.maxLength} steps`}.
+                    {reversePath && (
+                        <div style={{ marginTop: 4, color: '#aaaaaa', fontSize: 11 }}>
+                            The reverse direction exists: {getNodeLabel(query.to!)} reaches {getNodeLabel(query.from!)} in {reversePath.length - 1} steps.
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {result && result.paths.length > 0 && (
+                <>
+                    <div style={{ fontSize: 11, color: '#888888', marginBottom: 8 }}>
+                        {result.paths.length}{result.truncated ? '+' : ''} path{result.paths.length > 1 ? 's' : ''} • click one to highlight it
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                        {result.paths.map((path, idx) => {
+                            const selected = idx === query.selected;
+
+                            return (
+                                <div
+                                    key={path.join('>')}
+                                    onClick={() => onQueryChange({ selected: idx })}
+                                    style={{
+                                        padding: '8px 10px',
+                                        borderRadius: 8,
+                                        cursor: 'pointer',
+                                        background: selected ? 'rgba(255, 217, 61, 0.1)' : 'rgba(255,255,255,0.03)',
+                                        border: selected ? `1px solid ${PATH_COLOR}` : '1px solid rgba(255,255,255,0.08)',
+                                    }}
+                                >
+                                    <div style={{ fontSize: 11, color: selected ? PATH_COLOR : '#888888', marginBottom: 4 }}>
+                                        #{idx + 1} • {path.length - 1} step{path.length > 2 ? 's' : ''}
+                                    </div>
+                                    {selected ? (
+                                        <ol style={{ margin: 0, paddingLeft: 18, fontSize: 12, lineHeight: 1.7 }}>
+                                            {path.map((id, step) => {
+                                                const polarity = step > 0 ? getPolarity(path[step - 1], id) : undefined;
+                                                return (
+                                                    <li key={id}>
+                                                        <span style={{ color: getNodeColor(id) }}>●</span> {getNodeLabel(id)}
+                                                        {polarity && (
+                                                            <span
+                                                                style={{ marginLeft: 6, color: polarity === '+' ? '#4ECDC4' : '#FF6B6B', fontSize: 11 }}
+                                                                title={polarity === '+' ? 'Amplified by the previous step' : 'Counteracted by the previous step'}
+                                                            >
+                                                                ({polarity})
+                                                            </span>
+                                                        )}
+                                                    </li>
+                                                );
+                                            })}
+                                        </ol>
+                                    ) : (
+                                        <div style={{ fontSize: 12, color: '#cccccc', lineHeight: 1.5 }}>
+                                            {path.map(getNodeLabel).join(' → ')}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {result.truncated && (
+                        <div style={{ marginTop: 10, fontSize: 10, color: '#888888', fontStyle: 'italic' }}>
+                            Only the first {result.paths.length} paths are listed.
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PathFinderPanel;
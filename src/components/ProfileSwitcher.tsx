@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+
+// ==== Profile Switcher (named facilitator histories) ====
+interface ProfileSwitcherProps {
+    profiles: string[];
+    activeProfile: string;
+    onSelectProfile: (name: string) => void;
+    onCreateProfile: (name: string) => void;
+    onDeleteProfile: (name: string) => void;
+}
+
+const controlStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 8,
+    padding: '9px 10px',
+    fontSize: 13,
+};
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+                                                             profiles,
+                                                             activeProfile,
+                                                             onSelectProfile,
+                                                             onCreateProfile,
+                                                             onDeleteProfile
+                                                         }) => {
+    const [creating, setCreating] = useState(false);
+    const [newName, setNewName] = useState('');
+
+    if (creating) {
+        const trimmed = newName.trim();
+        const taken = profiles.includes(trimmed);
+
+        return (
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    if (!trimmed || taken) return;
+                    onCreateProfile(trimmed);
+                    setCreating(false);
+                    setNewName('');
+                }}
+                style={{ display: 'flex', gap: 6 }}
+            >
+                <input
+                    autoFocus
+                    placeholder="Profile name"
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    style={{ ...controlStyle, width: 140, borderColor: taken ? '#F38181' : 'rgba(255,255,255,0.2)' }}
+                    title={taken ? 'A profile with this name already exists' : undefined}
+                />
+                <button type="submit" style={{ ...controlStyle, cursor: 'pointer' }} disabled={!trimmed || taken}>
+                    Add
+                </button>
+                <button type="button" onClick={() => setCreating(false)} style={{ ...controlStyle, cursor: 'pointer' }}>
+                    ✕
+                </button>
+            </form>
+        );
+    }
+
+    return (
+        <div style={{ display: 'flex', gap: 6 }}>
+            <select
+                value={activeProfile}
+                onChange={e => {
+                    if (e.target.value === '__new__') setCreating(true);
+                    else onSelectProfile(e.target.value);
+                }}
+                style={{ ...controlStyle, cursor: 'pointer' }}
+                title="Profile: each keeps its own exploration history"
+            >
+                {profiles.map(name => (
+                    <option key={name} value={name} style={{ background: '#111118' }}>👤 {name}</option>
+                ))}
+                <option value="__new__" style={{ background: '#111118' }}>+ New profile…</option>
+            </select>
+            {profiles.length > 1 && (
+                <button
+                    onClick={() => {
+                        if (window.confirm(`Delete profile "${activeProfile}" and its saved history?`)) {
+                            onDeleteProfile(activeProfile);
+                        }
+                    }}
+                    style={{ ...controlStyle, cursor: 'pointer' }}
+                    title="Delete this profile"
+                >
+                    🗑
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { PULSE_SPEEDS, PULSE_TIMING_LABELS, type PulseTiming } from '../simulation/influencePulses';
+
+// ==== Influence pulse controls (path view) ====
+interface PulseControlsProps {
+    enabled: boolean;
+    speed: number;
+    timing: PulseTiming;
+    onToggle: () => void;
+    onSpeedChange: (speed: number) => void;
+    onTimingChange: (timing: PulseTiming) => void;
+    onReplay: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.05)',
+    border: '1px solid rgba(255,255,255,0.15)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '5px 8px',
+    cursor: 'pointer',
+    fontSize: 11,
+};
+
+const activeStyle: React.CSSProperties = {
+    background: 'rgba(0,212,255,0.15)',
+    border: '1px solid rgba(0,212,255,0.6)',
+};
+
+const PulseControls: React.FC<PulseControlsProps> = ({
+                                                         enabled,
+                                                         speed,
+                                                         timing,
+                                                         onToggle,
+                                                         onSpeedChange,
+                                                         onTimingChange,
+                                                         onReplay
+                                                     }) => (
+    <div
+        style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            background: 'rgba(10,10,15,0.9)',
+            borderRadius: 10,
+            border: '1px solid rgba(255,255,255,0.1)',
+            padding: '6px 8px',
+            color: '#ffffff',
+        }}
+    >
+        <button
+            onClick={onToggle}
+            style={{ ...buttonStyle, ...(enabled ? activeStyle : {}) }}
+            title="Animate influence spreading from the selected node"
+        >
+            〰 Pulses
+        </button>
+        {enabled && (
+            <>
+                <button onClick={onReplay} style={buttonStyle} title="Send the pulses again">↺ Replay</button>
+                <select
+                    value={speed}
+                    onChange={e => onSpeedChange(Number(e.target.value))}
+                    style={{ ...buttonStyle, padding: '4px 6px' }}
+                    title="Pulse speed"
+                >
+                    {PULSE_SPEEDS.map(option => (
+                        <option key={option} value={option} style={{ background: '#111118' }}>{option}×</option>
+                    ))}
+                </select>
+                <select
+                    value={timing}
+                    onChange={e => onTimingChange(e.target.value as PulseTiming)}
+                    style={{ ...buttonStyle, padding: '4px 6px' }}
+                    title="By depth: one step per layer. By weight: stronger links carry the pulse faster"
+                >
+                    {(Object.keys(PULSE_TIMING_LABELS) as PulseTiming[]).map(option => (
+                        <option key={option} value={option} style={{ background: '#111118' }}>
+                            {PULSE_TIMING_LABELS[option]}
+                        </option>
+                    ))}
+                </select>
+            </>
+        )}
+    </div>
+);
+
+export default PulseControls;
@@ -0,0 +1,95 @@
+import React from 'react';
+import type { RawNode } from '../network/types';
+import type { Recommendation } from '../exploration/recommendations';
+
+// ==== Explore next (suggested nodes with the reason for each) ====
+interface RecommendationsPanelProps {
+    // Null while the network metrics they rely on are being computed
+    recommendations: Recommendation[] | null;
+    nodes: RawNode[];
+    getNodeColor: (id: string) => string;
+    onSelectNode: (id: string) => void;
+    onClose: () => void;
+    right: number;
+}
+
+const RecommendationsPanel: React.FC<RecommendationsPanelProps> = ({
+                                                                       recommendations,
+                                                                       nodes,
+                                                                       getNodeColor,
+                                                                       onSelectNode,
+                                                                       onClose,
+                                                                       right
+                                                                   }) => {
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                bottom: 20,
+                right,
+                width: 280,
+                background: 'rgba(10,10,15,0.9)',
+                borderRadius: 12,
+                border: '1px solid rgba(170, 150, 218, 0.3)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div style={{ fontSize: 13, fontWeight: 600, color: '#AA96DA' }}>Explore next</div>
+                <button
+                    onClick={onClose}
+                    style={{
+                        background: 'rgba(255,255,255,0.1)',
+                        border: '1px solid rgba(255,255,255,0.2)',
+                        color: '#ffffff',
+                        borderRadius: 6,
+                        padding: '2px 8px',
+                        cursor: 'pointer',
+                        fontSize: 12,
+                    }}
+                    title="Close"
+                >
+                    ✕
+                </button>
+            </div>
+
+            {!recommendations && (
+                <div style={{ fontSize: 12, color: '#888888' }}>Working out suggestions…</div>
+            )}
+
+            {recommendations?.length === 0 && (
+                <div style={{ fontSize: 12, color: '#888888' }}>No nodes left to suggest.</div>
+            )}
+
+            {recommendations?.map(({ nodeId, reason }) => (
+                <button
+                    key={nodeId}
+                    onClick={() => onSelectNode(nodeId)}
+                    style={{
+                        display: 'block',
+                        width: '100%',
+                        textAlign: 'left',
+                        background: 'rgba(255,255,255,0.04)',
+                        border: '1px solid rgba(255,255,255,0.08)',
+                        borderLeft: `3px solid ${getNodeColor(nodeId)}`,
+                        color: '#ffffff',
+                        borderRadius: 6,
+                        padding: '6px 8px',
+                        marginTop: 6,
+                        cursor: 'pointer',
+                    }}
+                    title="Open this node's path"
+                >
+                    <div style={{ fontSize: 12, fontWeight: 600 }}>{getNodeLabel(nodeId)}</div>
+                    <div style={{ fontSize: 11, color: '#b8b8c8', marginTop: 2 }}>{reason}</div>
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default RecommendationsPanel;
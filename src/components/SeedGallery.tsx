@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { MAX_SAVED_SEEDS, type SavedLayoutSeed } from '../session/storage';
+
+// ==== Layout seeds (reproduce a randomized layout, flip between saved ones) ====
+interface SeedGalleryProps {
+    currentSeed: string | null;
+    entries: SavedLayoutSeed[];
+    onApplySeed: (seed: string) => void;
+    onSaveCurrent: (name: string) => void;
+    onApplyEntry: (index: number) => void;
+    onDeleteEntry: (index: number) => void;
+    onClose: () => void;
+    top: number;
+    right: number;
+}
+
+const controlStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '5px 10px',
+    fontSize: 12,
+};
+
+const SeedGallery: React.FC<SeedGalleryProps> = ({
+                                                     currentSeed,
+                                                     entries,
+                                                     onApplySeed,
+                                                     onSaveCurrent,
+                                                     onApplyEntry,
+                                                     onDeleteEntry,
+                                                     onClose,
+                                                     top,
+                                                     right
+                                                 }) => {
+    const [seedText, setSeedText] = useState('');
+    const [name, setName] = useState('');
+    const seed = seedText.trim();
+    const full = entries.length >= MAX_SAVED_SEEDS;
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                top,
+                right,
+                width: 280,
+                background: 'rgba(10,10,15,0.95)',
+                borderRadius: 12,
+                border: '1px solid rgba(255,255,255,0.15)',
+                padding: '14px 16px',
+                color: '#ffffff',
+                zIndex: 3,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>Layout seeds</div>
+                <button onClick={onClose} style={{ ...controlStyle, padding: '2px 8px', cursor: 'pointer' }} title="Close">✕</button>
+            </div>
+
+            <div style={{ fontSize: 12, color: '#b8b8c8', marginBottom: 10 }}>
+                Current seed:{' '}
+                {currentSeed
+                    ? <span style={{ fontFamily: 'monospace', color: '#ffffff', userSelect: 'all' }}>{currentSeed}</span>
+                    : <span title="The layout has been edited, dragged or pinned since it was randomized">none</span>}
+            </div>
+
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    if (!seed) return;
+                    onApplySeed(seed);
+                    setSeedText('');
+                }}
+                style={{ display: 'flex', gap: 6, marginBottom: 8 }}
+            >
+                <input
+                    placeholder="Enter a seed"
+                    value={seedText}
+                    onChange={e => setSeedText(e.target.value)}
+                    style={{ ...controlStyle, flex: 1, minWidth: 0, fontFamily: 'monospace' }}
+                />
+                <button type="submit" disabled={!seed} style={{ ...controlStyle, cursor: 'pointer', opacity: seed ? 1 : 0.4 }}>
+                    Apply
+                </button>
+            </form>
+
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    if (!currentSeed || full) return;
+                    onSaveCurrent(name.trim() || currentSeed);
+                    setName('');
+                }}
+                style={{ display: 'flex', gap: 6, marginBottom: 12 }}
+            >
+                <input
+                    placeholder={currentSeed ? `Name (${currentSeed})` : 'Randomize to get a seed'}
+                    value={name}
+                    disabled={!currentSeed}
+                    onChange={e => setName(e.target.value)}
+                    style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+                />
+                <button
+                    type="submit"
+                    disabled={!currentSeed || full}
+                    style={{ ...controlStyle, cursor: 'pointer', opacity: currentSeed && !full ? 1 : 0.4 }}
+                    title={full ? `The gallery holds ${MAX_SAVED_SEEDS} layouts; delete one first` : 'Save the current layout'}
+                >
+                    Save
+                </button>
+            </form>
+
+            <div style={{ maxHeight: '35vh', overflow: 'auto', display: 'flex', flexDirection: 'column', gap: 4 }}>
+                {entries.length === 0 && (
+                    <div style={{ fontSize: 12, color: '#888' }}>No saved layouts yet.</div>
+                )}
+                {entries.map((entry, idx) => {
+                    const isCurrent = entry.seed === currentSeed;
+
+                    return (
+                        <div
+                            key={`${entry.seed}:${entry.savedAt}`}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: 6,
+                                padding: '5px 8px',
+                                borderRadius: 6,
+                                background: isCurrent ? 'rgba(78, 205, 196, 0.15)' : 'rgba(255,255,255,0.04)',
+                                border: isCurrent ? '1px solid rgba(78, 205, 196, 0.5)' : '1px solid transparent',
+                            }}
+                        >
+                            <button
+                                onClick={() => onApplyEntry(idx)}
+                                style={{
+                                    flex: 1,
+                                    minWidth: 0,
+                                    background: 'none',
+                                    border: 'none',
+                                    color: '#ffffff',
+                                    textAlign: 'left',
+                                    cursor: 'pointer',
+                                    padding: 0,
+                                    fontSize: 12,
+                                }}
+                                title={`Show this layout (seed ${entry.seed})`}
+                            >
+                                <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{entry.name}</div>
+                                <div style={{ fontFamily: 'monospace', fontSize: 10, color: '#888' }}>{entry.seed}</div>
+                            </button>
+                            <button
+                                onClick={() => onDeleteEntry(idx)}
+                                style={{ ...controlStyle, padding: '2px 7px', cursor: 'pointer' }}
+                                title="Remove from the gallery"
+                            >
+                                🗑
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default SeedGallery;
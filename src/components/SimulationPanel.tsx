@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import type { RawNode } from '../network/types';
+import type { FeedbackSimulation } from '../simulation/useFeedbackSimulation';
+import { getStateColor, type SimulationStatus } from '../simulation/feedbackSimulation';
+
+// ==== Feedback Simulation Panel ====
+interface SimulationPanelProps {
+    simulation: FeedbackSimulation;
+    nodes: RawNode[];
+}
+
+const STATUS_LABELS: Record<SimulationStatus, { text: string; color: string }> = {
+    idle: { text: 'Idle — perturb a node to start', color: '#888888' },
+    adapting: { text: 'Adapting', color: '#ffaa00' },
+    oscillating: { text: 'Oscillating', color: '#F38181' },
+    settled: { text: 'Settled into equilibrium', color: '#4ECDC4' },
+};
+
+const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.1)',
+    border: '1px solid rgba(255,255,255,0.2)',
+    color: '#ffffff',
+    borderRadius: 6,
+    padding: '6px 10px',
+    cursor: 'pointer',
+    fontSize: 12,
+};
+
+// Small line chart of the mean network state over recent ticks
+const StateSparkline: React.FC<{ history: number[]; saturation: number }> = ({ history, saturation }) => {
+    const width = 240;
+    const height = 40;
+    if (history.length < 2) {
+        return <div style={{ height, fontSize: 10, color: '#666666', lineHeight: `${height}px` }}>No history yet</div>;
+    }
+
+    const points = history.map((value, idx) => {
+        const x = (idx / (history.length - 1)) * width;
+        const y = height / 2 - (value / saturation) * (height / 2 - 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+
+    return (
+        <svg width={width} height={height} style={{ display: 'block' }}>
+            <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="rgba(255,255,255,0.15)" />
+            <polyline points={points} fill="none" stroke="#AA96DA" strokeWidth={1.5} />
+        </svg>
+    );
+};
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ simulation, nodes }) => {
+    const [perturbTarget, setPerturbTarget] = useState(nodes[0]?.id ?? '');
+    const { params, setParams, status } = simulation;
+    const statusLabel = STATUS_LABELS[status];
+
+    // Most strongly raised / lowered nodes right now
+    const extremes = [...simulation.states.entries()]
+        .filter(([, value]) => Math.abs(value) > 0.05)
+        .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+        .slice(0, 5);
+
+    const getNodeLabel = (id: string) => nodes.find(n => n.id === id)?.label || id;
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                bottom: 20,
+                left: 20,
+                width: 280,
+                background: 'rgba(10,10,15,0.92)',
+                borderRadius: 12,
+                border: '1px solid rgba(255, 140, 66, 0.3)',
+                padding: '16px',
+                color: '#ffffff',
+                zIndex: 2,
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div style={{ fontSize: 13, fontWeight: 600, color: '#ff8c42' }}>Feedback Simulation</div>
+                <div style={{ fontSize: 11, color: '#888888' }}>tick {simulation.tick}</div>
+            </div>
+
+            <div style={{ fontSize: 11, color: statusLabel.color, marginBottom: 8 }}>
+                {statusLabel.text}
+                {status !== 'idle' && (
+                    <span style={{ color: '#666666' }}> • Δ {simulation.lastChange.toFixed(4)}</span>
+                )}
+            </div>
+
+            <StateSparkline history={simulation.history} saturation={params.saturation} />
+
+            <div style={{ display: 'flex', gap: 6, margin: '10px 0' }}>
+                {simulation.playing ? (
+                    <button onClick={simulation.pause} style={buttonStyle}>⏸ Pause</button>
+                ) : (
+                    <button onClick={simulation.play} style={buttonStyle}>▶ Play</button>
+                )}
+                <button onClick={simulation.step} style={buttonStyle} disabled={simulation.playing}>⏭ Step</button>
+                <button onClick={simulation.reset} style={buttonStyle}>↺ Reset</button>
+            </div>
+
+            <div style={{ fontSize: 11, color: '#888888', marginBottom: 4 }}>Perturb a node</div>
+            <div style={{ display: 'flex', gap: 6, marginBottom: 10 }}>
+                <select
+                    value={perturbTarget}
+                    onChange={e => setPerturbTarget(e.target.value)}
+                    style={{
+                        flex: 1,
+                        background: 'rgba(255,255,255,0.06)',
+                        border: '1px solid rgba(255,255,255,0.15)',
+                        borderRadius: 6,
+                        color: '#ffffff',
+                        fontSize: 12,
+                        padding: '4px 6px',
+                    }}
+                >
+                    {nodes.map(node => (
+                        <option key={node.id} value={node.id} style={{ background: '#111118' }}>{node.label}</option>
+                    ))}
+                </select>
+                <button onClick={() => simulation.perturb(perturbTarget, 0.8)} style={buttonStyle} title="Raise">▲</button>
+                <button onClick={() => simulation.perturb(perturbTarget, -0.8)} style={buttonStyle} title="Lower">▼</button>
+            </div>
+
+            <label style={{ display: 'block', fontSize: 11, color: '#aaaaaa', marginBottom: 6 }}>
+                Damping {params.damping.toFixed(2)}
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={params.damping}
+                    onChange={e => setParams({ ...params, damping: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                />
+            </label>
+            <label style={{ display: 'block', fontSize: 11, color: '#aaaaaa', marginBottom: 6 }}>
+                Coupling {params.coupling.toFixed(2)}
+                <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={params.coupling}
+                    onChange={e => setParams({ ...params, coupling: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                />
+            </label>
+
+            {extremes.length > 0 && (
+                <div style={{ marginTop: 8, paddingTop: 8, borderTop: '1px solid rgba(255,255,255,0.1)', fontSize: 11, lineHeight: 1.7 }}>
+                    {extremes.map(([id, value]) => (
+                        <div key={id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                            <span style={{ color: '#cccccc' }}>{getNodeLabel(id)}</span>
+                            <span style={{ color: getStateColor(value, params.saturation) }}>
+                                {value > 0 ? '+' : ''}{value.toFixed(2)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SimulationPanel;
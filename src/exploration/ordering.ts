@@ -0,0 +1,223 @@
+import type { NodeExploration } from './types';
+import type { Random } from '../utils/random';
+
+// ==== Adaptive ordering strategies (cybernetic mode) ====
+// After the breadth-first walk from the selected node, a strategy decides how
+// the reached nodes are layered. Each one scores nodes from the participant's
+// feedback and either re-chunks the whole path by score or keeps the walk's
+// depth and reorders only within layers.
+
+export type OrderingStrategyId = 'chunked' | 'depth' | 'decay' | 'bandit';
+
+export type BanditMethod = 'ucb' | 'thompson';
+
+export interface OrderingSettings {
+    strategy: OrderingStrategyId;
+    // Layer size when a strategy re-chunks the path by score
+    nodesPerLayer: number;
+    // Time decay: feedback loses half its weight after this many minutes
+    halfLifeMinutes: number;
+    bandit: BanditMethod;
+    // UCB: weight of the exploration bonus for rarely visited nodes
+    explorationWeight: number;
+}
+
+export const DEFAULT_ORDERING_SETTINGS: OrderingSettings = {
+    strategy: 'chunked',
+    nodesPerLayer: 3,
+    halfLifeMinutes: 10,
+    bandit: 'ucb',
+    explorationWeight: 1,
+};
+
+export type FeedbackType = 'insightful' | 'neutral' | 'familiar';
+
+// One piece of feedback with the time it was given (ms since epoch)
+export interface FeedbackRecord {
+    nodeId: string;
+    feedback: FeedbackType;
+    at: number;
+}
+
+// A node reached by the breadth-first walk
+export interface ReachedNode {
+    id: string;
+    // 1 for the start node's direct neighbours
+    depth: number;
+    // Summed strength of the links it was first reached through
+    influence: number;
+}
+
+export interface OrderingContext {
+    explorationData: Map<string, NodeExploration>;
+    // Dated feedback, used by time decay; feedback missing from it counts at full weight
+    feedbackLog: FeedbackRecord[];
+    now: number;
+    random: Random;
+    settings: OrderingSettings;
+}
+
+export interface OrderingStrategy {
+    label: string;
+    description: string;
+    // Layers below the start node, nearest first
+    arrange: (reached: ReachedNode[], context: OrderingContext) => string[][];
+}
+
+// ==== Scores ====
+// Range -2 (all familiar) to +2 (all insightful); 0 without feedback
+export function getExplorationScore(nodeId: string, explorationData: Map<string, NodeExploration>): number {
+    const data = explorationData.get(nodeId);
+    if (!data) return 0;
+
+    const totalFeedback = data.insightful + data.neutral + data.familiar;
+    if (totalFeedback === 0) return 0;
+
+    return (data.insightful * 2 - data.familiar * 2) / totalFeedback;
+}
+
+// Same scale, but each piece of feedback counts 0.5^(age / half-life), and the
+// score fades toward 0 once the remaining weight drops below one fresh answer
+function getDecayedScore(nodeId: string, context: OrderingContext): number {
+    const halfLife = Math.max(0.1, context.settings.halfLifeMinutes) * 60_000;
+    const weights = { insightful: 0, neutral: 0, familiar: 0 };
+    const dated = { insightful: 0, neutral: 0, familiar: 0 };
+    context.feedbackLog.forEach(record => {
+        if (record.nodeId !== nodeId) return;
+        weights[record.feedback] += Math.pow(0.5, Math.max(0, context.now - record.at) / halfLife);
+        dated[record.feedback]++;
+    });
+    // Feedback with no log entry (e.g. from before the log was kept) counts as fresh
+    const data = context.explorationData.get(nodeId);
+    if (data) {
+        (Object.keys(weights) as FeedbackType[]).forEach(type => {
+            weights[type] += Math.max(0, data[type] - dated[type]);
+        });
+    }
+
+    const total = weights.insightful + weights.neutral + weights.familiar;
+    return (weights.insightful * 2 - weights.familiar * 2) / Math.max(1, total);
+}
+
+// Reward in [0, 1] per answer: insightful 1, neutral 0.5, familiar 0
+function getRewardCounts(data: NodeExploration | undefined): { success: number; failure: number } {
+    if (!data) return { success: 0, failure: 0 };
+    return {
+        success: data.insightful + data.neutral * 0.5,
+        failure: data.familiar + data.neutral * 0.5,
+    };
+}
+
+// Upper confidence bound: mean reward plus a bonus that shrinks with visits
+function getUcbScore(nodeId: string, totalVisits: number, context: OrderingContext): number {
+    const data = context.explorationData.get(nodeId);
+    const { success, failure } = getRewardCounts(data);
+    const answers = success + failure;
+    // Unanswered nodes start from an even prior
+    const mean = answers > 0 ? success / answers : 0.5;
+    const visits = data?.visits ?? 0;
+    return mean + context.settings.explorationWeight * Math.sqrt(Math.log(totalVisits + 1) / (visits + 1));
+}
+
+// Marsaglia–Tsang gamma sampler (shape >= 1, which Beta(1 + s, 1 + f) always is)
+function sampleGamma(shape: number, random: Random): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    while (true) {
+        let x: number;
+        let v: number;
+        do {
+            // Box–Muller standard normal
+            x = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = 1 - random();
+        if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+    }
+}
+
+// Thompson sampling: one draw from the Beta posterior of the node's reward
+function getThompsonScore(nodeId: string, context: OrderingContext): number {
+    const { success, failure } = getRewardCounts(context.explorationData.get(nodeId));
+    const a = sampleGamma(1 + success, context.random);
+    const b = sampleGamma(1 + failure, context.random);
+    return a / (a + b);
+}
+
+// ==== Layering ====
+function byScore(reached: ReachedNode[], score: (id: string) => number): ReachedNode[] {
+    const scores = new Map(reached.map(node => [node.id, score(node.id)]));
+    return [...reached].sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || b.influence - a.influence);
+}
+
+function chunk(ordered: ReachedNode[], size: number): string[][] {
+    const layers: string[][] = [];
+    const perLayer = Math.max(1, Math.round(size));
+    for (let i = 0; i < ordered.length; i += perLayer) {
+        layers.push(ordered.slice(i, i + perLayer).map(node => node.id));
+    }
+    return layers;
+}
+
+export const ORDERING_STRATEGIES: Record<OrderingStrategyId, OrderingStrategy> = {
+    chunked: {
+        label: 'Score chunks',
+        description: 'Every reached node sorted by feedback score and dealt into fixed-size layers.',
+        arrange: (reached, context) => chunk(
+            byScore(reached, id => getExplorationScore(id, context.explorationData)),
+            context.settings.nodesPerLayer
+        ),
+    },
+    depth: {
+        label: 'Keep depth',
+        description: 'Layers stay at their link distance; feedback only reorders nodes within each layer.',
+        arrange: (reached, context) => {
+            const layers: ReachedNode[][] = [];
+            reached.forEach(node => {
+                (layers[node.depth - 1] ??= []).push(node);
+            });
+            return layers.map(layer => byScore(layer, id => getExplorationScore(id, context.explorationData)).map(node => node.id));
+        },
+    },
+    decay: {
+        label: 'Time decay',
+        description: 'Score chunks, with older feedback counting less so the path drifts back as it ages.',
+        arrange: (reached, context) => chunk(
+            byScore(reached, id => getDecayedScore(id, context)),
+            context.settings.nodesPerLayer
+        ),
+    },
+    bandit: {
+        label: 'Explore / exploit',
+        description: 'Treats each node as a bandit arm: well-rated nodes rise, but rarely visited ones get mixed in.',
+        arrange: (reached, context) => {
+            const totalVisits = reached.reduce((sum, node) => sum + (context.explorationData.get(node.id)?.visits ?? 0), 0);
+            const score = context.settings.bandit === 'ucb'
+                ? (id: string) => getUcbScore(id, totalVisits, context)
+                : (id: string) => getThompsonScore(id, context);
+            return chunk(byScore(reached, score), context.settings.nodesPerLayer);
+        },
+    },
+};
+
+export const ORDERING_STRATEGY_IDS = Object.keys(ORDERING_STRATEGIES) as OrderingStrategyId[];
+
+// Reads settings saved by an older or newer version, keeping what still makes sense
+export function parseOrderingSettings(value: unknown): OrderingSettings {
+    if (typeof value !== 'object' || value === null) return DEFAULT_ORDERING_SETTINGS;
+    const raw = value as Record<string, unknown>;
+    const clamp = (field: unknown, fallback: number, min: number, max: number) => (
+        typeof field === 'number' && Number.isFinite(field) ? Math.min(max, Math.max(min, field)) : fallback
+    );
+
+    return {
+        strategy: ORDERING_STRATEGY_IDS.includes(raw.strategy as OrderingStrategyId)
+            ? raw.strategy as OrderingStrategyId
+            : DEFAULT_ORDERING_SETTINGS.strategy,
+        nodesPerLayer: Math.round(clamp(raw.nodesPerLayer, DEFAULT_ORDERING_SETTINGS.nodesPerLayer, 1, 12)),
+        halfLifeMinutes: clamp(raw.halfLifeMinutes, DEFAULT_ORDERING_SETTINGS.halfLifeMinutes, 0.5, 240),
+        bandit: raw.bandit === 'thompson' ? 'thompson' : 'ucb',
+        explorationWeight: clamp(raw.explorationWeight, DEFAULT_ORDERING_SETTINGS.explorationWeight, 0, 5),
+    };
+}
@@ -0,0 +1,119 @@
+import type { RawLink, RawNode } from '../network/types';
+import type { NodeExploration } from './types';
+import { getExplorationScore } from './ordering';
+import { normalizeMetric, type NodeMetrics } from '../analysis/centrality';
+
+// ==== "Explore next" recommendations ====
+// Ranks nodes by three signals: how little they've been seen (visits, and
+// whether they were found familiar), how close they are to nodes the
+// participant found insightful (in hops, ignoring link direction), and how
+// important they are to the network's structure (betweenness, PageRank).
+
+export interface Recommendation {
+    nodeId: string;
+    score: number;
+    // One line, e.g. "2 hops from Material, never visited, high betweenness"
+    reason: string;
+}
+
+export const DEFAULT_RECOMMENDATION_COUNT = 5;
+
+// Normalized metric value from which a node counts as structurally important
+const HIGH_METRIC = 0.5;
+
+const WEIGHTS = {
+    novelty: 1,
+    proximity: 1,
+    importance: 0.8,
+    familiar: 0.6,
+};
+
+// Hops from each node to the nearest insightful node, and which one that is
+function nearestInsightful(
+    nodes: RawNode[],
+    links: RawLink[],
+    explorationData: Map<string, NodeExploration>
+): Map<string, { hops: number; from: string }> {
+    const neighbours = new Map<string, string[]>();
+    links.forEach(link => {
+        if (!neighbours.has(link.source)) neighbours.set(link.source, []);
+        if (!neighbours.has(link.target)) neighbours.set(link.target, []);
+        neighbours.get(link.source)!.push(link.target);
+        neighbours.get(link.target)!.push(link.source);
+    });
+
+    const nearest = new Map<string, { hops: number; from: string }>();
+    let frontier = nodes
+        .filter(node => getExplorationScore(node.id, explorationData) > 0)
+        .map(node => node.id);
+    frontier.forEach(id => nearest.set(id, { hops: 0, from: id }));
+
+    for (let hops = 1; frontier.length > 0; hops++) {
+        const next: string[] = [];
+        frontier.forEach(id => {
+            const from = nearest.get(id)!.from;
+            (neighbours.get(id) ?? []).forEach(neighbour => {
+                if (nearest.has(neighbour)) return;
+                nearest.set(neighbour, { hops, from });
+                next.push(neighbour);
+            });
+        });
+        frontier = next;
+    }
+    return nearest;
+}
+
+function describeVisits(data: NodeExploration | undefined): string {
+    const visits = data?.visits ?? 0;
+    if (visits === 0) return 'never visited';
+    if (data && data.familiar > data.insightful) return 'found familiar';
+    return visits === 1 ? 'visited once' : `visited ${visits} times`;
+}
+
+export function recommendNextNodes(
+    nodes: RawNode[],
+    links: RawLink[],
+    explorationData: Map<string, NodeExploration>,
+    metrics: Map<string, NodeMetrics>,
+    exclude: Set<string> = new Set(),
+    count: number = DEFAULT_RECOMMENDATION_COUNT
+): Recommendation[] {
+    const nearest = nearestInsightful(nodes, links, explorationData);
+    const betweenness = normalizeMetric(metrics, 'betweenness');
+    const pageRank = normalizeMetric(metrics, 'pageRank');
+    const labels = new Map(nodes.map(node => [node.id, node.label || node.id]));
+
+    const recommendations = nodes
+        .filter(node => !exclude.has(node.id))
+        .map(node => {
+            const data = explorationData.get(node.id);
+            const answers = data ? data.insightful + data.neutral + data.familiar : 0;
+            const novelty = 1 / (1 + (data?.visits ?? 0));
+            const familiarShare = answers > 0 ? data!.familiar / answers : 0;
+            const link = nearest.get(node.id);
+            // Nodes already rated insightful are the sources, not suggestions
+            const proximity = link && link.hops > 0 ? 1 / link.hops : 0;
+            const importance = Math.max(betweenness.get(node.id) ?? 0, pageRank.get(node.id) ?? 0);
+
+            const reasons: string[] = [];
+            if (link && link.hops > 0) {
+                reasons.push(`${link.hops} ${link.hops === 1 ? 'hop' : 'hops'} from ${labels.get(link.from)}`);
+            }
+            reasons.push(describeVisits(data));
+            if ((betweenness.get(node.id) ?? 0) >= HIGH_METRIC) reasons.push('high betweenness');
+            else if ((pageRank.get(node.id) ?? 0) >= HIGH_METRIC) reasons.push('high PageRank');
+
+            return {
+                nodeId: node.id,
+                score: WEIGHTS.novelty * novelty
+                    + WEIGHTS.proximity * proximity
+                    + WEIGHTS.importance * importance
+                    - WEIGHTS.familiar * familiarShare,
+                reason: reasons.join(', '),
+            };
+        });
+
+    return recommendations
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count);
+}
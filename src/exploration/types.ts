@@ -0,0 +1,27 @@
+// ==== Exploration model ====
+// Per-node feedback collected while exploring, and the hierarchical layers it reshapes.
+
+export interface NodeLayer {
+    // 0 is the selected node; upstream layers have negative levels
+    level: number;
+    nodes: string[];
+}
+
+export interface NodeExploration {
+    visits: number;
+    insightful: number;
+    neutral: number;
+    familiar: number;
+}
+
+export const EMPTY_EXPLORATION: NodeExploration = { visits: 0, insightful: 0, neutral: 0, familiar: 0 };
+
+// Which links the hierarchical path follows from the selected node:
+// outgoing (what it influences), incoming (what influences it) or both
+export type TraversalDirection = 'downstream' | 'upstream' | 'both';
+
+export const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ['downstream', 'upstream', 'both'];
+
+export function isTraversalDirection(value: unknown): value is TraversalDirection {
+    return TRAVERSAL_DIRECTIONS.includes(value as TraversalDirection);
+}
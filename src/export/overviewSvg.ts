@@ -0,0 +1,113 @@
+import type { RawLink, RawNode } from '../network/types';
+import type { Layout2D } from '../layout/types';
+import { getLinkColor, getLinkWidth } from '../network/links';
+import { escapeXml } from '../utils/xml';
+
+// ==== 2D overview as vector SVG ====
+// Drawn from the layout rather than the canvas, so it stays sharp at any size
+// and opens in Illustrator, Inkscape or a slide deck as editable shapes.
+
+export interface OverviewSvgOptions {
+    nodes: RawNode[];
+    links: RawLink[];
+    layout: Layout2D;
+    nodeColors: Map<string, string>;
+    fallbackColor: string;
+    // Nodes in hidden legend categories are left out, as on screen
+    hiddenNodes: Set<string>;
+    title?: string;
+}
+
+// SVG pixels per layout unit
+const SCALE = 60;
+const PADDING = 80;
+const NODE_RADIUS = 9;
+const ARROW_LENGTH = 10;
+const ARROW_HALF_WIDTH = 4;
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+export function overviewToSvg({
+    nodes,
+    links,
+    layout,
+    nodeColors,
+    fallbackColor,
+    hiddenNodes,
+    title
+}: OverviewSvgOptions): string {
+    const visible = nodes.filter(node => layout.has(node.id) && !hiddenNodes.has(node.id));
+    const xs = visible.map(node => layout.get(node.id)!.x);
+    const ys = visible.map(node => layout.get(node.id)!.y);
+    const minX = xs.length > 0 ? Math.min(...xs) : 0;
+    const minY = ys.length > 0 ? Math.min(...ys) : 0;
+    const width = (xs.length > 0 ? Math.max(...xs) - minX : 0) * SCALE + PADDING * 2;
+    const height = (ys.length > 0 ? Math.max(...ys) - minY : 0) * SCALE + PADDING * 2;
+    const toX = (x: number) => round((x - minX) * SCALE + PADDING);
+    const toY = (y: number) => round((y - minY) * SCALE + PADDING);
+    const shown = new Set(visible.map(node => node.id));
+
+    const linkElements = links
+        .filter(link => shown.has(link.source) && shown.has(link.target) && link.source !== link.target)
+        .map(link => {
+            const from = layout.get(link.source)!;
+            const to = layout.get(link.target)!;
+            const x1 = toX(from.x);
+            const y1 = toY(from.y);
+            const x2 = toX(to.x);
+            const y2 = toY(to.y);
+            const length = Math.hypot(x2 - x1, y2 - y1);
+            if (length < NODE_RADIUS * 2) return '';
+
+            // Stop the line at the target's edge and cap it with an arrowhead
+            const ux = (x2 - x1) / length;
+            const uy = (y2 - y1) / length;
+            const tipX = x2 - ux * NODE_RADIUS;
+            const tipY = y2 - uy * NODE_RADIUS;
+            const baseX = tipX - ux * ARROW_LENGTH;
+            const baseY = tipY - uy * ARROW_LENGTH;
+            const arrow = [
+                [tipX, tipY],
+                [baseX - uy * ARROW_HALF_WIDTH, baseY + ux * ARROW_HALF_WIDTH],
+                [baseX + uy * ARROW_HALF_WIDTH, baseY - ux * ARROW_HALF_WIDTH],
+            ].map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+            const color = getLinkColor(link, '#55556a');
+
+            return [
+                `<g class="link" data-source="${escapeXml(link.source)}" data-target="${escapeXml(link.target)}">`,
+                `<line x1="${x1}" y1="${y1}" x2="${round(baseX)}" y2="${round(baseY)}" stroke="${color}" stroke-width="${round(getLinkWidth(link, 1.5))}" stroke-opacity="0.6"/>`,
+                `<polygon points="${arrow}" fill="${color}" fill-opacity="0.8"/>`,
+                '</g>',
+            ].join('');
+        })
+        .filter(Boolean);
+
+    const nodeElements = visible.map(node => {
+        const pos = layout.get(node.id)!;
+        const x = toX(pos.x);
+        const y = toY(pos.y);
+        const color = nodeColors.get(node.id) ?? fallbackColor;
+        const label = `${node.icon ? `${node.icon} ` : ''}${node.label}`;
+
+        return [
+            `<g class="node" data-id="${escapeXml(node.id)}">`,
+            `<circle cx="${x}" cy="${y}" r="${NODE_RADIUS * 1.8}" fill="${color}" fill-opacity="0.15"/>`,
+            `<circle cx="${x}" cy="${y}" r="${NODE_RADIUS}" fill="${color}"/>`,
+            `<text x="${x}" y="${round(y - NODE_RADIUS - 8)}" text-anchor="middle">${escapeXml(label)}</text>`,
+            '</g>',
+        ].join('');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}">`,
+        title ? `<title>${escapeXml(title)}</title>` : '',
+        '<style>text { font: 12px system-ui, -apple-system, "Segoe UI", sans-serif; fill: #ffffff; paint-order: stroke; stroke: #0a0a0f; stroke-width: 3px; }</style>',
+        `<rect width="100%" height="100%" fill="#0a0a0f"/>`,
+        `<g class="links">${linkElements.join('')}</g>`,
+        `<g class="nodes">${nodeElements.join('')}</g>`,
+        '</svg>',
+    ].filter(line => line !== '').join('\n');
+}
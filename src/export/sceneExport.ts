@@ -0,0 +1,155 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+
+// ==== Scene export: high-resolution PNG and glTF ====
+// Node labels are DOM overlays (drei Html), so a canvas grab misses them. Each
+// label's Html group carries an ExportLabel in userData; the PNG export draws
+// those onto the render at the size they have on screen.
+
+export interface ExportLabel {
+    text: string;
+    active: boolean;
+    changed: boolean;
+    opacity: number;
+    // The Html label's distanceFactor, so exported labels match their on-screen size
+    distanceFactor: number;
+}
+
+export interface SceneSnapshot {
+    gl: THREE.WebGLRenderer;
+    scene: THREE.Scene;
+    camera: THREE.Camera;
+}
+
+// Inner and outer colours of the page's radial background
+export type BackgroundGradient = [string, string];
+
+// Same scaling drei applies to Html with a distanceFactor
+function labelScale(position: THREE.Vector3, camera: THREE.Camera, distanceFactor: number): number {
+    if (!(camera instanceof THREE.PerspectiveCamera)) return 1;
+    const distance = position.distanceTo(camera.getWorldPosition(new THREE.Vector3()));
+    return distanceFactor / (2 * Math.tan((camera.fov * Math.PI) / 360) * distance);
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, label: ExportLabel, x: number, y: number, scale: number) {
+    const fontSize = 10 * scale;
+    ctx.font = `${fontSize}px system-ui, -apple-system, "Segoe UI", sans-serif`;
+    const width = ctx.measureText(label.text).width + 14 * scale;
+    const height = fontSize + 8 * scale;
+
+    ctx.save();
+    ctx.globalAlpha = label.opacity;
+    if (label.active || label.changed) {
+        ctx.shadowColor = label.active ? 'rgba(0,212,255,0.9)' : '#ffaa00';
+        ctx.shadowBlur = (label.active ? 12 : 8) * scale;
+    }
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, height / 2);
+    ctx.fillStyle = label.active ? 'rgba(0,212,255,0.25)' : 'rgba(10,10,15,0.8)';
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+    ctx.lineWidth = scale;
+    ctx.strokeStyle = label.active
+        ? 'rgba(0,212,255,0.6)'
+        : label.changed ? '#ffaa00' : 'rgba(255,255,255,0.1)';
+    ctx.stroke();
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label.text, x + 7 * scale, y + height / 2);
+    ctx.restore();
+}
+
+// Renders the current view at `scale` times the canvas resolution (capped by
+// what the GPU allows) with the labels composited in
+export function captureScenePng(
+    { gl, scene, camera }: SceneSnapshot,
+    scale: number,
+    background: BackgroundGradient
+): Promise<Blob> {
+    const width = gl.domElement.clientWidth;
+    const height = gl.domElement.clientHeight;
+    const pixelRatio = Math.min(scale, gl.capabilities.maxTextureSize / Math.max(width, height));
+    const previousRatio = gl.getPixelRatio();
+
+    const output = document.createElement('canvas');
+    output.width = Math.round(width * pixelRatio);
+    output.height = Math.round(height * pixelRatio);
+    const ctx = output.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas 2D drawing is not available'));
+
+    const gradient = ctx.createRadialGradient(output.width / 2, 0, 0, output.width / 2, 0, Math.hypot(output.width, output.height) * 0.6);
+    gradient.addColorStop(0, background[0]);
+    gradient.addColorStop(1, background[1]);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, output.width, output.height);
+
+    // Draw straight after rendering: the drawing buffer isn't preserved past this task
+    try {
+        gl.setPixelRatio(pixelRatio);
+        gl.setSize(width, height, false);
+        gl.render(scene, camera);
+        ctx.drawImage(gl.domElement, 0, 0, output.width, output.height);
+    } finally {
+        gl.setPixelRatio(previousRatio);
+        gl.setSize(width, height, false);
+    }
+
+    const position = new THREE.Vector3();
+    scene.traverseVisible(object => {
+        const label = object.userData.exportLabel as ExportLabel | undefined;
+        if (!label) return;
+        object.getWorldPosition(position);
+        const scaleOnScreen = labelScale(position, camera, label.distanceFactor);
+        const projected = position.clone().project(camera);
+        if (projected.z > 1 || Math.abs(projected.x) > 1.2 || Math.abs(projected.y) > 1.2) return;
+        const x = ((projected.x + 1) / 2) * output.width;
+        const y = ((1 - projected.y) / 2) * output.height;
+        drawLabel(ctx, label, x, y, scaleOnScreen * pixelRatio);
+    });
+
+    return new Promise((resolve, reject) => {
+        output.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+    });
+}
+
+// drei's fat lines are instanced screen-space quads that other tools can't
+// read; export them as plain line segments in the same colour
+function toPlainLines(root: THREE.Object3D) {
+    const fatLines: THREE.Mesh[] = [];
+    root.traverse(object => {
+        if ((object as { isLineSegments2?: boolean }).isLineSegments2) fatLines.push(object as THREE.Mesh);
+    });
+
+    fatLines.forEach(line => {
+        const start = line.geometry.getAttribute('instanceStart');
+        const end = line.geometry.getAttribute('instanceEnd');
+        if (!start || !end || !line.parent) return;
+
+        const points: THREE.Vector3[] = [];
+        for (let i = 0; i < start.count; i++) {
+            points.push(new THREE.Vector3().fromBufferAttribute(start, i), new THREE.Vector3().fromBufferAttribute(end, i));
+        }
+        const source = line.material as THREE.Material & { color?: THREE.Color };
+        const plain = new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(points),
+            new THREE.LineBasicMaterial({
+                color: source.color ?? 0xffffff,
+                transparent: source.transparent,
+                opacity: source.opacity,
+            })
+        );
+        plain.name = line.name;
+        plain.position.copy(line.position);
+        plain.quaternion.copy(line.quaternion);
+        plain.scale.copy(line.scale);
+        line.parent.add(plain);
+        line.parent.remove(line);
+    });
+}
+
+// Binary glTF (.glb) of the visible scene; nodes keep their labels as names
+export function exportSceneGltf(scene: THREE.Scene): Promise<ArrayBuffer> {
+    const copy = scene.clone(true);
+    toPlainLines(copy);
+    return new GLTFExporter().parseAsync(copy, { binary: true, onlyVisible: true }) as Promise<ArrayBuffer>;
+}
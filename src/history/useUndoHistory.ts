@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+
+// ==== Snapshot-based undo/redo history ====
+// Each entry stores the complete undoable state after a command, so undo, redo
+// and jumping to any earlier entry are all just "restore entry i".
+
+export interface HistoryEntry<T> {
+    id: number;
+    label: string;
+    at: number;
+    state: T;
+}
+
+interface HistoryStack<T> {
+    entries: HistoryEntry<T>[];
+    index: number;
+    nextId: number;
+}
+
+export interface UndoHistory<T> {
+    entries: HistoryEntry<T>[];
+    index: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    record: (label: string, state: T) => void;
+    // Move the cursor and return the state to restore, or null if out of range
+    moveTo: (index: number) => T | null;
+}
+
+export function useUndoHistory<T>(initialLabel: string, initialState: T, limit: number = 100): UndoHistory<T> {
+    const [stack, setStack] = useState<HistoryStack<T>>(() => ({
+        entries: [{ id: 0, label: initialLabel, at: Date.now(), state: initialState }],
+        index: 0,
+        nextId: 1,
+    }));
+
+    const record = useCallback((label: string, state: T) => {
+        setStack(prev => {
+            // Recording after an undo drops the redo branch
+            const kept = prev.entries.slice(0, prev.index + 1);
+            const entries = [...kept, { id: prev.nextId, label, at: Date.now(), state }].slice(-limit);
+            return { entries, index: entries.length - 1, nextId: prev.nextId + 1 };
+        });
+    }, [limit]);
+
+    const moveTo = (index: number): T | null => {
+        if (index < 0 || index >= stack.entries.length || index === stack.index) return null;
+        setStack({ ...stack, index });
+        return stack.entries[index].state;
+    };
+
+    return {
+        entries: stack.entries,
+        index: stack.index,
+        canUndo: stack.index > 0,
+        canRedo: stack.index < stack.entries.length - 1,
+        record,
+        moveTo,
+    };
+}
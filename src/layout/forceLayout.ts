@@ -0,0 +1,494 @@
+import type { RawLink, RawNode } from '../network/types';
+import { getLinkStrength } from '../network/links';
+import type { Random } from '../utils/random';
+import type { Layout2D, LayoutPosition } from './types';
+
+// ==== Force-directed layout engine ====
+// Positions live in flat typed arrays indexed by node, and repulsion is
+// approximated with a Barnes–Hut quadtree, so one iteration costs O(n log n)
+// instead of O(n²). Iterations run until the nodes have stopped moving,
+// rather than for a fixed count. The engine is plain data so it can
+// run in the layout worker or, as a fallback, on the main thread.
+
+export interface ForceLayoutOptions {
+    maxIterations: number;
+    // Stop once the mean movement per iteration, as a share of the layout's extent, drops below this
+    tolerance: number;
+    // Random nudges during the first iterations, used by Randomize
+    jitterIterations: number;
+}
+
+// Fresh layouts from a circle or random scatter
+export const FULL_LAYOUT_OPTIONS: ForceLayoutOptions = { maxIterations: 2000, tolerance: 1e-4, jitterIterations: 0 };
+export const RANDOMIZE_LAYOUT_OPTIONS: ForceLayoutOptions = { maxIterations: 2000, tolerance: 1e-4, jitterIterations: 60 };
+// Settling after an edit, starting from the previous layout
+export const RELAX_LAYOUT_OPTIONS: ForceLayoutOptions = { maxIterations: 500, tolerance: 3e-4, jitterIterations: 0 };
+
+const REPULSION = 0.5;
+const ATTRACTION = 0.02;
+const DAMPING = 0.85;
+// Barnes–Hut opening angle: larger is faster and coarser
+const THETA = 0.9;
+const MAX_TREE_DEPTH = 32;
+// Adaptive cooling (Hu, 2005): shrink the step when energy rises, grow it after steady progress
+const COOLING = 0.9;
+const PROGRESS_STEPS = 5;
+// The layout expands from its seed at first, so cooling waits until it has spread out
+const WARMUP_ITERATIONS = 50;
+// Longer side of the overview, in layout units
+export const LAYOUT_SIZE = 8;
+
+export interface LayoutLink {
+    source: string;
+    target: string;
+    strength: number;
+}
+
+export interface ForceLayoutState {
+    ids: string[];
+    x: Float64Array;
+    y: Float64Array;
+    vx: Float64Array;
+    vy: Float64Array;
+    sources: Int32Array;
+    targets: Int32Array;
+    strengths: Float64Array;
+    // 1 for pinned nodes, which push and pull but stay at their target (in layout units)
+    pinned: Uint8Array;
+    targetX: Float64Array;
+    targetY: Float64Array;
+    hasPins: boolean;
+    iteration: number;
+    // Step scale, cooled while the layout oscillates and warmed while it makes progress
+    temperature: number;
+    energy: number;
+    progress: number;
+    // Mean node movement in the last iteration, relative to the layout's extent
+    movement: number;
+    // Source of the early jitter; seeded so randomized layouts can be recreated
+    random: Random;
+}
+
+export function toLayoutLinks(links: RawLink[]): LayoutLink[] {
+    return links.map(link => ({ source: link.source, target: link.target, strength: getLinkStrength(link) }));
+}
+
+// ==== Starting positions (cheap, computed synchronously) ====
+// Nodes keep their previous position when they have one; new nodes start next
+// to their placed neighbours, offset along a golden-angle spiral so several
+// new nodes don't stack up. Without a previous layout every node starts on a
+// circle, or scattered using `random` when randomizing. Pinned nodes always
+// keep their place, even when randomizing.
+export function seedLayout(nodes: RawNode[], links: RawLink[], previous?: Layout2D, random?: Random): Layout2D {
+    const positions: Layout2D = new Map();
+
+    if (!previous || random) {
+        nodes.forEach((node, i) => {
+            const prev = previous?.get(node.id);
+            if (prev?.pinned) {
+                positions.set(node.id, { x: prev.x, y: prev.y, vx: 0, vy: 0, pinned: true });
+            } else if (random) {
+                const angle = random() * Math.PI * 2;
+                const radius = 2 + random() * 3;
+                positions.set(node.id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0 });
+            } else {
+                const angle = (i / nodes.length) * Math.PI * 2;
+                positions.set(node.id, { x: Math.cos(angle) * 3.5, y: Math.sin(angle) * 3.5, vx: 0, vy: 0 });
+            }
+        });
+        return positions;
+    }
+
+    nodes.forEach(node => {
+        const prev = previous.get(node.id);
+        if (prev) positions.set(node.id, { x: prev.x, y: prev.y, vx: 0, vy: 0, pinned: prev.pinned });
+    });
+
+    const neighbours = new Map<string, string[]>();
+    links.forEach(link => {
+        if (!neighbours.has(link.source)) neighbours.set(link.source, []);
+        if (!neighbours.has(link.target)) neighbours.set(link.target, []);
+        neighbours.get(link.source)!.push(link.target);
+        neighbours.get(link.target)!.push(link.source);
+    });
+
+    nodes.forEach((node, i) => {
+        if (positions.has(node.id)) return;
+
+        const placed = (neighbours.get(node.id) ?? [])
+            .map(id => positions.get(id))
+            .filter((pos): pos is LayoutPosition => !!pos);
+
+        const angle = i * 2.39996;
+        if (placed.length > 0) {
+            const cx = placed.reduce((sum, pos) => sum + pos.x, 0) / placed.length;
+            const cy = placed.reduce((sum, pos) => sum + pos.y, 0) / placed.length;
+            positions.set(node.id, { x: cx + Math.cos(angle) * 0.6, y: cy + Math.sin(angle) * 0.6, vx: 0, vy: 0 });
+        } else {
+            positions.set(node.id, { x: Math.cos(angle) * 4.5, y: Math.sin(angle) * 4.5, vx: 0, vy: 0 });
+        }
+    });
+
+    return positions;
+}
+
+export function createForceLayoutState(
+    ids: string[],
+    links: LayoutLink[],
+    seed: Layout2D,
+    random: Random = Math.random
+): ForceLayoutState {
+    const n = ids.length;
+    const index = new Map(ids.map((id, i) => [id, i]));
+    const state: ForceLayoutState = {
+        ids,
+        x: new Float64Array(n),
+        y: new Float64Array(n),
+        vx: new Float64Array(n),
+        vy: new Float64Array(n),
+        sources: new Int32Array(0),
+        targets: new Int32Array(0),
+        strengths: new Float64Array(0),
+        pinned: new Uint8Array(n),
+        targetX: new Float64Array(n),
+        targetY: new Float64Array(n),
+        hasPins: false,
+        iteration: 0,
+        temperature: 1,
+        energy: Infinity,
+        progress: 0,
+        movement: Infinity,
+        random,
+    };
+
+    ids.forEach((id, i) => {
+        const pos = seed.get(id);
+        state.x[i] = pos?.x ?? 0;
+        state.y[i] = pos?.y ?? 0;
+        state.vx[i] = pos?.vx ?? 0;
+        state.vy[i] = pos?.vy ?? 0;
+        if (pos?.pinned) {
+            state.pinned[i] = 1;
+            state.targetX[i] = pos.x;
+            state.targetY[i] = pos.y;
+            state.hasPins = true;
+        }
+    });
+
+    const valid = links.filter(l => index.has(l.source) && index.has(l.target) && l.source !== l.target);
+    state.sources = Int32Array.from(valid, l => index.get(l.source)!);
+    state.targets = Int32Array.from(valid, l => index.get(l.target)!);
+    state.strengths = Float64Array.from(valid, l => l.strength);
+
+    return state;
+}
+
+// ==== Viewport frame ====
+// Layout units are simulation units scaled so the longer side is LAYOUT_SIZE.
+// Without pins the layout is centred. With pins it is anchored on them instead,
+// so they sit exactly where they were dropped, and their simulation positions
+// follow the frame as the rest of the layout grows or shrinks around them.
+interface Frame {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+function fitFrame(state: ForceLayoutState): Frame {
+    const { x, y, pinned, targetX, targetY } = state;
+    const n = x.length;
+    if (n === 0) return { scale: 1, offsetX: 0, offsetY: 0 };
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+        minX = Math.min(minX, x[i]);
+        minY = Math.min(minY, y[i]);
+        maxX = Math.max(maxX, x[i]);
+        maxY = Math.max(maxY, y[i]);
+    }
+    const scale = LAYOUT_SIZE / (Math.max(maxX - minX, maxY - minY) || 1);
+    if (!state.hasPins) {
+        return { scale, offsetX: -scale * (minX + maxX) / 2, offsetY: -scale * (minY + maxY) / 2 };
+    }
+
+    let count = 0, simX = 0, simY = 0, layoutX = 0, layoutY = 0;
+    for (let i = 0; i < n; i++) {
+        if (!pinned[i]) continue;
+        count++;
+        simX += x[i];
+        simY += y[i];
+        layoutX += targetX[i];
+        layoutY += targetY[i];
+    }
+    const offsetX = (layoutX - scale * simX) / count;
+    const offsetY = (layoutY - scale * simY) / count;
+    for (let i = 0; i < n; i++) {
+        if (!pinned[i]) continue;
+        x[i] = (targetX[i] - offsetX) / scale;
+        y[i] = (targetY[i] - offsetY) / scale;
+    }
+    return { scale, offsetX, offsetY };
+}
+
+// ==== Barnes–Hut quadtree ====
+// Cells are stored in flat arrays. A cell is empty (body -1), holds a single
+// body (body >= 0), or is internal (body -2) with four children.
+interface QuadTree {
+    count: number;
+    children: Int32Array;
+    body: Int32Array;
+    mass: Float64Array;
+    comX: Float64Array;
+    comY: Float64Array;
+    size: Float64Array;
+    minX: Float64Array;
+    minY: Float64Array;
+}
+
+function buildQuadTree(x: Float64Array, y: Float64Array): QuadTree {
+    const n = x.length;
+    const capacity = Math.max(16, n * 8);
+    const tree: QuadTree = {
+        count: 1,
+        children: new Int32Array(capacity * 4).fill(-1),
+        body: new Int32Array(capacity).fill(-1),
+        mass: new Float64Array(capacity),
+        comX: new Float64Array(capacity),
+        comY: new Float64Array(capacity),
+        size: new Float64Array(capacity),
+        minX: new Float64Array(capacity),
+        minY: new Float64Array(capacity),
+    };
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+        minX = Math.min(minX, x[i]);
+        minY = Math.min(minY, y[i]);
+        maxX = Math.max(maxX, x[i]);
+        maxY = Math.max(maxY, y[i]);
+    }
+    tree.minX[0] = minX;
+    tree.minY[0] = minY;
+    tree.size[0] = Math.max(maxX - minX, maxY - minY, 1e-6);
+
+    const addCell = (parent: number, quadrant: number): number => {
+        const cell = tree.count++;
+        const half = tree.size[parent] / 2;
+        tree.size[cell] = half;
+        tree.minX[cell] = tree.minX[parent] + (quadrant & 1 ? half : 0);
+        tree.minY[cell] = tree.minY[parent] + (quadrant & 2 ? half : 0);
+        tree.children[parent * 4 + quadrant] = cell;
+        return cell;
+    };
+
+    const quadrantOf = (cell: number, i: number) => {
+        const half = tree.size[cell] / 2;
+        return (x[i] >= tree.minX[cell] + half ? 1 : 0) | (y[i] >= tree.minY[cell] + half ? 2 : 0);
+    };
+
+    const insert = (i: number) => {
+        let cell = 0;
+        for (let depth = 0; ; depth++) {
+            // Every cell on the way down accumulates the body's mass
+            tree.mass[cell] += 1;
+            tree.comX[cell] += x[i];
+            tree.comY[cell] += y[i];
+
+            if (tree.body[cell] === -1 && tree.mass[cell] === 1) {
+                tree.body[cell] = i;
+                return;
+            }
+            // Coincident bodies at the depth limit just share the cell
+            if (depth >= MAX_TREE_DEPTH || tree.count + 2 >= tree.body.length) {
+                tree.body[cell] = -2;
+                return;
+            }
+            if (tree.body[cell] >= 0) {
+                // Push the resident body down a level before descending
+                const resident = tree.body[cell];
+                tree.body[cell] = -2;
+                const q = quadrantOf(cell, resident);
+                const child = addCell(cell, q);
+                tree.body[child] = resident;
+                tree.mass[child] = 1;
+                tree.comX[child] = x[resident];
+                tree.comY[child] = y[resident];
+            }
+            const q = quadrantOf(cell, i);
+            const next = tree.children[cell * 4 + q];
+            cell = next === -1 ? addCell(cell, q) : next;
+        }
+    };
+
+    for (let i = 0; i < n; i++) insert(i);
+    return tree;
+}
+
+function applyRepulsion(state: ForceLayoutState, tree: QuadTree) {
+    const { x, y, vx, vy } = state;
+    const stack = new Int32Array(tree.count);
+
+    for (let i = 0; i < x.length; i++) {
+        let top = 0;
+        stack[top++] = 0;
+
+        while (top > 0) {
+            const cell = stack[--top];
+            const mass = tree.mass[cell];
+            if (mass === 0 || tree.body[cell] === i) continue;
+
+            const cx = tree.comX[cell] / mass;
+            const cy = tree.comY[cell] / mass;
+            const dx = x[i] - cx;
+            const dy = y[i] - cy;
+            const distSq = dx * dx + dy * dy + 0.01;
+            const size = tree.size[cell];
+            const isLeaf = tree.body[cell] >= 0 || tree.children[cell * 4] + tree.children[cell * 4 + 1]
+                + tree.children[cell * 4 + 2] + tree.children[cell * 4 + 3] === -4;
+
+            if (isLeaf || size * size < THETA * THETA * distSq) {
+                // A leaf shared with coincident bodies includes i itself; leave its share out
+                const others = tree.body[cell] === -2 && isLeaf && dx === 0 && dy === 0 ? mass - 1 : mass;
+                const dist = Math.sqrt(distSq);
+                const force = (REPULSION * others) / distSq;
+                vx[i] += (dx / dist) * force;
+                vy[i] += (dy / dist) * force;
+            } else {
+                for (let q = 0; q < 4; q++) {
+                    const child = tree.children[cell * 4 + q];
+                    if (child !== -1) stack[top++] = child;
+                }
+            }
+        }
+    }
+}
+
+// One iteration; returns true once the layout has converged or hit its budget
+export function stepForceLayout(state: ForceLayoutState, options: ForceLayoutOptions): boolean {
+    const { x, y, vx, vy, sources, targets, strengths, pinned } = state;
+    const n = x.length;
+    if (n === 0) return true;
+    if (state.hasPins) fitFrame(state);
+
+    applyRepulsion(state, buildQuadTree(x, y));
+
+    // Attraction along links; stronger influences pull their endpoints closer
+    for (let l = 0; l < sources.length; l++) {
+        const a = sources[l];
+        const b = targets[l];
+        const dx = x[b] - x[a];
+        const dy = y[b] - y[a];
+        const dist = Math.sqrt(dx * dx + dy * dy + 0.01);
+        const force = dist * ATTRACTION * strengths[l];
+        vx[a] += (dx / dist) * force;
+        vy[a] += (dy / dist) * force;
+        vx[b] -= (dx / dist) * force;
+        vy[b] -= (dy / dist) * force;
+    }
+
+    const jitter = state.iteration < options.jitterIterations;
+    let energy = 0;
+    for (let i = 0; i < n; i++) {
+        if (pinned[i]) {
+            vx[i] = 0;
+            vy[i] = 0;
+        }
+        energy += vx[i] * vx[i] + vy[i] * vy[i];
+    }
+    if (energy < state.energy || state.iteration < WARMUP_ITERATIONS) {
+        state.progress++;
+        if (state.progress >= PROGRESS_STEPS) {
+            state.progress = 0;
+            state.temperature = Math.min(1, state.temperature / COOLING);
+        }
+    } else {
+        state.progress = 0;
+        state.temperature *= COOLING;
+    }
+    state.energy = energy;
+
+    let movement = 0;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+        x[i] += vx[i] * state.temperature;
+        y[i] += vy[i] * state.temperature;
+        movement += Math.sqrt(vx[i] * vx[i] + vy[i] * vy[i]) * state.temperature;
+        minX = Math.min(minX, x[i]);
+        minY = Math.min(minY, y[i]);
+        maxX = Math.max(maxX, x[i]);
+        maxY = Math.max(maxY, y[i]);
+        vx[i] *= DAMPING;
+        vy[i] *= DAMPING;
+        if (jitter && !pinned[i]) {
+            x[i] += (state.random() - 0.5) * 0.05;
+            y[i] += (state.random() - 0.5) * 0.05;
+        }
+    }
+
+    state.iteration++;
+    state.movement = movement / n / Math.max(maxX - minX, maxY - minY, 1e-6);
+
+    return state.iteration >= options.maxIterations
+        || (!jitter && state.iteration > options.jitterIterations + 10 && state.movement < options.tolerance);
+}
+
+// Interleaved x, y pairs in layout units and node order, as streamed from the worker
+export function getPositions(state: ForceLayoutState): Float64Array {
+    const { scale, offsetX, offsetY } = fitFrame(state);
+    const positions = new Float64Array(state.ids.length * 2);
+    for (let i = 0; i < state.ids.length; i++) {
+        positions[i * 2] = state.pinned[i] ? state.targetX[i] : state.x[i] * scale + offsetX;
+        positions[i * 2 + 1] = state.pinned[i] ? state.targetY[i] : state.y[i] * scale + offsetY;
+    }
+    return positions;
+}
+
+export function layoutToPositions(ids: string[], layout: Layout2D): Float64Array {
+    const positions = new Float64Array(ids.length * 2);
+    ids.forEach((id, i) => {
+        positions[i * 2] = layout.get(id)?.x ?? 0;
+        positions[i * 2 + 1] = layout.get(id)?.y ?? 0;
+    });
+    return positions;
+}
+
+export function positionsToLayout(ids: string[], positions: Float64Array, pinned: Uint8Array): Layout2D {
+    const layout: Layout2D = new Map();
+    ids.forEach((id, i) => {
+        layout.set(id, { x: positions[i * 2], y: positions[i * 2 + 1], vx: 0, vy: 0, pinned: pinned[i] === 1 });
+    });
+    return layout;
+}
+
+// Synchronous run, for environments without workers
+export function runForceLayout(
+    nodes: RawNode[],
+    links: RawLink[],
+    seed: Layout2D,
+    options: ForceLayoutOptions,
+    random?: Random
+): Layout2D {
+    const state = createForceLayoutState(nodes.map(n => n.id), toLayoutLinks(links), seed, random);
+    while (!stepForceLayout(state, options)) {
+        // iterate until converged
+    }
+    return positionsToLayout(state.ids, getPositions(state), state.pinned);
+}
+
+// ==== Worker protocol ====
+export interface LayoutWorkerRequest {
+    ids: string[];
+    links: LayoutLink[];
+    // Interleaved x, y starting positions in ids order
+    seed: Float64Array;
+    pinned: Uint8Array;
+    options: ForceLayoutOptions;
+    // Seed for the jitter of a randomized layout
+    randomSeed?: string;
+}
+
+export interface LayoutWorkerFrame {
+    iteration: number;
+    positions: Float64Array;
+    done: boolean;
+}
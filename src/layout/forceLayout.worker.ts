@@ -0,0 +1,43 @@
+import type { Layout2D } from './types';
+import {
+    createForceLayoutState,
+    getPositions,
+    stepForceLayout,
+    type LayoutWorkerFrame,
+    type LayoutWorkerRequest
+} from './forceLayout';
+import { createRandom } from '../utils/random';
+
+// ==== Layout worker ====
+// Runs a layout job in short slices, posting the positions after each slice so
+// the overview animates while it settles. The page terminates the worker when
+// the job is superseded.
+
+// Time spent iterating before each progress frame
+const SLICE_MS = 40;
+
+function post(frame: LayoutWorkerFrame) {
+    self.postMessage(frame, { transfer: [frame.positions.buffer] });
+}
+
+self.addEventListener('message', (event: MessageEvent<LayoutWorkerRequest>) => {
+    const { ids, links, seed, pinned, options, randomSeed } = event.data;
+    const start: Layout2D = new Map(ids.map((id, i) => [
+        id,
+        { x: seed[i * 2], y: seed[i * 2 + 1], vx: 0, vy: 0, pinned: pinned[i] === 1 }
+    ]));
+    const state = createForceLayoutState(ids, links, start, randomSeed ? createRandom(randomSeed) : undefined);
+
+    const runSlice = () => {
+        const sliceStart = performance.now();
+        let done = false;
+        while (!done && performance.now() - sliceStart < SLICE_MS) {
+            done = stepForceLayout(state, options);
+        }
+
+        post({ iteration: state.iteration, positions: getPositions(state), done });
+        if (!done) setTimeout(runSlice, 0);
+    };
+
+    runSlice();
+});
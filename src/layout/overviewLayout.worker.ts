@@ -0,0 +1,12 @@
+import { computeOverviewLayout, type OverviewLayoutRequest } from './overviewLayouts';
+import { layoutToPositions } from './forceLayout';
+
+// ==== Overview layout worker ====
+// Computes one alternative layout and posts the positions, interleaved x, y in
+// the order of the request's nodes.
+
+self.addEventListener('message', (event: MessageEvent<OverviewLayoutRequest>) => {
+    const ids = event.data.nodes.map(n => n.id);
+    const positions = layoutToPositions(ids, computeOverviewLayout(event.data));
+    self.postMessage(positions, { transfer: [positions.buffer] });
+});
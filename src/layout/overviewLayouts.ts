@@ -0,0 +1,376 @@
+import type { RawLink, RawNode } from '../network/types';
+import { getNodeCategory, type NodeCategory } from '../network/categories';
+import { LAYOUT_SIZE } from './forceLayout';
+import type { Layout2D } from './types';
+
+// ==== Alternative overview layouts ====
+// Deterministic arrangements computed in one pass, shown in place of the force
+// layout. They never pin or move the force layout itself, so switching back
+// returns to it unchanged.
+
+export type OverviewLayoutKind = 'force' | 'radial' | 'grouped' | 'layered';
+
+export const OVERVIEW_LAYOUT_LABELS: Record<OverviewLayoutKind, string> = {
+    force: 'Force-directed',
+    radial: 'Radial',
+    grouped: 'Grouped circle',
+    layered: 'Layered',
+};
+
+function place(layout: Layout2D, id: string, x: number, y: number) {
+    layout.set(id, { x, y, vx: 0, vy: 0 });
+}
+
+// Scale about the origin so the farthest node is half a layout away
+function fitRadius(layout: Layout2D) {
+    let maxRadius = 0;
+    layout.forEach(pos => {
+        maxRadius = Math.max(maxRadius, Math.hypot(pos.x, pos.y));
+    });
+    const scale = maxRadius > 0 ? LAYOUT_SIZE / 2 / maxRadius : 1;
+    layout.forEach(pos => {
+        pos.x *= scale;
+        pos.y *= scale;
+    });
+}
+
+// ==== Radial ====
+// Rings by link distance from the root, ignoring direction so every connected
+// node gets a ring. Each node's children share its angular wedge in proportion
+// to how many leaves they carry. Unreachable nodes form an outer ring.
+export function radialLayout(nodes: RawNode[], links: RawLink[], rootId: string): Layout2D {
+    const layout: Layout2D = new Map();
+    if (!nodes.some(n => n.id === rootId)) return layout;
+
+    const neighbours = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+    links.forEach(link => {
+        if (!neighbours.has(link.source) || !neighbours.has(link.target)) return;
+        neighbours.get(link.source)!.push(link.target);
+        neighbours.get(link.target)!.push(link.source);
+    });
+
+    // BFS tree from the root
+    const depth = new Map<string, number>([[rootId, 0]]);
+    const children = new Map<string, string[]>();
+    const order = [rootId];
+    for (let head = 0; head < order.length; head++) {
+        const id = order[head];
+        children.set(id, []);
+        neighbours.get(id)!.forEach(next => {
+            if (depth.has(next)) return;
+            depth.set(next, depth.get(id)! + 1);
+            children.get(id)!.push(next);
+            order.push(next);
+        });
+    }
+
+    const leaves = new Map<string, number>();
+    [...order].reverse().forEach(id => {
+        const kids = children.get(id)!;
+        leaves.set(id, kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + leaves.get(kid)!, 0));
+    });
+
+    const assign = (id: string, start: number, span: number) => {
+        const radius = depth.get(id)!;
+        const angle = start + span / 2;
+        place(layout, id, Math.cos(angle) * radius, Math.sin(angle) * radius);
+
+        let offset = start;
+        children.get(id)!.forEach(kid => {
+            const share = (span * leaves.get(kid)!) / leaves.get(id)!;
+            assign(kid, offset, share);
+            offset += share;
+        });
+    };
+    assign(rootId, -Math.PI / 2, Math.PI * 2);
+
+    const unreachable = nodes.filter(n => !depth.has(n.id));
+    const outer = Math.max(0, ...depth.values()) + 1;
+    unreachable.forEach((node, i) => {
+        const angle = (i / unreachable.length) * Math.PI * 2;
+        place(layout, node.id, Math.cos(angle) * outer, Math.sin(angle) * outer);
+    });
+
+    fitRadius(layout);
+    return layout;
+}
+
+// Default radial root: the node with the most links
+export function getDefaultRadialRoot(nodes: RawNode[], links: RawLink[]): string | null {
+    const degree = new Map<string, number>();
+    links.forEach(link => {
+        degree.set(link.source, (degree.get(link.source) ?? 0) + 1);
+        degree.set(link.target, (degree.get(link.target) ?? 0) + 1);
+    });
+    let best: string | null = null;
+    nodes.forEach(node => {
+        if (best === null || (degree.get(node.id) ?? 0) > (degree.get(best) ?? 0)) best = node.id;
+    });
+    return best;
+}
+
+// ==== Grouped circle ====
+// One circle, cut into an arc per category sized by its membership. A category's
+// hub node sits inside the circle facing the middle of its arc.
+const GROUP_GAP = 0.25;
+const HUB_RADIUS = 0.55;
+
+export function groupedCircularLayout(nodes: RawNode[], categories: NodeCategory[]): Layout2D {
+    const layout: Layout2D = new Map();
+
+    const groups = categories
+        .map(category => ({
+            category,
+            members: nodes.filter(n => getNodeCategory(n) === category.id && n.id !== category.id),
+            hub: nodes.find(n => n.id === category.id),
+        }))
+        .filter(group => group.members.length > 0 || group.hub);
+
+    const slots = groups.reduce((sum, group) => sum + Math.max(1, group.members.length), 0);
+    const gap = groups.length > 1 ? GROUP_GAP : 0;
+    const perSlot = (Math.PI * 2 - gap * groups.length) / Math.max(1, slots);
+
+    let angle = -Math.PI / 2;
+    groups.forEach(group => {
+        const span = perSlot * Math.max(1, group.members.length);
+        group.members.forEach((node, i) => {
+            const a = angle + perSlot * (i + 0.5);
+            place(layout, node.id, Math.cos(a), Math.sin(a));
+        });
+        if (group.hub) {
+            const mid = angle + span / 2;
+            place(layout, group.hub.id, Math.cos(mid) * HUB_RADIUS, Math.sin(mid) * HUB_RADIUS);
+        }
+        angle += span + gap;
+    });
+
+    // Anything not covered by the categories given goes in the middle
+    nodes.forEach(node => {
+        if (!layout.has(node.id)) place(layout, node.id, 0, 0);
+    });
+
+    fitRadius(layout);
+    return layout;
+}
+
+// ==== Layered (Sugiyama) ====
+// 1. Break cycles by reversing DFS back edges.
+// 2. Put each node one layer below its deepest predecessor (longest path).
+// 3. Route links that skip layers through dummy nodes, shortest first; links
+//    beyond the dummy budget are drawn straight and don't affect the order.
+// 4. Reduce crossings with alternating barycenter sweeps, keeping the best order.
+// 5. Space each layer evenly, centred, with layers running top to bottom.
+const CROSSING_SWEEPS = 24;
+// Give up once this many sweeps in a row find nothing better
+const STALE_SWEEPS = 4;
+// Dummy nodes grow with links times the layers they skip, so cap them
+const MAX_DUMMY_NODES = 5000;
+
+function breakCycles(n: number, edges: [number, number][]): [number, number][] {
+    const out: number[][] = Array.from({ length: n }, () => []);
+    edges.forEach(([s, t]) => out[s].push(t));
+
+    const state = new Uint8Array(n); // 0 unvisited, 1 on stack, 2 done
+    const reversed = new Set<string>();
+    const visit = (root: number) => {
+        // Iterative DFS so deep chains don't overflow the stack
+        const stack: [number, number][] = [[root, 0]];
+        state[root] = 1;
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const [v, i] = top;
+            if (i < out[v].length) {
+                top[1]++;
+                const w = out[v][i];
+                if (state[w] === 1) reversed.add(`${v}>${w}`);
+                else if (state[w] === 0) {
+                    state[w] = 1;
+                    stack.push([w, 0]);
+                }
+            } else {
+                state[v] = 2;
+                stack.pop();
+            }
+        }
+    };
+
+    // Start from sources so the natural flow direction wins
+    const inDegree = new Array(n).fill(0);
+    edges.forEach(([, t]) => inDegree[t]++);
+    for (let v = 0; v < n; v++) if (inDegree[v] === 0 && state[v] === 0) visit(v);
+    for (let v = 0; v < n; v++) if (state[v] === 0) visit(v);
+
+    return edges.map(([s, t]) => (reversed.has(`${s}>${t}`) ? [t, s] : [s, t]));
+}
+
+function assignLayers(n: number, edges: [number, number][]): number[] {
+    const out: number[][] = Array.from({ length: n }, () => []);
+    const inDegree = new Array(n).fill(0);
+    edges.forEach(([s, t]) => {
+        out[s].push(t);
+        inDegree[t]++;
+    });
+
+    const layer = new Array(n).fill(0);
+    const queue: number[] = [];
+    for (let v = 0; v < n; v++) if (inDegree[v] === 0) queue.push(v);
+    for (let head = 0; head < queue.length; head++) {
+        const v = queue[head];
+        out[v].forEach(w => {
+            layer[w] = Math.max(layer[w], layer[v] + 1);
+            if (--inDegree[w] === 0) queue.push(w);
+        });
+    }
+    return layer;
+}
+
+// Crossings between two adjacent layers, counted as inversions with a Fenwick tree
+function countCrossings(upper: number[], lower: number[], down: number[][]): number {
+    const lowerPos = new Map(lower.map((v, i) => [v, i]));
+    const ends: number[] = [];
+    upper.forEach(v => {
+        down[v].map(w => lowerPos.get(w)!).sort((a, b) => a - b).forEach(p => ends.push(p));
+    });
+
+    const tree = new Array(lower.length + 1).fill(0);
+    let crossings = 0;
+    ends.forEach((p, seen) => {
+        // Earlier ends that land to the right of this one cross it
+        let atOrBelow = 0;
+        for (let i = p + 1; i > 0; i -= i & -i) atOrBelow += tree[i];
+        crossings += seen - atOrBelow;
+        for (let i = p + 1; i <= lower.length; i += i & -i) tree[i]++;
+    });
+    return crossings;
+}
+
+export function layeredLayout(nodes: RawNode[], links: RawLink[]): Layout2D {
+    const layout: Layout2D = new Map();
+    const n = nodes.length;
+    if (n === 0) return layout;
+
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+    const seen = new Set<string>();
+    const edges: [number, number][] = [];
+    links.forEach(link => {
+        const s = index.get(link.source);
+        const t = index.get(link.target);
+        const key = `${link.source}>${link.target}`;
+        if (s === undefined || t === undefined || s === t || seen.has(key)) return;
+        seen.add(key);
+        edges.push([s, t]);
+    });
+
+    const acyclic = breakCycles(n, edges);
+    const rank = assignLayers(n, acyclic);
+
+    // Adjacency between consecutive layers, with dummies appended after the real nodes
+    const down: number[][] = Array.from({ length: n }, () => []);
+    const up: number[][] = Array.from({ length: n }, () => []);
+    const connect = (a: number, b: number) => {
+        down[a].push(b);
+        up[b].push(a);
+    };
+    let dummies = 0;
+    const bySpan = [...acyclic].sort((a, b) => (rank[a[1]] - rank[a[0]]) - (rank[b[1]] - rank[b[0]]));
+    bySpan.forEach(([s, t]) => {
+        const skipped = rank[t] - rank[s] - 1;
+        if (skipped > 0 && dummies + skipped > MAX_DUMMY_NODES) return;
+        dummies += skipped;
+        let previous = s;
+        for (let level = rank[s] + 1; level < rank[t]; level++) {
+            const dummy = rank.length;
+            rank.push(level);
+            down.push([]);
+            up.push([]);
+            connect(previous, dummy);
+            previous = dummy;
+        }
+        connect(previous, t);
+    });
+
+    let depth = 0;
+    rank.forEach(level => {
+        depth = Math.max(depth, level);
+    });
+    const layers: number[][] = Array.from({ length: depth + 1 }, () => []);
+    rank.forEach((level, v) => layers[level].push(v));
+
+    const totalCrossings = (order: number[][]) =>
+        order.slice(1).reduce((sum, lower, i) => sum + countCrossings(order[i], lower, down), 0);
+
+    const order = layers.map(layer => [...layer]);
+    let best = order.map(layer => [...layer]);
+    let bestCrossings = totalCrossings(order);
+
+    let stale = 0;
+    for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0 && stale < STALE_SWEEPS; sweep++) {
+        const downward = sweep % 2 === 0;
+        const range = downward
+            ? order.map((_, i) => i).slice(1)
+            : order.map((_, i) => i).slice(0, -1).reverse();
+
+        range.forEach(i => {
+            const fixed = order[downward ? i - 1 : i + 1];
+            const fixedPos = new Map(fixed.map((v, p) => [v, p]));
+            const current = new Map(order[i].map((v, p) => [v, p]));
+            const barycenter = (v: number) => {
+                const adjacent = downward ? up[v] : down[v];
+                if (adjacent.length === 0) return current.get(v)!;
+                return adjacent.reduce((sum, w) => sum + fixedPos.get(w)!, 0) / adjacent.length;
+            };
+            const keyed = order[i].map(v => ({ v, key: barycenter(v) }));
+            keyed.sort((a, b) => a.key - b.key || current.get(a.v)! - current.get(b.v)!);
+            order[i] = keyed.map(entry => entry.v);
+        });
+
+        const crossings = totalCrossings(order);
+        if (crossings < bestCrossings) {
+            bestCrossings = crossings;
+            best = order.map(layer => [...layer]);
+            stale = 0;
+        } else {
+            stale++;
+        }
+    }
+
+    best.forEach((layer, level) => {
+        layer.forEach((v, p) => {
+            if (v < n) place(layout, nodes[v].id, p - (layer.length - 1) / 2, level * 1.5);
+        });
+    });
+
+    // Fit the longer side to the overview and centre it
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    layout.forEach(pos => {
+        minX = Math.min(minX, pos.x);
+        maxX = Math.max(maxX, pos.x);
+        minY = Math.min(minY, pos.y);
+        maxY = Math.max(maxY, pos.y);
+    });
+    const scale = LAYOUT_SIZE / (Math.max(maxX - minX, maxY - minY) || 1);
+    layout.forEach(pos => {
+        pos.x = (pos.x - (minX + maxX) / 2) * scale;
+        pos.y = (pos.y - (minY + maxY) / 2) * scale;
+    });
+
+    return layout;
+}
+
+// ==== Worker protocol ====
+// Layered layouts of large networks take long enough to stall a frame, so
+// every alternative layout is computed in a worker like the force layout
+export interface OverviewLayoutRequest {
+    kind: Exclude<OverviewLayoutKind, 'force'>;
+    nodes: RawNode[];
+    links: RawLink[];
+    categories: NodeCategory[];
+    // Centre of the radial layout
+    rootId: string;
+}
+
+export function computeOverviewLayout({ kind, nodes, links, categories, rootId }: OverviewLayoutRequest): Layout2D {
+    if (kind === 'radial') return radialLayout(nodes, links, rootId);
+    if (kind === 'grouped') return groupedCircularLayout(nodes, categories);
+    return layeredLayout(nodes, links);
+}
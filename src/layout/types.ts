@@ -0,0 +1,12 @@
+// ==== 2D overview layout ====
+
+export interface LayoutPosition {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    // Placed by hand: the force layout leaves it where it is
+    pinned?: boolean;
+}
+
+export type Layout2D = Map<string, LayoutPosition>;
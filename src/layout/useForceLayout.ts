@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RawLink, RawNode } from '../network/types';
+import type { Layout2D } from './types';
+import {
+    layoutToPositions,
+    positionsToLayout,
+    runForceLayout,
+    toLayoutLinks,
+    type ForceLayoutOptions,
+    type LayoutWorkerFrame,
+    type LayoutWorkerRequest
+} from './forceLayout';
+import { createRandom } from '../utils/random';
+
+// ==== Background force layout ====
+// Each request runs in its own worker and streams intermediate layouts back as
+// it settles. A newer request (or unmounting) terminates the running job.
+
+export interface LayoutRequest {
+    nodes: RawNode[];
+    links: RawLink[];
+    // Starting positions for every node, e.g. from seedLayout
+    seed: Layout2D;
+    options: ForceLayoutOptions;
+    // Seed for randomized layouts; the same seed and network give the same result
+    randomSeed?: string;
+    // Undo history label to record once the layout has settled
+    label?: string;
+}
+
+export interface LayoutProgress {
+    running: boolean;
+    iteration: number;
+}
+
+const IDLE: LayoutProgress = { running: false, iteration: 0 };
+
+export function useForceLayout(
+    request: LayoutRequest | null,
+    onLayout: (layout: Layout2D, done: boolean, request: LayoutRequest) => void
+): LayoutProgress {
+    const [progress, setProgress] = useState<LayoutProgress>(IDLE);
+    const onLayoutRef = useRef(onLayout);
+
+    useEffect(() => {
+        onLayoutRef.current = onLayout;
+    });
+
+    useEffect(() => {
+        if (!request) {
+            setProgress(IDLE);
+            return;
+        }
+
+        const ids = request.nodes.map(n => n.id);
+        const pinned = Uint8Array.from(ids, id => (request.seed.get(id)?.pinned ? 1 : 0));
+
+        const runHere = () => {
+            const random = request.randomSeed ? createRandom(request.randomSeed) : undefined;
+            const layout = runForceLayout(request.nodes, request.links, request.seed, request.options, random);
+            onLayoutRef.current(layout, true, request);
+            setProgress(IDLE);
+        };
+
+        if (typeof Worker === 'undefined') {
+            runHere();
+            return;
+        }
+
+        const worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' });
+        // A worker that can't load (e.g. blocked by a content security policy)
+        // or crashes lays the network out here instead of leaving it unsettled
+        const fallBack = () => {
+            worker.terminate();
+            runHere();
+        };
+        worker.addEventListener('error', fallBack);
+        worker.addEventListener('messageerror', fallBack);
+        worker.addEventListener('message', (event: MessageEvent<LayoutWorkerFrame>) => {
+            const { iteration, positions, done } = event.data;
+            onLayoutRef.current(positionsToLayout(ids, positions, pinned), done, request);
+            setProgress(done ? IDLE : { running: true, iteration });
+            if (done) worker.terminate();
+        });
+
+        const job: LayoutWorkerRequest = {
+            ids,
+            links: toLayoutLinks(request.links),
+            seed: layoutToPositions(ids, request.seed),
+            pinned,
+            options: request.options,
+            randomSeed: request.randomSeed,
+        };
+        setProgress({ running: true, iteration: 0 });
+        worker.postMessage(job);
+
+        return () => worker.terminate();
+    }, [request]);
+
+    return progress;
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Layout2D } from './types';
+
+// ==== Animated switching between overview layouts ====
+// Follows the target layout directly while transitionKey stays the same (e.g.
+// while the force layout streams in), and tweens every node from where it is
+// drawn to its new place when the key changes.
+
+const TRANSITION_MS = 800;
+
+function easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function interpolateLayouts(from: Layout2D, to: Layout2D, t: number): Layout2D {
+    const layout: Layout2D = new Map();
+    to.forEach((target, id) => {
+        const start = from.get(id) ?? target;
+        layout.set(id, {
+            ...target,
+            x: start.x + (target.x - start.x) * t,
+            y: start.y + (target.y - start.y) * t,
+        });
+    });
+    return layout;
+}
+
+export function useLayoutTransition(target: Layout2D, transitionKey: string, duration: number = TRANSITION_MS): Layout2D {
+    const [frame, setFrame] = useState<Layout2D | null>(null);
+    const shown = useRef(target);
+    const shownKey = useRef(transitionKey);
+    const animating = useRef(false);
+
+    useEffect(() => {
+        if (shownKey.current === transitionKey && !animating.current) {
+            shown.current = target;
+            return;
+        }
+
+        // A new target mid-transition carries on from wherever the nodes are now
+        shownKey.current = transitionKey;
+        animating.current = true;
+        const from = shown.current;
+        const startedAt = performance.now();
+        let request = 0;
+
+        const tick = (now: number) => {
+            const t = Math.min(1, (now - startedAt) / duration);
+            if (t < 1) {
+                shown.current = interpolateLayouts(from, target, easeInOutCubic(t));
+                setFrame(shown.current);
+                request = requestAnimationFrame(tick);
+            } else {
+                shown.current = target;
+                animating.current = false;
+                setFrame(null);
+            }
+        };
+        request = requestAnimationFrame(tick);
+
+        return () => cancelAnimationFrame(request);
+    }, [target, transitionKey, duration]);
+
+    // Until the first tween frame, keep drawing the old positions rather than jumping
+    return frame ?? (transitionKey === shownKey.current ? target : shown.current);
+}
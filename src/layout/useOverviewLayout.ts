@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import type { Layout2D } from './types';
+import { positionsToLayout } from './forceLayout';
+import { computeOverviewLayout, type OverviewLayoutRequest } from './overviewLayouts';
+
+// ==== Background overview layouts ====
+// Each request runs in its own worker. The last finished layout stays in place
+// until the next one arrives, so switching layouts doesn't flash back to the
+// force layout; a null request clears it.
+
+export interface OverviewLayoutResult {
+    request: OverviewLayoutRequest;
+    layout: Layout2D;
+}
+
+export interface OverviewLayoutState {
+    result: OverviewLayoutResult | null;
+    running: boolean;
+}
+
+export function useOverviewLayout(request: OverviewLayoutRequest | null): OverviewLayoutState {
+    const [result, setResult] = useState<OverviewLayoutResult | null>(null);
+
+    useEffect(() => {
+        if (!request) {
+            setResult(null);
+            return;
+        }
+
+        const runHere = () => setResult({ request, layout: computeOverviewLayout(request) });
+
+        if (typeof Worker === 'undefined') {
+            runHere();
+            return;
+        }
+
+        const worker = new Worker(new URL('./overviewLayout.worker.ts', import.meta.url), { type: 'module' });
+        // As for the force layout, a worker that can't load or crashes falls back to the main thread
+        const fallBack = () => {
+            worker.terminate();
+            runHere();
+        };
+        worker.addEventListener('error', fallBack);
+        worker.addEventListener('messageerror', fallBack);
+        worker.addEventListener('message', (event: MessageEvent<Float64Array>) => {
+            const ids = request.nodes.map(n => n.id);
+            setResult({ request, layout: positionsToLayout(ids, event.data, new Uint8Array(ids.length)) });
+            worker.terminate();
+        });
+        worker.postMessage(request);
+
+        return () => worker.terminate();
+    }, [request]);
+
+    return { result, running: request !== null && result?.request !== request };
+}
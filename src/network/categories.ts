@@ -0,0 +1,68 @@
+import type { RawNode } from './types';
+
+// ==== Node categories ====
+// Nodes name their category in "category". A category whose id matches a node
+// (its hub, e.g. "form") takes its label, color and icon from that node; other
+// categories fall back to the first colored member and then to the palette.
+// Nodes inherit their category's color unless they set their own.
+
+export interface NodeCategory {
+    // '' for nodes that have no category
+    id: string;
+    label: string;
+    color: string;
+    icon?: string;
+    size: number;
+}
+
+export const UNCATEGORIZED = '';
+export const UNCATEGORIZED_COLOR = '#a0a0a0';
+
+const CATEGORY_PALETTE = ['#4ECDC4', '#95E1D3', '#FF6B6B', '#F38181', '#AA96DA', '#FCBAD3', '#FFD93D', '#6A8EE8'];
+
+export function getNodeCategory(node: RawNode): string {
+    return node.category ?? UNCATEGORIZED;
+}
+
+// Categories in order of first appearance, with uncategorized nodes last
+export function getNodeCategories(nodes: RawNode[]): NodeCategory[] {
+    const members = new Map<string, RawNode[]>();
+    nodes.forEach(node => {
+        const category = getNodeCategory(node);
+        if (!members.has(category)) members.set(category, []);
+        members.get(category)!.push(node);
+    });
+
+    const categories: NodeCategory[] = [];
+    let paletteIdx = 0;
+
+    members.forEach((categoryNodes, id) => {
+        if (id === UNCATEGORIZED) return;
+        const hub = nodes.find(n => n.id === id);
+        const color = hub?.color ?? categoryNodes.find(n => n.color)?.color
+            ?? CATEGORY_PALETTE[paletteIdx++ % CATEGORY_PALETTE.length];
+
+        categories.push({
+            id,
+            label: hub?.label ?? id,
+            color,
+            icon: hub?.icon,
+            size: categoryNodes.length,
+        });
+    });
+
+    const uncategorized = members.get(UNCATEGORIZED);
+    if (uncategorized) {
+        categories.push({ id: UNCATEGORIZED, label: 'Uncategorized', color: UNCATEGORIZED_COLOR, size: uncategorized.length });
+    }
+
+    return categories;
+}
+
+export function getNodeColors(nodes: RawNode[], categories: NodeCategory[] = getNodeCategories(nodes)): Map<string, string> {
+    const categoryColors = new Map(categories.map(c => [c.id, c.color]));
+    return new Map(nodes.map(node => [
+        node.id,
+        node.color ?? categoryColors.get(getNodeCategory(node)) ?? UNCATEGORIZED_COLOR,
+    ]));
+}
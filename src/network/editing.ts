@@ -0,0 +1,122 @@
+import { NETWORK_SCHEMA_VERSION } from './schema';
+import type { LinkPolarity, NetworkData } from './types';
+
+// ==== Network editing operations ====
+// Pure helpers used by the in-app editor. Each returns a new NetworkData (or an
+// error message) so callers can keep the network in React state unchanged.
+
+export type NetworkEditResult =
+    | { ok: true; network: NetworkData }
+    | { ok: false; error: string };
+
+export function addNode(network: NetworkData, id: string, label: string): NetworkEditResult {
+    const trimmedId = id.trim();
+    if (trimmedId === '') {
+        return { ok: false, error: 'Node id cannot be empty.' };
+    }
+    if (network.nodes.some(n => n.id === trimmedId)) {
+        return { ok: false, error: `A node with id "${trimmedId}" already exists.` };
+    }
+
+    return {
+        ok: true,
+        network: {
+            ...network,
+            nodes: [...network.nodes, { id: trimmedId, label: label.trim() || trimmedId }],
+        },
+    };
+}
+
+export function renameNode(network: NetworkData, id: string, label: string): NetworkEditResult {
+    const trimmedLabel = label.trim();
+    if (trimmedLabel === '') {
+        return { ok: false, error: 'Label cannot be empty.' };
+    }
+    if (!network.nodes.some(n => n.id === id)) {
+        return { ok: false, error: `Unknown node "${id}".` };
+    }
+
+    return {
+        ok: true,
+        network: {
+            ...network,
+            nodes: network.nodes.map(n => (n.id === id ? { ...n, label: trimmedLabel } : n)),
+        },
+    };
+}
+
+// Removes the node together with every link that starts or ends at it
+export function removeNode(network: NetworkData, id: string): NetworkData {
+    return {
+        ...network,
+        nodes: network.nodes.filter(n => n.id !== id),
+        links: network.links.filter(l => l.source !== id && l.target !== id),
+    };
+}
+
+export function hasLink(network: NetworkData, source: string, target: string): boolean {
+    return network.links.some(l => l.source === source && l.target === target);
+}
+
+export function addLink(network: NetworkData, source: string, target: string): NetworkEditResult {
+    if (source === target) {
+        return { ok: false, error: 'A node cannot link to itself.' };
+    }
+    if (hasLink(network, source, target)) {
+        return { ok: false, error: 'That link already exists.' };
+    }
+
+    return { ok: true, network: { ...network, links: [...network.links, { source, target }] } };
+}
+
+export function removeLink(network: NetworkData, source: string, target: string): NetworkData {
+    return {
+        ...network,
+        links: network.links.filter(l => !(l.source === source && l.target === target)),
+    };
+}
+
+// null clears the field; undefined leaves it untouched
+export type LinkPatch = { polarity?: LinkPolarity | null; strength?: number | null };
+
+// Sets or clears polarity / strength on an existing link
+export function updateLink(
+    network: NetworkData,
+    source: string,
+    target: string,
+    patch: LinkPatch
+): NetworkEditResult {
+    if (patch.strength != null && (!Number.isFinite(patch.strength) || patch.strength <= 0)) {
+        return { ok: false, error: 'Strength must be a positive number.' };
+    }
+
+    return {
+        ok: true,
+        network: {
+            ...network,
+            links: network.links.map(l => {
+                if (l.source !== source || l.target !== target) return l;
+                const next = { ...l };
+                if (patch.polarity !== undefined) {
+                    if (patch.polarity === null) delete next.polarity;
+                    else next.polarity = patch.polarity;
+                }
+                if (patch.strength !== undefined) {
+                    if (patch.strength === null) delete next.strength;
+                    else next.strength = patch.strength;
+                }
+                return next;
+            }),
+        },
+    };
+}
+
+// ==== Serialise in the same layout as public/data.json ====
+// Always written at the current schema version, since edits may use newer fields.
+export function serializeNetwork(network: NetworkData): string {
+    return JSON.stringify(
+        { version: NETWORK_SCHEMA_VERSION, nodes: network.nodes, links: network.links },
+        null,
+        2
+    );
+}
@@ -0,0 +1,388 @@
+import type { NetworkData } from '../types';
+import type { NetworkValidationResult } from '../schema';
+import {
+    applyLinkField,
+    applyNodeField,
+    finishImport,
+    LossCounter,
+    type ImportedLink,
+    type ImportedNode,
+    type NetworkExport
+} from './shared';
+
+// ==== Graphviz DOT ====
+// Reads the full statement grammar (attribute defaults, subgraphs, edge
+// chains, edges to subgraphs). Nodes in a "cluster" subgraph take the
+// cluster's label as their category unless they name one themselves.
+
+interface Token {
+    kind: 'id' | 'html' | 'punct' | 'edgeop';
+    value: string;
+    line: number;
+    // A quoted string is always a name, even when it spells a keyword
+    quoted?: boolean;
+}
+
+class DotSyntaxError extends Error {}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\n') {
+            line++;
+            i++;
+        } else if (/\s/.test(char)) {
+            i++;
+        } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            if (end < 0) throw new DotSyntaxError(`Unclosed comment starting on line ${line}`);
+            line += text.slice(i, end).split('\n').length - 1;
+            i = end + 2;
+        } else if (char === '"') {
+            let value = '';
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+                    value += text[i + 1];
+                    i += 2;
+                } else if (text[i] === '\\' && 'nlr'.includes(text[i + 1])) {
+                    // Line breaks (\l and \r also set the alignment, which we drop)
+                    value += '\n';
+                    i += 2;
+                } else if (text[i] === '\\' && text[i + 1] === '\n') {
+                    // Line continuation
+                    line++;
+                    i += 2;
+                } else {
+                    if (text[i] === '\n') line++;
+                    value += text[i++];
+                }
+            }
+            if (i >= text.length) throw new DotSyntaxError(`Unclosed string on line ${line}`);
+            i++;
+            // "a" + "b" concatenation
+            const previous = tokens[tokens.length - 1];
+            if (previous?.kind === 'punct' && previous.value === '+' && tokens[tokens.length - 2]?.kind === 'id') {
+                tokens.pop();
+                tokens[tokens.length - 1].value += value;
+            } else {
+                tokens.push({ kind: 'id', value, line, quoted: true });
+            }
+        } else if (char === '<') {
+            let depth = 0;
+            const start = i;
+            do {
+                if (text[i] === '<') depth++;
+                else if (text[i] === '>') depth--;
+                else if (text[i] === '\n') line++;
+                i++;
+            } while (i < text.length && depth > 0);
+            if (depth > 0) throw new DotSyntaxError(`Unclosed HTML string on line ${line}`);
+            tokens.push({ kind: 'html', value: text.slice(start + 1, i - 1), line });
+        } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+            tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line });
+            i += 2;
+        } else if ('{}[];,=:+'.includes(char)) {
+            tokens.push({ kind: 'punct', value: char, line });
+            i++;
+        } else {
+            const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(i));
+            if (!match) throw new DotSyntaxError(`Unexpected "${char}" on line ${line}`);
+            tokens.push({ kind: 'id', value: match[0], line });
+            i += match[0].length;
+        }
+    }
+    return tokens;
+}
+
+type Attributes = Map<string, { value: string; html: boolean }>;
+
+interface Scope {
+    nodeDefaults: Attributes;
+    edgeDefaults: Attributes;
+    // Category for nodes first seen inside a cluster subgraph
+    cluster: string | null;
+}
+
+class DotParser {
+    private tokens: Token[];
+    private position = 0;
+    readonly nodes = new Map<string, ImportedNode>();
+    readonly links: ImportedLink[] = [];
+    readonly lost = new LossCounter();
+    directed = true;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    private peek(offset: number = 0): Token | undefined {
+        return this.tokens[this.position + offset];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) throw new DotSyntaxError('Unexpected end of file');
+        return token;
+    }
+
+    private isPunct(value: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return token?.kind === 'punct' && token.value === value;
+    }
+
+    private isKeyword(keyword: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return token?.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+    }
+
+    private expectPunct(value: string) {
+        const token = this.next();
+        if (token.kind !== 'punct' || token.value !== value) {
+            throw new DotSyntaxError(`Expected "${value}" but found "${token.value}" on line ${token.line}`);
+        }
+    }
+
+    private expectId(): Token {
+        const token = this.next();
+        if (token.kind !== 'id' && token.kind !== 'html') {
+            throw new DotSyntaxError(`Expected a name but found "${token.value}" on line ${token.line}`);
+        }
+        return token;
+    }
+
+    parseGraph() {
+        if (this.isKeyword('strict')) this.position++;
+        const kind = this.next();
+        if (kind.kind !== 'id' || kind.quoted || !['graph', 'digraph'].includes(kind.value.toLowerCase())) {
+            throw new DotSyntaxError(`Expected "graph" or "digraph" on line ${kind.line}`);
+        }
+        this.directed = kind.value.toLowerCase() === 'digraph';
+        if (!this.isPunct('{')) this.expectId();
+        this.expectPunct('{');
+        this.parseStatements({ nodeDefaults: new Map(), edgeDefaults: new Map(), cluster: null }, true);
+        if (this.peek()) this.lost.add('Ignored every graph after the first');
+    }
+
+    // Returns the ids of the nodes mentioned in the block (for edges to subgraphs)
+    private parseStatements(scope: Scope, topLevel: boolean): Set<string> {
+        const mentioned = new Set<string>();
+        while (!this.isPunct('}')) {
+            this.parseStatement(scope, mentioned, topLevel);
+            if (this.isPunct(';') || this.isPunct(',')) this.position++;
+        }
+        this.expectPunct('}');
+        return mentioned;
+    }
+
+    private parseAttributeList(): Attributes {
+        const attributes: Attributes = new Map();
+        while (this.isPunct('[')) {
+            this.position++;
+            while (!this.isPunct(']')) {
+                const name = this.expectId().value;
+                let value = { value: 'true', html: false };
+                if (this.isPunct('=')) {
+                    this.position++;
+                    const token = this.expectId();
+                    value = { value: token.value, html: token.kind === 'html' };
+                }
+                attributes.set(name, value);
+                if (this.isPunct(';') || this.isPunct(',')) this.position++;
+            }
+            this.expectPunct(']');
+        }
+        return attributes;
+    }
+
+    private parseStatement(scope: Scope, mentioned: Set<string>, topLevel: boolean) {
+        // Attribute defaults: graph / node / edge [ ... ]
+        if ((this.isKeyword('graph') || this.isKeyword('node') || this.isKeyword('edge')) && this.isPunct('[', 1)) {
+            const target = this.next().value.toLowerCase();
+            const attributes = this.parseAttributeList();
+            if (target === 'node') attributes.forEach((value, name) => scope.nodeDefaults.set(name, value));
+            else if (target === 'edge') attributes.forEach((value, name) => scope.edgeDefaults.set(name, value));
+            else this.noteGraphAttributes(attributes, scope, topLevel);
+            return;
+        }
+
+        // Graph attribute: name = value
+        if (this.isPunct('=', 1)) {
+            const name = this.expectId().value;
+            this.position++;
+            const value = this.expectId();
+            this.noteGraphAttributes(new Map([[name, { value: value.value, html: value.kind === 'html' }]]), scope, topLevel);
+            return;
+        }
+
+        // Node or edge statement; either end may be a subgraph
+        const first = this.parseEndpoint(scope);
+        const chain: Set<string>[] = [first.ids];
+        while (this.peek()?.kind === 'edgeop') {
+            this.position++;
+            chain.push(this.parseEndpoint(scope).ids);
+        }
+        chain.forEach(ids => ids.forEach(id => mentioned.add(id)));
+        const attributes = this.parseAttributeList();
+
+        if (chain.length === 1) {
+            // A node statement applies its attributes; a lone subgraph has none
+            if (first.node) attributes.forEach((value, name) => this.applyNodeAttribute(first.node!, name, value));
+            return;
+        }
+
+        const edgeAttributes = new Map([...scope.edgeDefaults, ...attributes]);
+        for (let i = 0; i < chain.length - 1; i++) {
+            chain[i].forEach(source => chain[i + 1].forEach(target => this.addLink(source, target, edgeAttributes)));
+        }
+    }
+
+    // The nodes an edge end stands for, plus the node itself for a plain node id
+    private parseEndpoint(scope: Scope): { ids: Set<string>; node: ImportedNode | null } {
+        if (this.isPunct('{') || this.isKeyword('subgraph')) {
+            let name: string | null = null;
+            if (this.isKeyword('subgraph')) {
+                this.position++;
+                if (!this.isPunct('{')) name = this.expectId().value;
+            }
+            this.expectPunct('{');
+            const isCluster = name !== null && name.toLowerCase().startsWith('cluster');
+            const ids = this.parseStatements({
+                nodeDefaults: new Map(scope.nodeDefaults),
+                edgeDefaults: new Map(scope.edgeDefaults),
+                cluster: isCluster ? name!.replace(/^cluster_?/i, '') || name : scope.cluster,
+            }, false);
+            return { ids, node: null };
+        }
+
+        const token = this.expectId();
+        if (token.kind === 'html') this.lost.add('Read HTML-like node ids as plain text');
+        if (this.isPunct(':')) {
+            this.position++;
+            this.expectId();
+            if (this.isPunct(':')) {
+                this.position++;
+                this.expectId();
+            }
+            this.lost.add('Ignored node ports');
+        }
+
+        const id = token.value;
+        let node = this.nodes.get(id);
+        if (!node) {
+            node = { id, label: id };
+            if (scope.cluster) node.category = scope.cluster;
+            this.nodes.set(id, node);
+            const created = node;
+            scope.nodeDefaults.forEach((value, name) => this.applyNodeAttribute(created, name, value));
+        }
+        return { ids: new Set([id]), node };
+    }
+
+    private applyNodeAttribute(node: ImportedNode, name: string, { value, html }: { value: string; html: boolean }) {
+        let text = value;
+        if (html) {
+            text = value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+            this.lost.add('Read HTML-like labels as plain text');
+        }
+        if (name === 'label') {
+            // \N is Graphviz for "the node's name"
+            text = text.replace(/\\N/g, node.id).trim();
+        }
+        // style=filled only makes fillcolor show, which we read anyway
+        if (name === 'style' && text === 'filled') return;
+        if (name === 'style' || name === 'shape') {
+            this.lost.add(`Ignored node attribute "${name}"`);
+            return;
+        }
+        if (!applyNodeField(node, name, text, this.lost)) this.lost.add(`Ignored node attribute "${name}"`);
+    }
+
+    private addLink(source: string, target: string, attributes: Attributes) {
+        const link: ImportedLink = { source, target };
+        if (!this.directed) this.lost.add('Read undirected edges as pointing from source to target');
+        attributes.forEach(({ value }, name) => {
+            if (!applyLinkField(link, name, value, this.lost)) this.lost.add(`Ignored edge attribute "${name}"`);
+        });
+        this.links.push(link);
+    }
+
+    private noteGraphAttributes(attributes: Attributes, scope: Scope, topLevel: boolean) {
+        attributes.forEach((value, name) => {
+            // A cluster's label names the category its nodes are given
+            if (name === 'label' && !topLevel && scope.cluster !== null) {
+                const label = value.value.trim();
+                if (label) {
+                    const previous = scope.cluster;
+                    scope.cluster = label;
+                    this.nodes.forEach(node => {
+                        if (node.category === previous) node.category = label;
+                    });
+                }
+                return;
+            }
+            this.lost.add(`Ignored graph attribute "${name}"`);
+        });
+    }
+}
+
+export function parseDot(text: string): NetworkValidationResult {
+    try {
+        const parser = new DotParser(tokenize(text));
+        parser.parseGraph();
+        return finishImport([...parser.nodes.values()], parser.links, parser.lost);
+    } catch (err) {
+        if (err instanceof DotSyntaxError) return { ok: false, errors: [`Malformed DOT: ${err.message}.`], warnings: [] };
+        throw err;
+    }
+}
+
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+// What a DOT reader (ours included) won't read back as written
+function describeDotLoss(network: NetworkData): string[] {
+    const lost: string[] = [];
+    const nameInLabel = network.nodes.filter(node => node.label.includes('\\N'));
+    if (nameInLabel.length > 0) {
+        lost.push(`${nameInLabel.length} label${nameInLabel.length > 1 ? 's contain' : ' contains'} "\\N", which DOT reads as the node's id`);
+    }
+    const padded = network.nodes.filter(node => node.label !== node.label.trim());
+    if (padded.length > 0) {
+        lost.push(`Leading or trailing spaces in ${padded.length} label${padded.length > 1 ? 's are' : ' is'} trimmed on import`);
+    }
+    return lost;
+}
+
+function attributeList(attributes: [string, string | number | undefined][]): string {
+    const present = attributes.filter(([, value]) => value !== undefined);
+    if (present.length === 0) return '';
+    return ` [${present.map(([name, value]) => `${name}=${typeof value === 'number' ? value : quote(value!)}`).join(', ')}]`;
+}
+
+export function serializeDot(network: NetworkData): NetworkExport {
+    const lines = [
+        'digraph network {',
+        ...network.nodes.map(node => `    ${quote(node.id)}${attributeList([
+            ['label', node.label],
+            ['category', node.category],
+            ['fillcolor', node.color],
+            ['style', node.color ? 'filled' : undefined],
+            ['icon', node.icon],
+        ])};`),
+        ...network.links.map(link => `    ${quote(link.source)} -> ${quote(link.target)}${attributeList([
+            ['polarity', link.polarity],
+            ['strength', link.strength],
+        ])};`),
+        '}',
+        '',
+    ];
+    return { text: lines.join('\n'), lost: describeDotLoss(network) };
+}
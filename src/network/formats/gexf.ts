@@ -0,0 +1,174 @@
+import type { NetworkData } from '../types';
+import type { NetworkValidationResult } from '../schema';
+import { getNodeColors } from '../categories';
+import {
+    applyLinkField,
+    applyNodeField,
+    childElements,
+    descendantElements,
+    finishImport,
+    LossCounter,
+    parseXml,
+    toHexColor,
+    type ImportedLink,
+    type ImportedNode,
+    type NetworkExport
+} from './shared';
+import { escapeXml } from '../../utils/xml';
+
+// ==== GEXF (Gephi) ====
+// Category, icon and polarity travel as declared attributes, strength as the
+// edge weight and colour as viz:color, which Gephi shows directly.
+
+// Attribute id -> title for one class of element ('node' or 'edge')
+function readAttributeTitles(graph: Element, elementClass: string): Map<string, string> {
+    const titles = new Map<string, string>();
+    childElements(graph, 'attributes')
+        .filter(attributes => attributes.getAttribute('class') === elementClass)
+        .forEach(attributes => {
+            childElements(attributes, 'attribute').forEach(attribute => {
+                const id = attribute.getAttribute('id');
+                if (id) titles.set(id, attribute.getAttribute('title') ?? id);
+            });
+        });
+    return titles;
+}
+
+function readAttValues(element: Element, titles: Map<string, string>): { name: string; value: string }[] {
+    return childElements(element, 'attvalues')
+        .flatMap(attvalues => childElements(attvalues, 'attvalue'))
+        .map(attvalue => {
+            const id = attvalue.getAttribute('for') ?? attvalue.getAttribute('id') ?? '';
+            return { name: titles.get(id) ?? id, value: attvalue.getAttribute('value') ?? '' };
+        });
+}
+
+// Drawing and time attributes Gephi writes that have no counterpart here
+const VISUAL_ELEMENTS = ['position', 'size', 'shape', 'thickness'];
+const DYNAMIC_ELEMENTS = ['spells', 'spell'];
+
+function noteIgnoredChildren(element: Element, kind: string, lost: LossCounter) {
+    Array.from(element.children).forEach(child => {
+        if (VISUAL_ELEMENTS.includes(child.localName)) lost.add(`Ignored ${kind} ${child.localName} (viz:${child.localName})`);
+        if (DYNAMIC_ELEMENTS.includes(child.localName)) lost.add(`Ignored ${kind} time intervals (spells)`);
+    });
+    if (element.hasAttribute('start') || element.hasAttribute('end')) lost.add(`Ignored ${kind} time intervals (start/end)`);
+}
+
+export function parseGexf(text: string): NetworkValidationResult {
+    const parsed = parseXml(text, 'GEXF');
+    if ('error' in parsed) return { ok: false, errors: [parsed.error], warnings: [] };
+
+    const graph = descendantElements(parsed.document, 'graph')[0];
+    if (!graph) return { ok: false, errors: ['No <graph> element found in the GEXF file.'], warnings: [] };
+    const lost = new LossCounter();
+    if (graph.getAttribute('mode') === 'dynamic') lost.add('Read a dynamic graph as a single static snapshot');
+
+    const nodeTitles = readAttributeTitles(graph, 'node');
+    const edgeTitles = readAttributeTitles(graph, 'edge');
+    // Our own files carry override colours as an attribute and the drawn colour as viz:color
+    const hasColorAttribute = [...nodeTitles.values()].some(title => title.toLowerCase() === 'color');
+
+    const nodes: ImportedNode[] = [];
+    descendantElements(graph, 'node').forEach(element => {
+        const id = element.getAttribute('id') ?? '';
+        const node: ImportedNode = { id, label: element.getAttribute('label') ?? id };
+        if (childElements(element, 'nodes').length > 0 || element.hasAttribute('pid')) {
+            lost.add('Flattened the node hierarchy (nested nodes) into the main graph');
+        }
+
+        readAttValues(element, nodeTitles).forEach(({ name, value }) => {
+            if (!applyNodeField(node, name, value, lost)) lost.add(`Ignored node attribute "${name}"`);
+        });
+
+        const vizColor = childElements(element, 'color')[0];
+        if (vizColor && !hasColorAttribute) {
+            const hex = vizColor.getAttribute('hex');
+            const rgb: [number, number, number] = [
+                Number(vizColor.getAttribute('r')),
+                Number(vizColor.getAttribute('g')),
+                Number(vizColor.getAttribute('b')),
+            ];
+            const color = hex ? toHexColor(hex) : toHexColor(rgb);
+            if (color) node.color = color;
+            if (vizColor.hasAttribute('a')) lost.add('Ignored node color transparency');
+        }
+        noteIgnoredChildren(element, 'node', lost);
+        nodes.push(node);
+    });
+
+    const undirectedByDefault = graph.getAttribute('defaultedgetype') === 'undirected';
+    const links: ImportedLink[] = [];
+    descendantElements(graph, 'edge').forEach(element => {
+        const link: ImportedLink = { source: element.getAttribute('source') ?? '', target: element.getAttribute('target') ?? '' };
+        const type = element.getAttribute('type');
+        if (type === 'undirected' || type === 'mutual' || (type === null && undirectedByDefault)) {
+            lost.add('Read undirected edges as pointing from source to target');
+        }
+
+        const weight = element.getAttribute('weight');
+        if (weight !== null) applyLinkField(link, 'weight', weight, lost);
+        readAttValues(element, edgeTitles).forEach(({ name, value }) => {
+            if (!applyLinkField(link, name, value, lost)) lost.add(`Ignored edge attribute "${name}"`);
+        });
+        if (element.hasAttribute('label')) lost.add('Ignored edge labels');
+        if (childElements(element, 'color').length > 0) lost.add('Ignored edge colors');
+        noteIgnoredChildren(element, 'edge', lost);
+        links.push(link);
+    });
+
+    return finishImport(nodes, links, lost);
+}
+
+export function serializeGexf(network: NetworkData): NetworkExport {
+    const colors = getNodeColors(network.nodes);
+    const attvalues = (values: [string, string | undefined][]) => {
+        const present = values.filter(([, value]) => value !== undefined);
+        if (present.length === 0) return '';
+        return `<attvalues>${present.map(([key, value]) => `<attvalue for="${key}" value="${escapeXml(value!)}"/>`).join('')}</attvalues>`;
+    };
+
+    const nodes = network.nodes.map(node => {
+        const color = colors.get(node.id)!;
+        const [r, g, b] = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+        return [
+            `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+            attvalues([['category', node.category], ['icon', node.icon], ['color', node.color]]),
+            `<viz:color r="${r}" g="${g}" b="${b}"/>`,
+            '</node>',
+        ].join('');
+    });
+
+    const links = network.links.map((link, idx) => [
+        `      <edge id="${idx}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}"`,
+        link.strength !== undefined ? ` weight="${link.strength}"` : '',
+        '>',
+        attvalues([['polarity', link.polarity]]),
+        '</edge>',
+    ].join(''));
+
+    const text = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+        '  <graph defaultedgetype="directed" mode="static">',
+        '    <attributes class="node">',
+        '      <attribute id="category" title="category" type="string"/>',
+        '      <attribute id="icon" title="icon" type="string"/>',
+        '      <attribute id="color" title="color" type="string"/>',
+        '    </attributes>',
+        '    <attributes class="edge">',
+        '      <attribute id="polarity" title="polarity" type="string"/>',
+        '    </attributes>',
+        '    <nodes>',
+        ...nodes,
+        '    </nodes>',
+        '    <edges>',
+        ...links,
+        '    </edges>',
+        '  </graph>',
+        '</gexf>',
+        '',
+    ].join('\n');
+
+    return { text, lost: [] };
+}
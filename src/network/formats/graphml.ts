@@ -0,0 +1,164 @@
+import type { NetworkData } from '../types';
+import type { NetworkValidationResult } from '../schema';
+import { getNodeColors } from '../categories';
+import {
+    applyLinkField,
+    applyNodeField,
+    childElements,
+    descendantElements,
+    finishImport,
+    LossCounter,
+    parseXml,
+    toHexColor,
+    type ImportedLink,
+    type ImportedNode,
+    type NetworkExport
+} from './shared';
+import { escapeXml } from '../../utils/xml';
+
+// ==== GraphML (yEd, Gephi, NetworkX, Cytoscape) ====
+// Fields are written as GraphML data keys, plus yEd node graphics so labels
+// and colours show up when the file is opened in yEd.
+
+interface GraphmlKey {
+    name: string;
+    // 'node', 'edge', 'graph' or 'all'
+    domain: string;
+    // yEd's graphics keys (nodegraphics, edgegraphics, …)
+    yfilesType: string | null;
+    defaultValue: string | null;
+}
+
+function readKeys(document: Document): Map<string, GraphmlKey> {
+    const keys = new Map<string, GraphmlKey>();
+    descendantElements(document, 'key').forEach(key => {
+        const id = key.getAttribute('id');
+        if (!id) return;
+        const defaultElement = childElements(key, 'default')[0];
+        keys.set(id, {
+            name: key.getAttribute('attr.name') ?? id,
+            domain: key.getAttribute('for') ?? 'all',
+            yfilesType: key.getAttribute('yfiles.type'),
+            defaultValue: defaultElement ? defaultElement.textContent ?? '' : null,
+        });
+    });
+    return keys;
+}
+
+// Key values for one element: declared defaults, overridden by its own <data>
+function readData(element: Element, keys: Map<string, GraphmlKey>, domain: string) {
+    const values = new Map<string, { key: GraphmlKey | null; value: string; data: Element | null }>();
+    keys.forEach((key, id) => {
+        if ((key.domain === domain || key.domain === 'all') && key.defaultValue !== null) {
+            values.set(id, { key, value: key.defaultValue, data: null });
+        }
+    });
+    childElements(element, 'data').forEach(data => {
+        const id = data.getAttribute('key') ?? '';
+        values.set(id, { key: keys.get(id) ?? null, value: data.textContent ?? '', data });
+    });
+    return [...values].map(([id, entry]) => ({ id, ...entry }));
+}
+
+export function parseGraphml(text: string): NetworkValidationResult {
+    const parsed = parseXml(text, 'GraphML');
+    if ('error' in parsed) return { ok: false, errors: [parsed.error], warnings: [] };
+    const { document } = parsed;
+
+    const graphs = descendantElements(document, 'graph');
+    if (graphs.length === 0) return { ok: false, errors: ['No <graph> element found in the GraphML file.'], warnings: [] };
+    const graph = graphs[0];
+    const lost = new LossCounter();
+    const keys = readKeys(document);
+    const hasColorKey = [...keys.values()].some(key => key.name.toLowerCase() === 'color');
+
+    if (graphs.some(other => other !== graph && !graph.contains(other))) lost.add('Ignored every graph after the first');
+
+    const nodes: ImportedNode[] = [];
+    descendantElements(graph, 'node').forEach(element => {
+        const id = element.getAttribute('id') ?? '';
+        const node: ImportedNode = { id, label: id };
+        if (childElements(element, 'graph').length > 0) lost.add('Flattened group nodes (nested graphs) into the main graph');
+        if (childElements(element, 'port').length > 0) lost.add('Ignored node ports');
+
+        readData(element, keys, 'node').forEach(({ id: keyId, key, value, data }) => {
+            if (key?.yfilesType) {
+                // yEd graphics: only the label and fill colour mean anything here
+                if (!data) return;
+                const label = descendantElements(data, 'NodeLabel')[0]?.textContent?.trim();
+                if (label && node.label === id) node.label = label;
+                const fill = descendantElements(data, 'Fill')[0]?.getAttribute('color');
+                const color = fill ? toHexColor(fill.slice(0, 7)) : null;
+                if (color && !hasColorKey) node.color = color;
+                return;
+            }
+            const name = key?.name ?? keyId;
+            if (!applyNodeField(node, name, value, lost)) lost.add(`Ignored node attribute "${name}"`);
+        });
+        nodes.push(node);
+    });
+
+    const directedByDefault = graph.getAttribute('edgedefault') !== 'undirected';
+    const links: ImportedLink[] = [];
+    descendantElements(graph, 'edge').forEach(element => {
+        const link: ImportedLink = { source: element.getAttribute('source') ?? '', target: element.getAttribute('target') ?? '' };
+        const directed = element.getAttribute('directed');
+        if (directed === 'false' || (directed === null && !directedByDefault)) {
+            lost.add('Read undirected edges as pointing from source to target');
+        }
+
+        readData(element, keys, 'edge').forEach(({ id: keyId, key, value }) => {
+            if (key?.yfilesType) return;
+            const name = key?.name ?? keyId;
+            if (!applyLinkField(link, name, value, lost)) lost.add(`Ignored edge attribute "${name}"`);
+        });
+        links.push(link);
+    });
+
+    if (descendantElements(graph, 'hyperedge').length > 0) lost.add('Ignored hyperedges');
+
+    return finishImport(nodes, links, lost);
+}
+
+export function serializeGraphml(network: NetworkData): NetworkExport {
+    const colors = getNodeColors(network.nodes);
+    const data = (key: string, value: string | number | undefined) =>
+        value === undefined ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+    const nodes = network.nodes.map(node => [
+        `    <node id="${escapeXml(node.id)}">`,
+        data('label', node.label),
+        data('category', node.category),
+        data('color', node.color),
+        data('icon', node.icon),
+        `<data key="graphics"><y:ShapeNode><y:Fill color="${colors.get(node.id)}"/><y:NodeLabel>${escapeXml(node.label)}</y:NodeLabel></y:ShapeNode></data>`,
+        '</node>',
+    ].join(''));
+
+    const links = network.links.map(link => [
+        `    <edge source="${escapeXml(link.source)}" target="${escapeXml(link.target)}">`,
+        data('polarity', link.polarity),
+        data('weight', link.strength),
+        '</edge>',
+    ].join(''));
+
+    const text = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="category" for="node" attr.name="category" attr.type="string"/>',
+        '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+        '  <key id="icon" for="node" attr.name="icon" attr.type="string"/>',
+        '  <key id="graphics" for="node" yfiles.type="nodegraphics"/>',
+        '  <key id="polarity" for="edge" attr.name="polarity" attr.type="string"/>',
+        '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+        '  <graph id="G" edgedefault="directed">',
+        ...nodes,
+        ...links,
+        '  </graph>',
+        '</graphml>',
+        '',
+    ].join('\n');
+
+    return { text, lost: [] };
+}
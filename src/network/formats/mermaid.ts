@@ -0,0 +1,436 @@
+import type { NetworkData, RawNode } from '../types';
+import type { NetworkValidationResult } from '../schema';
+import { getNodeCategory, UNCATEGORIZED } from '../categories';
+import {
+    finishImport,
+    LossCounter,
+    toHexColor,
+    toPolarity,
+    type ImportedLink,
+    type ImportedNode,
+    type NetworkExport
+} from './shared';
+
+// ==== Mermaid flowcharts ====
+// Categories become subgraphs, colour overrides "style" lines and polarity and
+// strength the edge label ("+ 2"). Ids Mermaid can't hold are replaced and the
+// original kept in a "%% cdn-node" comment, along with the icon, which is also
+// shown in front of the label for other renderers.
+
+const METADATA_PREFIX = 'cdn-node';
+
+// Words Mermaid reads as syntax rather than as a node id
+const RESERVED_IDS = ['end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click', 'linkstyle', 'default', 'call', 'href'];
+
+// Node shape openers, longest first, with the text that closes each
+const SHAPES: [string, string[]][] = [
+    ['(((', [')))']],
+    ['((', ['))']],
+    ['([', ['])']],
+    ['[[', [']]']],
+    ['[(', [')]']],
+    ['[/', ['/]', '\\]']],
+    ['[\\', ['\\]', '/]']],
+    ['{{', ['}}']],
+    ['[', [']']],
+    ['(', [')']],
+    ['{', ['}']],
+    ['>', [']']],
+];
+
+const NODE_ID = /^[\w\u00C0-\uffff]+(?:-(?![-.>])[\w\u00C0-\uffff]+)*/;
+// "-- text -->", "== text ==>", "-. text .->"
+const TEXT_EDGE = /^(<)?(--|==|-\.)\s+(.*?)\s*(-{2,}|={2,}|\.+-)(>|[xo](?=\s|$))?/;
+// "-->", "---", "==>", "-.->", "<-->", "--x", "~~~"
+const PLAIN_EDGE = /^(<)?(-{2,}|={2,}|-\.+-|~{3,})(>|[xo](?=\s|$))?/;
+
+// Spaces inside a quoted label are kept; around an unquoted one they're syntax
+function decodeLabel(text: string, lost: LossCounter): string {
+    const quoted = /^"(.*)"$/.exec(text.trim());
+    return (quoted ? quoted[1] : text.trim())
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/#(\d+);/g, (entity, code) => {
+            const point = Number(code);
+            if (point <= 0x10ffff) return String.fromCodePoint(point);
+            lost.add('Kept character codes beyond the Unicode range as written');
+            return entity;
+        })
+        .replace(/#quot;/g, '"')
+        .replace(/#amp;/g, '&')
+        .replace(/#lt;/g, '<')
+        .replace(/#gt;/g, '>')
+        .replace(/^`(.*)`$/, '$1');
+}
+
+// Line breaks become <br>, which Mermaid renders and decodeLabel reads back
+function encodeLabel(text: string): string {
+    return text
+        .replace(/["#<>]/g, char => `#${char.charCodeAt(0)};`)
+        .replace(/\n/g, '<br>');
+}
+
+// Splits on ';' and newlines outside quotes
+function splitStatements(text: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of text) {
+        if (char === '"') quoted = !quoted;
+        if (!quoted && (char === ';' || char === '\n')) {
+            statements.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    statements.push(current.trim());
+    return statements.filter(statement => statement !== '');
+}
+
+interface ParsedEdge {
+    source: string;
+    target: string;
+    label: string | null;
+}
+
+class MermaidReader {
+    readonly nodes = new Map<string, ImportedNode>();
+    readonly edges: ParsedEdge[] = [];
+    readonly subgraphIds = new Set<string>();
+    readonly lost = new LossCounter();
+    // Styles and classes are applied once every node is known
+    readonly nodeStyles = new Map<string, string>();
+    readonly classFills = new Map<string, string>();
+    readonly nodeClasses = new Map<string, string[]>();
+    readonly metadata = new Map<string, { id?: string; icon?: string }>();
+    private subgraphs: string[] = [];
+
+    readLine(line: string) {
+        const metadata = new RegExp(`^%%\\s*${METADATA_PREFIX}\\s+(\\S+)\\s+(.*)$`).exec(line);
+        if (metadata) {
+            try {
+                this.metadata.set(metadata[1], JSON.parse(metadata[2]));
+            } catch {
+                // Someone else's comment that happens to look like ours
+            }
+            return;
+        }
+        if (line.startsWith('%%')) return;
+        splitStatements(line).forEach(statement => this.readStatement(statement));
+    }
+
+    private readStatement(statement: string) {
+        const keyword = statement.split(/\s+/)[0].toLowerCase();
+
+        if (keyword === 'subgraph') {
+            const rest = statement.slice('subgraph'.length).trim();
+            const titled = /^([^\s[]+)\s*\[(.*)\]$/.exec(rest);
+            const id = titled ? titled[1] : rest.replace(/^"(.*)"$/, '$1');
+            const title = titled ? decodeLabel(titled[2], this.lost) : id;
+            this.subgraphIds.add(id);
+            if (this.subgraphs.length > 0) this.lost.add('Used the innermost subgraph as the category of nodes in nested subgraphs');
+            this.subgraphs.push(title || id);
+        } else if (keyword === 'end') {
+            this.subgraphs.pop();
+        } else if (keyword === 'direction') {
+            this.lost.add('Ignored flowchart directions');
+        } else if (keyword === 'classdef') {
+            const [, names = '', properties = ''] = /^classDef\s+(\S+)\s*(.*)$/i.exec(statement) ?? [];
+            const fill = this.readFill(properties);
+            names.split(',').forEach(name => {
+                if (fill) this.classFills.set(name, fill);
+            });
+        } else if (keyword === 'class') {
+            const [, ids = '', name = ''] = /^class\s+(\S+)\s+(\S+)$/i.exec(statement) ?? [];
+            ids.split(',').forEach(id => this.addClass(id, name));
+        } else if (keyword === 'style') {
+            const [, id = '', properties = ''] = /^style\s+(\S+)\s*(.*)$/i.exec(statement) ?? [];
+            const fill = this.readFill(properties);
+            if (fill) this.nodeStyles.set(id, fill);
+        } else if (keyword === 'linkstyle') {
+            this.lost.add('Ignored link styles');
+        } else if (keyword === 'click') {
+            this.lost.add('Ignored click handlers');
+        } else {
+            this.readChain(statement);
+        }
+    }
+
+    // Keeps the fill colour; every other style property is reported as dropped
+    private readFill(properties: string): string | null {
+        let fill: string | null = null;
+        properties.split(',').forEach(property => {
+            const [name, value = ''] = property.split(':').map(part => part.trim());
+            if (name === 'fill' && toHexColor(value)) fill = toHexColor(value);
+            else if (name) this.lost.add(`Ignored style property "${name}"`);
+        });
+        return fill;
+    }
+
+    private addClass(id: string, name: string) {
+        if (!id || !name) return;
+        this.nodeClasses.set(id, [...(this.nodeClasses.get(id) ?? []), name]);
+    }
+
+    // a["A"] & b --> |label| c:::cls --> d
+    private readChain(statement: string) {
+        let rest = statement;
+        let previous: string[] | null = null;
+        let label: string | null = null;
+
+        while (rest !== '') {
+            const group: string[] = [];
+            do {
+                rest = rest.replace(/^&\s*/, '');
+                const node = this.readNode(rest);
+                if (!node) {
+                    this.lost.add(`Skipped a statement that couldn't be read: "${statement}"`);
+                    return;
+                }
+                group.push(node.id);
+                rest = node.rest.trim();
+            } while (rest.startsWith('&'));
+
+            if (previous) {
+                previous.forEach(source => group.forEach(target => this.edges.push({ source, target, label })));
+            }
+            previous = group;
+            if (rest === '') return;
+
+            const edge = this.readEdge(rest);
+            if (!edge) {
+                this.lost.add(`Skipped a statement that couldn't be read: "${statement}"`);
+                return;
+            }
+            label = edge.label;
+            rest = edge.rest.trim();
+        }
+    }
+
+    private readNode(text: string): { id: string; rest: string } | null {
+        const match = NODE_ID.exec(text);
+        if (!match) return null;
+        const id = match[0];
+        let rest = text.slice(id.length);
+        let label: string | null = null;
+
+        const shape = SHAPES.find(([opener]) => rest.startsWith(opener));
+        if (shape) {
+            const [opener, closers] = shape;
+            rest = rest.slice(opener.length);
+            if (rest.startsWith('"')) {
+                const end = rest.indexOf('"', 1);
+                if (end < 0) return null;
+                label = rest.slice(0, end + 1);
+                rest = rest.slice(end + 1);
+                const closer = closers.find(c => rest.startsWith(c));
+                if (!closer) return null;
+                rest = rest.slice(closer.length);
+            } else {
+                const ends = closers.map(c => ({ c, at: rest.indexOf(c) })).filter(({ at }) => at >= 0);
+                if (ends.length === 0) return null;
+                const { c, at } = ends.reduce((a, b) => (b.at < a.at ? b : a));
+                label = rest.slice(0, at);
+                rest = rest.slice(at + c.length);
+            }
+            if (opener !== '[') this.lost.add('Ignored node shapes');
+        } else if (rest.trimStart().startsWith('@{')) {
+            const end = rest.indexOf('}');
+            if (end < 0) return null;
+            rest = rest.slice(end + 1);
+            this.lost.add('Ignored node shapes');
+        }
+
+        const classMatch = /^:::([\w-]+)/.exec(rest);
+        if (classMatch) {
+            this.addClass(id, classMatch[1]);
+            rest = rest.slice(classMatch[0].length);
+        }
+
+        let node = this.nodes.get(id);
+        if (!node) {
+            node = { id, label: id };
+            this.nodes.set(id, node);
+        }
+        if (label !== null) node.label = decodeLabel(label, this.lost);
+        const subgraph = this.subgraphs[this.subgraphs.length - 1];
+        if (subgraph && node.category === undefined) node.category = subgraph;
+        return { id, rest };
+    }
+
+    private readEdge(text: string): { label: string | null; rest: string } | null {
+        const textEdge = TEXT_EDGE.exec(text);
+        const plainEdge = textEdge ? null : PLAIN_EDGE.exec(text);
+        const match = textEdge ?? plainEdge;
+        if (!match) return null;
+
+        const twoWay = match[1] === '<';
+        const head = textEdge ? match[5] : match[3];
+        let label = textEdge ? match[3] : null;
+        let rest = text.slice(match[0].length).trim();
+
+        const piped = /^\|([^|]*)\|/.exec(rest);
+        if (piped) {
+            label = piped[1];
+            rest = rest.slice(piped[0].length);
+        }
+
+        if (twoWay) this.lost.add('Read two-way arrows as pointing from source to target');
+        else if (head === undefined) this.lost.add('Read lines without arrowheads as pointing from source to target');
+        else if (head !== '>') this.lost.add('Ignored cross and circle arrowheads');
+        if (match[2].startsWith('~')) this.lost.add('Read invisible links as ordinary links');
+
+        return { label: label === null ? null : decodeLabel(label, this.lost), rest };
+    }
+}
+
+// "+", "-", "2", "+ 2", "- 0.5"; null when the label says something else
+function parseEdgeLabel(label: string): Pick<ImportedLink, 'polarity' | 'strength'> | null {
+    const match = /^([+-]|[^\s\d.]+)?\s*(\d+(?:\.\d+)?)?$/.exec(label.trim());
+    if (!match || (!match[1] && !match[2])) return null;
+    const polarity = match[1] ? toPolarity(match[1]) : undefined;
+    if (polarity === null) return null;
+    const strength = match[2] ? Number(match[2]) : undefined;
+    if (strength === 0) return null;
+    return {
+        ...(polarity ? { polarity } : {}),
+        ...(strength !== undefined && strength !== 1 ? { strength } : {}),
+    };
+}
+
+export function parseMermaid(text: string): NetworkValidationResult {
+    // Skip the optional "---" front matter block (title, config)
+    const body = text.replace(/^\s*---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+    const lines = body.split(/\r?\n/).map(line => line.trim());
+    const headerIdx = lines.findIndex(line => line !== '' && !line.startsWith('%%'));
+    const header = lines[headerIdx] ?? '';
+    if (!/^(flowchart|graph)\b/i.test(header)) {
+        return { ok: false, errors: ['Only Mermaid flowcharts ("flowchart" or "graph") can be imported.'], warnings: [] };
+    }
+
+    const reader = new MermaidReader();
+    lines.forEach((line, idx) => {
+        if (idx === headerIdx) {
+            // Statements may follow the header after a semicolon
+            const rest = line.replace(/^(flowchart(-elk)?|graph)\s*(TB|TD|BT|RL|LR)?\s*;?/i, '');
+            if (rest.trim()) reader.readLine(rest);
+        } else if (line !== '') {
+            reader.readLine(line);
+        }
+    });
+    const { lost } = reader;
+
+    // Subgraph ids are not nodes, even when an edge points at one
+    const links: ImportedLink[] = [];
+    reader.edges.forEach(({ source, target, label }) => {
+        if (reader.subgraphIds.has(source) || reader.subgraphIds.has(target)) {
+            lost.add('Dropped links to or from subgraphs');
+            return;
+        }
+        const link: ImportedLink = { source, target };
+        if (label) {
+            const fields = parseEdgeLabel(label);
+            if (fields) Object.assign(link, fields);
+            else lost.add('Ignored edge labels that aren\'t a polarity or strength');
+        }
+        links.push(link);
+    });
+    const nodes = [...reader.nodes.values()].filter(node => !reader.subgraphIds.has(node.id));
+
+    nodes.forEach(node => {
+        const classes = reader.nodeClasses.get(node.id) ?? [];
+        const classFill = classes.map(name => reader.classFills.get(name)).find(fill => fill);
+        const fill = reader.nodeStyles.get(node.id) ?? classFill;
+        if (fill) node.color = fill;
+        if (classes.some(name => !reader.classFills.has(name))) lost.add('Ignored classes without a fill colour');
+    });
+
+    // Restore ids and icons from our own export comments
+    const renamed = new Map<string, string>();
+    nodes.forEach(node => {
+        const metadata = reader.metadata.get(node.id);
+        if (!metadata) return;
+        if (metadata.icon) {
+            node.icon = metadata.icon;
+            if (node.label.startsWith(`${metadata.icon} `)) node.label = node.label.slice(metadata.icon.length + 1);
+        }
+        if (metadata.id) {
+            renamed.set(node.id, metadata.id);
+            node.id = metadata.id;
+        }
+    });
+    links.forEach(link => {
+        link.source = renamed.get(link.source) ?? link.source;
+        link.target = renamed.get(link.target) ?? link.target;
+    });
+
+    return finishImport(nodes, links, lost);
+}
+
+function isSafeId(id: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(id) && !RESERVED_IDS.includes(id.toLowerCase());
+}
+
+export function serializeMermaid(network: NetworkData): NetworkExport {
+    const taken = new Set(network.nodes.map(node => node.id));
+    const uniqueId = (prefix: string) => {
+        let idx = 0;
+        while (taken.has(`${prefix}${idx}`)) idx++;
+        taken.add(`${prefix}${idx}`);
+        return `${prefix}${idx}`;
+    };
+
+    const mermaidIds = new Map<string, string>();
+    const comments: string[] = [];
+    let renamedCount = 0;
+    network.nodes.forEach(node => {
+        const safe = isSafeId(node.id);
+        const id = safe ? node.id : uniqueId('n');
+        if (!safe) renamedCount++;
+        mermaidIds.set(node.id, id);
+        if (!safe || node.icon) {
+            comments.push(`    %% ${METADATA_PREFIX} ${id} ${JSON.stringify({
+                ...(safe ? {} : { id: node.id }),
+                ...(node.icon ? { icon: node.icon } : {}),
+            })}`);
+        }
+    });
+
+    const nodeLine = (node: RawNode, indent: string) => {
+        const label = node.icon ? `${node.icon} ${node.label}` : node.label;
+        return `${indent}${mermaidIds.get(node.id)}["${encodeLabel(label)}"]`;
+    };
+
+    // One subgraph per category, in order of first appearance
+    const categories = new Map<string, RawNode[]>();
+    network.nodes.forEach(node => {
+        const category = getNodeCategory(node);
+        categories.set(category, [...(categories.get(category) ?? []), node]);
+    });
+    const nodeLines: string[] = [];
+    categories.forEach((members, category) => {
+        if (category === UNCATEGORIZED) {
+            members.forEach(node => nodeLines.push(nodeLine(node, '    ')));
+            return;
+        }
+        nodeLines.push(`    subgraph ${uniqueId('category')} ["${encodeLabel(category)}"]`);
+        members.forEach(node => nodeLines.push(nodeLine(node, '        ')));
+        nodeLines.push('    end');
+    });
+
+    const linkLines = network.links.map(link => {
+        const label = [link.polarity, link.strength].filter(part => part !== undefined).join(' ');
+        const arrow = label ? `-->|"${label}"|` : '-->';
+        return `    ${mermaidIds.get(link.source)} ${arrow} ${mermaidIds.get(link.target)}`;
+    });
+
+    const styleLines = network.nodes
+        .filter(node => node.color)
+        .map(node => `    style ${mermaidIds.get(node.id)} fill:${node.color}`);
+
+    const text = ['flowchart LR', ...comments, ...nodeLines, ...linkLines, ...styleLines, ''].join('\n');
+    const lost = renamedCount > 0
+        ? [`Wrote ${renamedCount} node ids Mermaid can't use as generated ids (the originals are kept in comments)`]
+        : [];
+    return { text, lost };
+}
@@ -0,0 +1,138 @@
+import type { LinkPolarity } from '../types';
+import { NETWORK_SCHEMA_VERSION, validateNetwork, type NetworkValidationResult } from '../schema';
+
+// ==== Helpers shared by the interchange formats ====
+// Importers gather loosely-typed nodes and links plus notes on what they had
+// to drop, then run the result through the same validation as a JSON file.
+// Exporters return the text alongside what the format couldn't carry.
+
+export interface NetworkExport {
+    text: string;
+    // One line per kind of information the format couldn't hold
+    lost: string[];
+}
+
+// Node and link fields as read from another format, before validation
+export type ImportedNode = { id: string; label: string } & Partial<Record<'category' | 'color' | 'icon', string>>;
+export type ImportedLink = { source: string; target: string; polarity?: LinkPolarity; strength?: number };
+
+// Attribute names other tools commonly use for the fields we read
+const FIELD_ALIASES: Record<string, string[]> = {
+    label: ['label', 'name', 'title'],
+    category: ['category', 'group', 'type', 'class', 'cluster', 'community', 'modularity class', 'modularity_class'],
+    color: ['color', 'colour', 'fillcolor', 'fill'],
+    icon: ['icon', 'emoji'],
+    polarity: ['polarity', 'sign', 'effect'],
+    strength: ['strength', 'weight', 'value'],
+};
+
+export function matchField(name: string, field: keyof typeof FIELD_ALIASES): boolean {
+    return FIELD_ALIASES[field].includes(name.trim().toLowerCase());
+}
+
+// '#rgb' / '#rrggbb' (any case) or r,g,b components; null for anything else
+export function toHexColor(value: string | [number, number, number]): string | null {
+    if (Array.isArray(value)) {
+        if (!value.every(c => Number.isFinite(c) && c >= 0 && c <= 255)) return null;
+        return '#' + value.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+    }
+    const text = value.trim();
+    if (/^#[0-9a-f]{6}$/i.test(text)) return text.toLowerCase();
+    if (/^#[0-9a-f]{3}$/i.test(text)) return '#' + text.slice(1).split('').map(c => c + c).join('').toLowerCase();
+    return null;
+}
+
+export function toPolarity(value: string): LinkPolarity | null {
+    const text = value.trim().toLowerCase();
+    // 's' / 'o' (same / opposite) is the usual causal-loop-diagram notation
+    if (['+', '+1', '1', 'positive', 's', 'same'].includes(text)) return '+';
+    if (['-', '-1', 'negative', 'o', 'opposite'].includes(text)) return '-';
+    return null;
+}
+
+// Reads a numeric weight. A negative weight is taken as a counteracting link
+// of that magnitude; zero and non-numbers are dropped with a note.
+export function applyWeight(link: ImportedLink, value: string, lost: LossCounter) {
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight === 0) {
+        lost.add('Dropped link weights that are zero or not numbers');
+        return;
+    }
+    if (weight < 0) {
+        if (link.polarity === undefined) link.polarity = '-';
+        lost.add('Read negative link weights as "-" polarity with the same magnitude');
+    }
+    if (Math.abs(weight) !== 1) link.strength = Math.abs(weight);
+}
+
+// Maps a named attribute onto a node; false when the name isn't one we read
+export function applyNodeField(node: ImportedNode, name: string, value: string, lost: LossCounter): boolean {
+    if (matchField(name, 'label')) {
+        node.label = value;
+    } else if (matchField(name, 'category')) {
+        if (value.trim() !== '') node.category = value.trim();
+    } else if (matchField(name, 'color')) {
+        const color = toHexColor(value);
+        if (color) node.color = color;
+        else lost.add('Ignored node colors that aren\'t hex values');
+    } else if (matchField(name, 'icon')) {
+        if (value !== '') node.icon = value;
+    } else {
+        return false;
+    }
+    return true;
+}
+
+export function applyLinkField(link: ImportedLink, name: string, value: string, lost: LossCounter): boolean {
+    if (matchField(name, 'polarity')) {
+        const polarity = toPolarity(value);
+        if (polarity) link.polarity = polarity;
+        else lost.add(`Ignored link polarity "${value}"`);
+    } else if (matchField(name, 'strength')) {
+        applyWeight(link, value, lost);
+    } else {
+        return false;
+    }
+    return true;
+}
+
+// Collects what an import or export dropped, counting repeats so the report
+// reads 'Ignored node attribute "x" (×12)' rather than twelve separate lines
+export class LossCounter {
+    private counts = new Map<string, number>();
+
+    add(message: string, count: number = 1) {
+        this.counts.set(message, (this.counts.get(message) ?? 0) + count);
+    }
+
+    get size(): number {
+        return this.counts.size;
+    }
+
+    messages(): string[] {
+        return [...this.counts].map(([message, count]) => (count > 1 ? `${message} (×${count})` : message));
+    }
+}
+
+export function finishImport(nodes: ImportedNode[], links: ImportedLink[], lost: LossCounter): NetworkValidationResult {
+    const result = validateNetwork({ version: NETWORK_SCHEMA_VERSION, nodes, links });
+    return { ...result, warnings: [...lost.messages(), ...result.warnings] };
+}
+
+export function parseXml(text: string, formatName: string): { document: Document } | { error: string } {
+    const document = new DOMParser().parseFromString(text, 'application/xml');
+    const parseError = document.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+        return { error: `Malformed ${formatName} XML: ${parseError.textContent?.trim().split('\n')[0] ?? 'parse error'}` };
+    }
+    return { document };
+}
+
+// Child elements by local name, ignoring namespace prefixes (yEd writes y:*, GEXF viz:*)
+export function childElements(parent: Element, localName: string): Element[] {
+    return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+export function descendantElements(parent: Element | Document, localName: string): Element[] {
+    return Array.from(parent.getElementsByTagName('*')).filter(element => element.localName === localName);
+}
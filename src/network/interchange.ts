@@ -0,0 +1,100 @@
+import type { NetworkData } from './types';
+import { parseNetworkJson, type NetworkValidationResult } from './schema';
+import { serializeNetwork } from './editing';
+import type { NetworkExport } from './formats/shared';
+import { parseGraphml, serializeGraphml } from './formats/graphml';
+import { parseGexf, serializeGexf } from './formats/gexf';
+import { parseDot, serializeDot } from './formats/dot';
+import { parseMermaid, serializeMermaid } from './formats/mermaid';
+
+export type { NetworkExport } from './formats/shared';
+
+// ==== Network file formats ====
+// Our own JSON plus the formats of the tools researchers model systems in.
+// Imports report what they dropped as validation warnings; exports list it in
+// NetworkExport.lost.
+
+export type NetworkFormat = 'json' | 'graphml' | 'gexf' | 'dot' | 'mermaid';
+
+interface NetworkFormatInfo {
+    label: string;
+    extension: string;
+    mimeType: string;
+    // Other file extensions read as this format
+    aliases: string[];
+    parse: (text: string) => NetworkValidationResult;
+    serialize: (network: NetworkData) => NetworkExport;
+}
+
+export const NETWORK_FORMATS: Record<NetworkFormat, NetworkFormatInfo> = {
+    json: {
+        label: 'JSON',
+        extension: 'json',
+        mimeType: 'application/json',
+        aliases: [],
+        parse: parseNetworkJson,
+        serialize: network => ({ text: serializeNetwork(network), lost: [] }),
+    },
+    graphml: {
+        label: 'GraphML',
+        extension: 'graphml',
+        mimeType: 'application/graphml+xml',
+        aliases: ['xml'],
+        parse: parseGraphml,
+        serialize: serializeGraphml,
+    },
+    gexf: {
+        label: 'GEXF',
+        extension: 'gexf',
+        mimeType: 'application/gexf+xml',
+        aliases: [],
+        parse: parseGexf,
+        serialize: serializeGexf,
+    },
+    dot: {
+        label: 'DOT',
+        extension: 'dot',
+        mimeType: 'text/vnd.graphviz',
+        aliases: ['gv'],
+        parse: parseDot,
+        serialize: serializeDot,
+    },
+    mermaid: {
+        label: 'Mermaid',
+        extension: 'mmd',
+        mimeType: 'text/plain',
+        aliases: ['mermaid'],
+        parse: parseMermaid,
+        serialize: serializeMermaid,
+    },
+};
+
+// For <input type="file" accept>
+export const NETWORK_FILE_ACCEPT = Object.values(NETWORK_FORMATS)
+    .flatMap(format => [format.extension, ...format.aliases])
+    .map(extension => `.${extension}`)
+    .join(',');
+
+// By extension first, then by sniffing the content (for URLs without one)
+export function detectNetworkFormat(fileName: string, text: string): NetworkFormat {
+    const extension = /\.([a-z]+)(?:[?#].*)?$/i.exec(fileName)?.[1].toLowerCase();
+    const byExtension = (Object.keys(NETWORK_FORMATS) as NetworkFormat[]).find(format => (
+        NETWORK_FORMATS[format].extension === extension || NETWORK_FORMATS[format].aliases.includes(extension ?? '')
+    ));
+    if (byExtension && extension !== 'xml') return byExtension;
+
+    const start = text.trimStart().slice(0, 500);
+    if (/<gexf[\s>]/.test(start)) return 'gexf';
+    if (/<graphml[\s>]/.test(start)) return 'graphml';
+    if (/^(strict\s+)?(di)?graph\s*("[^"]*"|[^\s{]*)\s*\{/i.test(start)) return 'dot';
+    if (/^(---[\s\S]*?---\s*)?(%%.*\s*)*(flowchart|graph)\b/i.test(start)) return 'mermaid';
+    return byExtension ?? 'json';
+}
+
+export function parseNetworkText(text: string, fileName: string): NetworkValidationResult {
+    return NETWORK_FORMATS[detectNetworkFormat(fileName, text)].parse(text);
+}
+
+export function exportNetwork(network: NetworkData, format: NetworkFormat): NetworkExport {
+    return NETWORK_FORMATS[format].serialize(network);
+}
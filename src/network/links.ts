@@ -0,0 +1,31 @@
+import type { RawLink } from './types';
+
+// ==== Link weight helpers ====
+// Links without a polarity are treated as positive and links without a strength
+// as strength 1, which keeps unannotated networks behaving as before.
+
+export const DEFAULT_LINK_STRENGTH = 1;
+
+export function getLinkStrength(link: RawLink): number {
+    return link.strength ?? DEFAULT_LINK_STRENGTH;
+}
+
+export function getLinkSign(link: RawLink): 1 | -1 {
+    return link.polarity === '-' ? -1 : 1;
+}
+
+export function getSignedWeight(link: RawLink): number {
+    return getLinkSign(link) * getLinkStrength(link);
+}
+
+// ==== Visual encoding shared by the 2D and hierarchical views ====
+export function getLinkColor(link: RawLink, neutralColor: string): string {
+    if (link.polarity === '+') return '#4ECDC4';
+    if (link.polarity === '-') return '#FF6B6B';
+    return neutralColor;
+}
+
+export function getLinkWidth(link: RawLink, baseWidth: number): number {
+    const strength = Math.min(3, Math.max(0.25, getLinkStrength(link)));
+    return baseWidth * strength;
+}
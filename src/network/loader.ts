@@ -0,0 +1,69 @@
+import type { NetworkValidationResult } from './schema';
+import { parseNetworkText } from './interchange';
+
+// ==== Runtime network loading ====
+// Networks are fetched or read at runtime so a different design network can be
+// swapped in without rebuilding the app. Any format in interchange.ts is accepted.
+
+export const DEFAULT_NETWORK_URL = `${import.meta.env.BASE_URL}data.json`;
+
+export type NetworkLoadResult = NetworkValidationResult & { source: string };
+
+// ==== Read the ?network= query parameter ====
+// Only same-origin paths are accepted: the parameter is meant to point at a
+// network file served next to the app, not at arbitrary hosts.
+export function getNetworkUrlFromQuery(search: string = window.location.search): string | null {
+    const value = new URLSearchParams(search).get('network');
+    if (!value) return null;
+
+    try {
+        const url = new URL(value, window.location.href);
+        if (url.origin !== window.location.origin) return null;
+        return url.pathname + url.search;
+    } catch {
+        return null;
+    }
+}
+
+// A parser that throws on some odd input reports it like any other unreadable file
+function parseLoadedText(text: string, source: string): NetworkLoadResult {
+    try {
+        return { ...parseNetworkText(text, source), source };
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { ok: false, errors: [`Could not read ${source}: ${detail}`], warnings: [], source };
+    }
+}
+
+export async function loadNetworkFromUrl(url: string): Promise<NetworkLoadResult> {
+    let text: string;
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            return {
+                ok: false,
+                errors: [`Could not load ${url}: ${response.status} ${response.statusText}`.trim()],
+                warnings: [],
+                source: url,
+            };
+        }
+        text = await response.text();
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { ok: false, errors: [`Could not load ${url}: ${detail}`], warnings: [], source: url };
+    }
+
+    return parseLoadedText(text, url);
+}
+
+export async function loadNetworkFromFile(file: File): Promise<NetworkLoadResult> {
+    let text: string;
+    try {
+        text = await file.text();
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { ok: false, errors: [`Could not read ${file.name}: ${detail}`], warnings: [], source: file.name };
+    }
+
+    return parseLoadedText(text, file.name);
+}
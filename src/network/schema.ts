@@ -0,0 +1,170 @@
+import type { LinkPolarity, NetworkData, RawLink, RawNode } from './types';
+
+// ==== Versioned network schema ====
+// Version 1: { version: 1, nodes: [{ id, label }], links: [{ source, target }] }
+// Version 2: links may also carry "polarity" ('+' | '-') and "strength" (> 0)
+// Version 3: nodes may also carry "category", "color" ('#rgb' or '#rrggbb') and "icon"
+// Files without a "version" field predate versioning and are read as version 1.
+export const NETWORK_SCHEMA_VERSION = 3;
+
+export type NetworkValidationResult =
+    | { ok: true; network: NetworkData; warnings: string[] }
+    | { ok: false; errors: string[]; warnings: string[] };
+
+// Cap on how many individual problems we report so a badly broken file
+// doesn't produce a wall of text.
+const MAX_REPORTED_ERRORS = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Expands '#rgb' so panels can append an alpha suffix; null if not a hex color
+function normalizeHexColor(value: string): string | null {
+    if (/^#[0-9a-f]{6}$/i.test(value)) return value;
+    if (/^#[0-9a-f]{3}$/i.test(value)) {
+        return '#' + value.slice(1).split('').map(c => c + c).join('');
+    }
+    return null;
+}
+
+// ==== Validate an already-parsed value against the schema ====
+export function validateNetwork(raw: unknown): NetworkValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!isRecord(raw)) {
+        return { ok: false, errors: ['Network file must contain a JSON object with "nodes" and "links".'], warnings };
+    }
+
+    let version = NETWORK_SCHEMA_VERSION;
+    if (raw.version === undefined) {
+        version = 1;
+        warnings.push('No "version" field; assuming schema version 1.');
+    } else if (typeof raw.version !== 'number' || !Number.isInteger(raw.version)) {
+        errors.push('"version" must be an integer.');
+    } else if (raw.version > NETWORK_SCHEMA_VERSION || raw.version < 1) {
+        errors.push(`Unsupported schema version ${raw.version} (this app reads version ${NETWORK_SCHEMA_VERSION}).`);
+    } else {
+        version = raw.version;
+    }
+
+    if (!Array.isArray(raw.nodes)) {
+        errors.push('"nodes" must be an array.');
+    }
+    if (!Array.isArray(raw.links)) {
+        errors.push('"links" must be an array.');
+    }
+    if (errors.length > 0) {
+        return { ok: false, errors, warnings };
+    }
+
+    const nodes: RawNode[] = [];
+    const nodeIds = new Set<string>();
+
+    (raw.nodes as unknown[]).forEach((entry, idx) => {
+        if (!isRecord(entry)) {
+            errors.push(`nodes[${idx}] must be an object.`);
+            return;
+        }
+        const { id, label, category, color, icon } = entry;
+        if (typeof id !== 'string' || id.trim() === '') {
+            errors.push(`nodes[${idx}] is missing a non-empty string "id".`);
+            return;
+        }
+        if (typeof label !== 'string') {
+            errors.push(`Node "${id}" (nodes[${idx}]) is missing a string "label".`);
+            return;
+        }
+        if (category !== undefined && (typeof category !== 'string' || category.trim() === '')) {
+            errors.push(`Node "${id}" (nodes[${idx}]) has "category" ${JSON.stringify(category)}; expected a non-empty string.`);
+            return;
+        }
+        const hexColor = typeof color === 'string' ? normalizeHexColor(color) : null;
+        if (color !== undefined && hexColor === null) {
+            errors.push(`Node "${id}" (nodes[${idx}]) has "color" ${JSON.stringify(color)}; expected "#rgb" or "#rrggbb".`);
+            return;
+        }
+        if (icon !== undefined && typeof icon !== 'string') {
+            errors.push(`Node "${id}" (nodes[${idx}]) has "icon" ${JSON.stringify(icon)}; expected a string.`);
+            return;
+        }
+        if (nodeIds.has(id)) {
+            errors.push(`Duplicate node id "${id}" at nodes[${idx}].`);
+            return;
+        }
+        nodeIds.add(id);
+        const node: RawNode = { id, label };
+        if (category !== undefined) node.category = category as string;
+        if (hexColor !== null) node.color = hexColor;
+        if (icon !== undefined && icon !== '') node.icon = icon as string;
+        nodes.push(node);
+    });
+
+    const links: RawLink[] = [];
+    const linkKeys = new Set<string>();
+
+    (raw.links as unknown[]).forEach((entry, idx) => {
+        if (!isRecord(entry)) {
+            errors.push(`links[${idx}] must be an object.`);
+            return;
+        }
+        const { source, target, polarity, strength } = entry;
+        if (typeof source !== 'string' || typeof target !== 'string') {
+            errors.push(`links[${idx}] needs string "source" and "target".`);
+            return;
+        }
+        if (polarity !== undefined && polarity !== '+' && polarity !== '-') {
+            errors.push(`links[${idx}] (${source} → ${target}) has "polarity" ${JSON.stringify(polarity)}; expected "+" or "-".`);
+            return;
+        }
+        if (strength !== undefined && (typeof strength !== 'number' || !Number.isFinite(strength) || strength <= 0)) {
+            errors.push(`links[${idx}] (${source} → ${target}) has "strength" ${JSON.stringify(strength)}; expected a positive number.`);
+            return;
+        }
+        const unknownEnds = [source, target].filter(id => !nodeIds.has(id));
+        if (unknownEnds.length > 0) {
+            errors.push(
+                `links[${idx}] (${source} → ${target}) points at unknown node${unknownEnds.length > 1 ? 's' : ''} ` +
+                unknownEnds.map(id => `"${id}"`).join(', ') + '.'
+            );
+            return;
+        }
+        const key = `${source}->${target}`;
+        if (linkKeys.has(key)) {
+            warnings.push(`Duplicate link ${source} → ${target} at links[${idx}] was ignored.`);
+            return;
+        }
+        linkKeys.add(key);
+        const link: RawLink = { source, target };
+        if (polarity !== undefined) link.polarity = polarity as LinkPolarity;
+        if (strength !== undefined) link.strength = strength as number;
+        links.push(link);
+    });
+
+    if (nodes.length === 0 && errors.length === 0) {
+        errors.push('Network has no nodes.');
+    }
+
+    if (errors.length > 0) {
+        const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+        if (errors.length > MAX_REPORTED_ERRORS) {
+            reported.push(`…and ${errors.length - MAX_REPORTED_ERRORS} more problems.`);
+        }
+        return { ok: false, errors: reported, warnings };
+    }
+
+    return { ok: true, network: { version, nodes, links }, warnings };
+}
+
+// ==== Parse JSON text, reporting syntax errors in the same shape ====
+export function parseNetworkJson(text: string): NetworkValidationResult {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { ok: false, errors: [`Malformed JSON: ${detail}`], warnings: [] };
+    }
+    return validateNetwork(raw);
+}
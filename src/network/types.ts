@@ -0,0 +1,29 @@
+// ==== Network data model ====
+// Shapes shared by the loader, the scene and every panel that reads the graph.
+
+export interface RawNode {
+    id: string;
+    label: string;
+    // Id of the category this node belongs to (see categories.ts)
+    category?: string;
+    // '#rrggbb'; overrides the category color
+    color?: string;
+    // Short text or emoji shown before the label
+    icon?: string;
+}
+
+// '+' amplifies the target, '-' counteracts it
+export type LinkPolarity = '+' | '-';
+
+export interface RawLink {
+    source: string;
+    target: string;
+    polarity?: LinkPolarity;
+    strength?: number;
+}
+
+export interface NetworkData {
+    version: number;
+    nodes: RawNode[];
+    links: RawLink[];
+}
@@ -0,0 +1,60 @@
+// ==== Fuzzy matching ====
+// Subsequence match in the spirit of editor "go to file" pickers: every query
+// character must appear in order. Runs of consecutive characters and matches at
+// the start of a word score higher, so "ac" ranks "Assembly Complexity" above
+// "Fabrication".
+
+export interface FuzzyMatch {
+    score: number;
+    // Indices into the text of each matched character, for highlighting
+    indices: number[];
+}
+
+function isWordStart(text: string, idx: number): boolean {
+    if (idx === 0) return true;
+    const prev = text[idx - 1];
+    const current = text[idx];
+    // Word separators, plus camelCase boundaries in ids like "supplyChain"
+    return /[\s/&()\-_.]/.test(prev) || (prev === prev.toLowerCase() && current !== current.toLowerCase());
+}
+
+function matchFrom(needle: string, text: string, preferWordStarts: boolean): FuzzyMatch | null {
+    const haystack = text.toLowerCase();
+    const indices: number[] = [];
+    let score = 0;
+    let from = 0;
+
+    for (const ch of needle) {
+        if (ch === ' ') continue;
+        // Prefer the next occurrence at a word start, otherwise the next occurrence at all
+        let idx = haystack.indexOf(ch, from);
+        if (idx === -1) return null;
+        for (let j = idx; preferWordStarts && j !== -1; j = haystack.indexOf(ch, j + 1)) {
+            if (isWordStart(text, j)) {
+                idx = j;
+                break;
+            }
+        }
+
+        const previous = indices[indices.length - 1];
+        score += 1;
+        if (previous !== undefined && idx === previous + 1) score += 3;
+        if (isWordStart(text, idx)) score += 2;
+        indices.push(idx);
+        from = idx + 1;
+    }
+
+    if (haystack.startsWith(needle)) score += 5;
+    // Among equal matches, shorter texts are closer to what was typed
+    score -= text.length * 0.01;
+
+    return { score, indices };
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+    const needle = query.trim().toLowerCase();
+    if (needle === '') return { score: 0, indices: [] };
+    // Jumping ahead to word starts can skip the only occurrence of a later
+    // character, so fall back to the plain left-most match
+    return matchFrom(needle, text, true) ?? matchFrom(needle, text, false);
+}
@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import type { NetworkData } from '../network/types';
+import type { NodeExploration } from '../exploration/types';
+import { getExplorationScore } from '../exploration/ordering';
+import { compareNetworks, parseSessionFile, type SessionEvent } from './sessionFile';
+
+// ==== Workshop aggregate ====
+// Several participants' session files merged into one view: the mean feedback
+// score per node and how much participants disagree about it. Only
+// participants who gave feedback on a node count towards its numbers.
+
+export interface Participant {
+    // Assigned when loaded; stays the same if the name is disambiguated
+    id: string;
+    // The profile name, or the file name; see uniqueParticipantName
+    name: string;
+    fileName: string;
+    explorationData: Map<string, NodeExploration>;
+    history: SessionEvent[];
+}
+
+export interface NodeAggregate {
+    // Mean exploration score, -2 (familiar) to +2 (insightful)
+    mean: number;
+    // Population variance of the scores, 0 (agreement) to 4 (split down the middle)
+    variance: number;
+    // Participants who gave feedback on the node
+    raters: number;
+}
+
+export type HeatmapMode = 'mean' | 'variance';
+
+export const HEATMAP_LABELS: Record<HeatmapMode, string> = {
+    mean: 'Mean score',
+    variance: 'Disagreement',
+};
+
+export const UNRATED_COLOR = '#555566';
+
+const FAMILIAR_COLOR = new THREE.Color('#F38181');
+const NEUTRAL_COLOR = new THREE.Color('#a0a0a0');
+const INSIGHTFUL_COLOR = new THREE.Color('#4ECDC4');
+const AGREE_COLOR = new THREE.Color('#4f7cff');
+const DISAGREE_COLOR = new THREE.Color('#ff3b3b');
+
+export type ParticipantLoadResult =
+    | { ok: true; participant: Participant; warnings: string[] }
+    | { ok: false; errors: string[] };
+
+export function loadParticipant(
+    id: string,
+    fileName: string,
+    text: string,
+    network: NetworkData
+): ParticipantLoadResult {
+    const result = parseSessionFile(text);
+    if (!result.ok) return { ok: false, errors: result.errors.map(error => `${fileName}: ${error}`) };
+
+    const { session } = result;
+    const name = session.profile || fileName.replace(/\.json$/i, '');
+
+    const nodeIds = new Set(network.nodes.map(node => node.id));
+    const explorationData = new Map([...session.state.explorationData].filter(([id]) => nodeIds.has(id)));
+
+    return {
+        ok: true,
+        participant: { id, name, fileName, explorationData, history: session.history },
+        warnings: [...result.warnings, ...compareNetworks(session.network, network)].map(warning => `${fileName}: ${warning}`),
+    };
+}
+
+// Keeps participants with the same profile name apart: "ana", "ana (2)", ...
+export function uniqueParticipantName(name: string, taken: Set<string>): string {
+    let unique = name;
+    for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`;
+    return unique;
+}
+
+export function aggregateFeedback(participants: Participant[], nodeIds: string[]): Map<string, NodeAggregate> {
+    const aggregates = new Map<string, NodeAggregate>();
+    nodeIds.forEach(id => {
+        const scores = participants
+            .filter(participant => {
+                const data = participant.explorationData.get(id);
+                return data && data.insightful + data.neutral + data.familiar > 0;
+            })
+            .map(participant => getExplorationScore(id, participant.explorationData));
+        if (scores.length === 0) return;
+
+        const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+        const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+        aggregates.set(id, { mean, variance, raters: scores.length });
+    });
+    return aggregates;
+}
+
+export function getHeatColor(aggregate: NodeAggregate | undefined, mode: HeatmapMode): string {
+    if (!aggregate) return UNRATED_COLOR;
+    const color = mode === 'mean'
+        ? new THREE.Color().lerpColors(
+            NEUTRAL_COLOR,
+            aggregate.mean >= 0 ? INSIGHTFUL_COLOR : FAMILIAR_COLOR,
+            Math.min(1, Math.abs(aggregate.mean) / 2)
+        )
+        // Disagreement needs at least two raters to mean anything
+        : new THREE.Color().lerpColors(
+            AGREE_COLOR,
+            DISAGREE_COLOR,
+            aggregate.raters > 1 ? Math.min(1, aggregate.variance / 2) : 0
+        );
+    return `#${color.getHexString()}`;
+}
+
+// The moment the participant's session ended, so time-decayed orderings
+// compare participants as they stood at the end rather than as of today
+export function getParticipantClock(participant: Participant): number {
+    const times = participant.history.map(event => Date.parse(event.at)).filter(Number.isFinite);
+    return times.length > 0 ? Math.max(...times) : Date.now();
+}
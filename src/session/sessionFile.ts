@@ -0,0 +1,229 @@
+import type { NetworkData } from '../network/types';
+import { validateNetwork } from '../network/schema';
+import {
+    isTraversalDirection,
+    type NodeExploration,
+    type NodeLayer,
+    type TraversalDirection
+} from '../exploration/types';
+import { explorationToRecord, layoutToRecord, recordToExploration, recordToLayout } from './storage';
+import type { Layout2D } from '../layout/types';
+import { parseOrderingSettings, type FeedbackRecord, type OrderingSettings } from '../exploration/ordering';
+
+// ==== Portable session files ====
+// A session file holds everything needed to replay a participant's exploration:
+// the network it was recorded against, per-node feedback, the current view and
+// the timestamped sequence of layer reorganizations.
+
+export const SESSION_FILE_FORMAT = 'cybernetic-design-session';
+export const SESSION_FILE_VERSION = 1;
+
+export type SessionEventType = 'select' | 'close' | 'feedback' | 'mode' | 'direction';
+
+export interface SessionEvent {
+    at: string;
+    type: SessionEventType;
+    nodeId: string | null;
+    // Set on 'feedback' events
+    feedback?: 'insightful' | 'neutral' | 'familiar';
+    // Set on 'mode' events
+    cyberneticMode?: boolean;
+    // Set on 'direction' events
+    direction?: TraversalDirection;
+    previousLayers: NodeLayer[];
+    layers: NodeLayer[];
+}
+
+export interface SessionState {
+    cyberneticMode: boolean;
+    direction: TraversalDirection;
+    ordering: OrderingSettings;
+    activeNode: string | null;
+    explorationData: Map<string, NodeExploration>;
+    layout2D: Layout2D;
+    hierarchicalLayers: NodeLayer[];
+    previousLayers: NodeLayer[];
+}
+
+export interface SessionSnapshot {
+    profile: string;
+    startedAt: string;
+    exportedAt: string;
+    network: NetworkData;
+    state: SessionState;
+    history: SessionEvent[];
+}
+
+export type SessionParseResult =
+    | { ok: true; session: SessionSnapshot; warnings: string[] }
+    | { ok: false; errors: string[]; warnings: string[] };
+
+// ==== Export ====
+export function serializeSession(session: Omit<SessionSnapshot, 'exportedAt'>): string {
+    const { state } = session;
+
+    return JSON.stringify({
+        format: SESSION_FILE_FORMAT,
+        version: SESSION_FILE_VERSION,
+        profile: session.profile,
+        startedAt: session.startedAt,
+        exportedAt: new Date().toISOString(),
+        network: session.network,
+        state: {
+            cyberneticMode: state.cyberneticMode,
+            direction: state.direction,
+            ordering: state.ordering,
+            activeNode: state.activeNode,
+            explorationData: explorationToRecord(state.explorationData),
+            layout2D: layoutToRecord(state.layout2D),
+            hierarchicalLayers: state.hierarchicalLayers,
+            previousLayers: state.previousLayers,
+        },
+        history: session.history,
+    }, null, 2);
+}
+
+// ==== Import ====
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLayers(value: unknown): NodeLayer[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter(isRecord)
+        .filter(layer => typeof layer.level === 'number' && Array.isArray(layer.nodes))
+        .map(layer => ({
+            level: layer.level as number,
+            nodes: (layer.nodes as unknown[]).filter((id): id is string => typeof id === 'string'),
+        }));
+}
+
+// Also used to read the history kept in localStorage
+export function parseSessionHistory(value: unknown): SessionEvent[] {
+    if (!Array.isArray(value)) return [];
+    const types: SessionEventType[] = ['select', 'close', 'feedback', 'mode', 'direction'];
+
+    return value.filter(isRecord).flatMap(event => {
+        if (typeof event.at !== 'string' || !types.includes(event.type as SessionEventType)) return [];
+        const parsed: SessionEvent = {
+            at: event.at,
+            type: event.type as SessionEventType,
+            nodeId: typeof event.nodeId === 'string' ? event.nodeId : null,
+            previousLayers: parseLayers(event.previousLayers),
+            layers: parseLayers(event.layers),
+        };
+        if (event.feedback === 'insightful' || event.feedback === 'neutral' || event.feedback === 'familiar') {
+            parsed.feedback = event.feedback;
+        }
+        if (typeof event.cyberneticMode === 'boolean') {
+            parsed.cyberneticMode = event.cyberneticMode;
+        }
+        if (isTraversalDirection(event.direction)) {
+            parsed.direction = event.direction;
+        }
+        return [parsed];
+    });
+}
+
+// Dated feedback for the time-decay ordering
+export function getFeedbackLog(history: SessionEvent[]): FeedbackRecord[] {
+    return history.flatMap(event => (
+        event.type === 'feedback' && event.nodeId && event.feedback
+            ? [{ nodeId: event.nodeId, feedback: event.feedback, at: Date.parse(event.at) }]
+            : []
+    ));
+}
+
+export function parseSessionFile(text: string): SessionParseResult {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { ok: false, errors: [`Malformed JSON: ${detail}`], warnings: [] };
+    }
+
+    if (!isRecord(raw) || raw.format !== SESSION_FILE_FORMAT) {
+        return { ok: false, errors: ['Not a session file (missing "format": "cybernetic-design-session").'], warnings: [] };
+    }
+    if (typeof raw.version !== 'number' || raw.version > SESSION_FILE_VERSION) {
+        return {
+            ok: false,
+            errors: [`Unsupported session file version ${String(raw.version)} (this app reads version ${SESSION_FILE_VERSION}).`],
+            warnings: [],
+        };
+    }
+
+    const networkResult = validateNetwork(raw.network);
+    if (!networkResult.ok) {
+        return {
+            ok: false,
+            errors: networkResult.errors.map(error => `Recorded network: ${error}`),
+            warnings: [],
+        };
+    }
+
+    const state = isRecord(raw.state) ? raw.state : {};
+
+    return {
+        ok: true,
+        session: {
+            profile: typeof raw.profile === 'string' ? raw.profile : '',
+            startedAt: typeof raw.startedAt === 'string' ? raw.startedAt : '',
+            exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+            network: networkResult.network,
+            state: {
+                cyberneticMode: state.cyberneticMode === true,
+                // Files written before upstream traversal existed were always downstream
+                direction: isTraversalDirection(state.direction) ? state.direction : 'downstream',
+                ordering: parseOrderingSettings(state.ordering),
+                activeNode: typeof state.activeNode === 'string' ? state.activeNode : null,
+                explorationData: recordToExploration(isRecord(state.explorationData) ? state.explorationData : {}),
+                layout2D: recordToLayout(isRecord(state.layout2D) ? state.layout2D : {}),
+                hierarchicalLayers: parseLayers(state.hierarchicalLayers),
+                previousLayers: parseLayers(state.previousLayers),
+            },
+            history: parseSessionHistory(raw.history),
+        },
+        warnings: [],
+    };
+}
+
+// ==== Describe how the current network differs from the recorded one ====
+export function compareNetworks(recorded: NetworkData, current: NetworkData): string[] {
+    const warnings: string[] = [];
+    const currentById = new Map(current.nodes.map(n => [n.id, n]));
+    const recordedIds = new Set(recorded.nodes.map(n => n.id));
+
+    const removed = recorded.nodes.filter(n => !currentById.has(n.id));
+    const renamed = recorded.nodes.filter(n => {
+        const now = currentById.get(n.id);
+        return now && now.label !== n.label;
+    });
+    const added = current.nodes.filter(n => !recordedIds.has(n.id));
+
+    if (removed.length > 0) {
+        warnings.push(
+            `${removed.length} recorded node${removed.length > 1 ? 's are' : ' is'} no longer in the network; ` +
+            `their feedback was dropped: ${removed.map(n => n.label).join(', ')}.`
+        );
+    }
+    renamed.forEach(n => {
+        warnings.push(`"${n.label}" (${n.id}) has been renamed to "${currentById.get(n.id)!.label}".`);
+    });
+    if (added.length > 0) {
+        warnings.push(`${added.length} node${added.length > 1 ? 's were' : ' was'} added since recording: ${added.map(n => n.label).join(', ')}.`);
+    }
+
+    const linkKey = (l: { source: string; target: string }) => `${l.source}->${l.target}`;
+    const recordedLinks = new Set(recorded.links.map(linkKey));
+    const currentLinks = new Set(current.links.map(linkKey));
+    const removedLinks = [...recordedLinks].filter(key => !currentLinks.has(key)).length;
+    const addedLinks = [...currentLinks].filter(key => !recordedLinks.has(key)).length;
+    if (removedLinks > 0 || addedLinks > 0) {
+        warnings.push(`Links changed since recording (${addedLinks} added, ${removedLinks} removed), so paths may differ.`);
+    }
+
+    return warnings;
+}
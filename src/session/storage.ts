@@ -0,0 +1,220 @@
+import { isTraversalDirection, type NodeExploration, type TraversalDirection } from '../exploration/types';
+import type { Layout2D } from '../layout/types';
+import { parseOrderingSettings, type OrderingSettings } from '../exploration/ordering';
+
+// ==== Local persistence of exploration state ====
+// Sessions are stored in localStorage per profile and per network source, so
+// each facilitator keeps a separate history for each network they load.
+
+const STORAGE_PREFIX = 'cdn';
+const SESSION_STORAGE_VERSION = 1;
+
+export interface LayoutRecordEntry {
+    x: number;
+    y: number;
+    // Only written for pinned nodes
+    pinned?: true;
+}
+
+export interface PersistedSession {
+    version: number;
+    savedAt: string;
+    cyberneticMode: boolean;
+    direction: TraversalDirection;
+    // Adaptive ordering strategy and its parameters
+    ordering: OrderingSettings;
+    activeNode: string | null;
+    explorationData: Record<string, NodeExploration>;
+    layout2D: Record<string, LayoutRecordEntry>;
+    // Seed of the last randomized layout, if the layout came from one
+    layoutSeed: string | null;
+    // Session log, kept so an export after a reload still has the full history
+    startedAt: string;
+    history: unknown[];
+}
+
+function sessionKey(profile: string, networkSource: string): string {
+    return `${STORAGE_PREFIX}:session:${encodeURIComponent(profile)}:${networkSource}`;
+}
+
+function seedGalleryKey(profile: string, networkSource: string): string {
+    return `${STORAGE_PREFIX}:seeds:${encodeURIComponent(profile)}:${networkSource}`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+// ==== Map <-> plain object conversion (shared with session files) ====
+export function explorationToRecord(explorationData: Map<string, NodeExploration>): Record<string, NodeExploration> {
+    const record: Record<string, NodeExploration> = {};
+    explorationData.forEach((value, id) => {
+        record[id] = { ...value };
+    });
+    return record;
+}
+
+export function recordToExploration(record: Record<string, unknown>): Map<string, NodeExploration> {
+    const map = new Map<string, NodeExploration>();
+    Object.entries(record).forEach(([id, value]) => {
+        if (typeof value !== 'object' || value === null) return;
+        const { visits, insightful, neutral, familiar } = value as Record<string, unknown>;
+        if (![visits, insightful, neutral, familiar].every(isFiniteNumber)) return;
+        map.set(id, {
+            visits: visits as number,
+            insightful: insightful as number,
+            neutral: neutral as number,
+            familiar: familiar as number,
+        });
+    });
+    return map;
+}
+
+export function layoutToRecord(layout: Layout2D): Record<string, LayoutRecordEntry> {
+    const record: Record<string, LayoutRecordEntry> = {};
+    layout.forEach((pos, id) => {
+        record[id] = pos.pinned ? { x: pos.x, y: pos.y, pinned: true } : { x: pos.x, y: pos.y };
+    });
+    return record;
+}
+
+export function recordToLayout(record: Record<string, unknown>): Layout2D {
+    const layout: Layout2D = new Map();
+    Object.entries(record).forEach(([id, value]) => {
+        if (typeof value !== 'object' || value === null) return;
+        const { x, y, pinned } = value as Record<string, unknown>;
+        if (!isFiniteNumber(x) || !isFiniteNumber(y)) return;
+        layout.set(id, pinned === true ? { x, y, vx: 0, vy: 0, pinned } : { x, y, vx: 0, vy: 0 });
+    });
+    return layout;
+}
+
+// ==== Read / write ====
+export function loadPersistedSession(profile: string, networkSource: string): PersistedSession | null {
+    try {
+        const text = localStorage.getItem(sessionKey(profile, networkSource));
+        if (!text) return null;
+
+        const raw = JSON.parse(text);
+        if (typeof raw !== 'object' || raw === null || raw.version !== SESSION_STORAGE_VERSION) return null;
+
+        return {
+            version: raw.version,
+            savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : '',
+            cyberneticMode: raw.cyberneticMode === true,
+            direction: isTraversalDirection(raw.direction) ? raw.direction : 'downstream',
+            ordering: parseOrderingSettings(raw.ordering),
+            activeNode: typeof raw.activeNode === 'string' ? raw.activeNode : null,
+            explorationData: typeof raw.explorationData === 'object' && raw.explorationData ? raw.explorationData : {},
+            layout2D: typeof raw.layout2D === 'object' && raw.layout2D ? raw.layout2D : {},
+            layoutSeed: typeof raw.layoutSeed === 'string' ? raw.layoutSeed : null,
+            startedAt: typeof raw.startedAt === 'string' ? raw.startedAt : '',
+            history: Array.isArray(raw.history) ? raw.history : [],
+        };
+    } catch (err) {
+        console.warn('Ignoring unreadable saved session', err);
+        return null;
+    }
+}
+
+export function savePersistedSession(
+    profile: string,
+    networkSource: string,
+    session: Omit<PersistedSession, 'version' | 'savedAt'>
+) {
+    const payload: PersistedSession = {
+        version: SESSION_STORAGE_VERSION,
+        savedAt: new Date().toISOString(),
+        ...session,
+    };
+
+    try {
+        localStorage.setItem(sessionKey(profile, networkSource), JSON.stringify(payload));
+    } catch (err) {
+        // Quota exceeded or storage disabled: keep running without persistence
+        console.warn('Could not save session', err);
+    }
+}
+
+export function clearProfileSessions(profile: string) {
+    const prefixes = ['session', 'seeds'].map(kind => `${STORAGE_PREFIX}:${kind}:${encodeURIComponent(profile)}:`);
+    try {
+        Object.keys(localStorage)
+            .filter(key => prefixes.some(prefix => key.startsWith(prefix)))
+            .forEach(key => localStorage.removeItem(key));
+    } catch (err) {
+        console.warn('Could not clear profile sessions', err);
+    }
+}
+
+// ==== Saved layout seeds ====
+// A short gallery per profile and network, so a facilitator can flip between
+// layouts they liked. The layout itself is kept alongside the seed because the
+// same seed gives a different layout once the network has been edited.
+export const MAX_SAVED_SEEDS = 12;
+
+export interface SavedLayoutSeed {
+    seed: string;
+    name: string;
+    savedAt: string;
+    layout2D: Record<string, LayoutRecordEntry>;
+}
+
+export function loadSeedGallery(profile: string, networkSource: string): SavedLayoutSeed[] {
+    try {
+        const raw = JSON.parse(localStorage.getItem(seedGalleryKey(profile, networkSource)) || '[]');
+        if (!Array.isArray(raw)) return [];
+        return raw
+            .filter(entry => typeof entry === 'object' && entry !== null && typeof entry.seed === 'string')
+            .map(entry => ({
+                seed: entry.seed,
+                name: typeof entry.name === 'string' ? entry.name : entry.seed,
+                savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : '',
+                layout2D: typeof entry.layout2D === 'object' && entry.layout2D ? entry.layout2D : {},
+            }))
+            .slice(0, MAX_SAVED_SEEDS);
+    } catch (err) {
+        console.warn('Ignoring unreadable seed gallery', err);
+        return [];
+    }
+}
+
+export function saveSeedGallery(profile: string, networkSource: string, entries: SavedLayoutSeed[]) {
+    try {
+        localStorage.setItem(seedGalleryKey(profile, networkSource), JSON.stringify(entries.slice(0, MAX_SAVED_SEEDS)));
+    } catch (err) {
+        console.warn('Could not save seed gallery', err);
+    }
+}
+
+// ==== Profiles ====
+export const DEFAULT_PROFILE = 'Default';
+
+export interface ProfileRegistry {
+    active: string;
+    names: string[];
+}
+
+const PROFILES_KEY = `${STORAGE_PREFIX}:profiles`;
+
+export function loadProfiles(): ProfileRegistry {
+    try {
+        const raw = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+        if (raw && Array.isArray(raw.names) && raw.names.length > 0) {
+            const names = raw.names.filter((name: unknown): name is string => typeof name === 'string');
+            const active = names.includes(raw.active) ? raw.active : names[0];
+            if (names.length > 0) return { active, names };
+        }
+    } catch (err) {
+        console.warn('Ignoring unreadable profile list', err);
+    }
+    return { active: DEFAULT_PROFILE, names: [DEFAULT_PROFILE] };
+}
+
+export function saveProfiles(registry: ProfileRegistry) {
+    try {
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(registry));
+    } catch (err) {
+        console.warn('Could not save profile list', err);
+    }
+}
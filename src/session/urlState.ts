@@ -0,0 +1,61 @@
+import { isTraversalDirection, type TraversalDirection } from '../exploration/types';
+
+// ==== Shareable view state in the URL hash ====
+// e.g. #node=material&mode=cybernetic&dir=both&seed=k3v9qa&cam=8,6,8,0,2,0
+// Defaults (standard mode, downstream) are left out to keep links short, so a
+// hash with any view state in it describes the whole view.
+
+export interface CameraPose {
+    position: [number, number, number];
+    target: [number, number, number];
+}
+
+export interface UrlViewState {
+    activeNode: string | null;
+    cyberneticMode: boolean;
+    direction: TraversalDirection;
+    layoutSeed: string | null;
+    camera: CameraPose | null;
+}
+
+function parseCamera(text: string | null): CameraPose | null {
+    if (!text) return null;
+    const values = text.split(',').map(Number);
+    if (values.length !== 6 || !values.every(Number.isFinite)) return null;
+    return {
+        position: [values[0], values[1], values[2]],
+        target: [values[3], values[4], values[5]],
+    };
+}
+
+function formatCamera(camera: CameraPose): string {
+    // Centimetre precision is plenty for a shared view
+    return [...camera.position, ...camera.target].map(v => Math.round(v * 100) / 100).join(',');
+}
+
+// Returns null when the hash carries no view state, so the saved session applies
+export function parseUrlState(hash: string): UrlViewState | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    if (!['node', 'mode', 'dir', 'seed', 'cam'].some(key => params.has(key))) return null;
+
+    const direction = params.get('dir');
+    return {
+        activeNode: params.get('node') || null,
+        cyberneticMode: params.get('mode') === 'cybernetic',
+        direction: isTraversalDirection(direction) ? direction : 'downstream',
+        layoutSeed: params.get('seed') || null,
+        camera: parseCamera(params.get('cam')),
+    };
+}
+
+export function formatUrlState(state: UrlViewState): string {
+    const params = new URLSearchParams();
+    if (state.activeNode) params.set('node', state.activeNode);
+    if (state.cyberneticMode) params.set('mode', 'cybernetic');
+    if (state.direction !== 'downstream') params.set('dir', state.direction);
+    if (state.layoutSeed) params.set('seed', state.layoutSeed);
+    if (state.camera) params.set('cam', formatCamera(state.camera));
+    // Commas are safe in a hash; leaving them readable keeps the camera legible
+    const text = params.toString().replace(/%2C/g, ',');
+    return text ? `#${text}` : '';
+}
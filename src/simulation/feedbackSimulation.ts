@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+import type { RawLink, RawNode } from '../network/types';
+import { getLinkStrength, getSignedWeight } from '../network/links';
+
+// ==== Time-stepped feedback simulation ====
+// Each node holds a numeric state. On every tick a node keeps part of its own
+// state (damping) and takes on the weighted average of its upstream states
+// (coupling), signed by link polarity. A tanh squashes the result so that
+// reinforcing loops saturate instead of growing without bound.
+
+export type NodeStates = Map<string, number>;
+
+export interface SimulationParams {
+    damping: number;     // Fraction of a node's own state lost each tick (0–1)
+    coupling: number;    // How much of the incoming signal is passed on (0–2)
+    saturation: number;  // States are squashed into [-saturation, saturation]
+}
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+    damping: 0.2,
+    coupling: 0.6,
+    saturation: 1,
+};
+
+// Below this largest per-node change the network counts as settled
+export const EQUILIBRIUM_THRESHOLD = 1e-3;
+
+export type SimulationStatus = 'idle' | 'adapting' | 'oscillating' | 'settled';
+
+function saturate(value: number, saturation: number): number {
+    return saturation * Math.tanh(value / saturation);
+}
+
+export function createInitialStates(nodes: RawNode[]): NodeStates {
+    const states: NodeStates = new Map();
+    nodes.forEach(node => states.set(node.id, 0));
+    return states;
+}
+
+export function stepSimulation(
+    states: NodeStates,
+    nodes: RawNode[],
+    links: RawLink[],
+    params: SimulationParams
+): NodeStates {
+    const signal = new Map<string, number>();
+    const totalWeight = new Map<string, number>();
+
+    links.forEach(link => {
+        const sourceState = states.get(link.source) || 0;
+        signal.set(link.target, (signal.get(link.target) || 0) + sourceState * getSignedWeight(link));
+        totalWeight.set(link.target, (totalWeight.get(link.target) || 0) + getLinkStrength(link));
+    });
+
+    const next: NodeStates = new Map();
+    nodes.forEach(node => {
+        const current = states.get(node.id) || 0;
+        const weight = totalWeight.get(node.id) || 0;
+        const incoming = weight > 0 ? (signal.get(node.id) || 0) / weight : 0;
+        const raw = current * (1 - params.damping) + params.coupling * incoming;
+        next.set(node.id, saturate(raw, params.saturation));
+    });
+
+    return next;
+}
+
+// One-off impulse, e.g. "raise Cost & Time"
+export function perturbNode(states: NodeStates, nodeId: string, amount: number, params: SimulationParams): NodeStates {
+    const next = new Map(states);
+    next.set(nodeId, saturate((states.get(nodeId) || 0) + amount, params.saturation));
+    return next;
+}
+
+export function getMaxChange(previous: NodeStates, next: NodeStates): number {
+    let max = 0;
+    next.forEach((value, id) => {
+        max = Math.max(max, Math.abs(value - (previous.get(id) || 0)));
+    });
+    return max;
+}
+
+// Mean state across the network; its history is what the panel plots
+export function getMeanState(states: NodeStates): number {
+    if (states.size === 0) return 0;
+    let sum = 0;
+    states.forEach(value => {
+        sum += value;
+    });
+    return sum / states.size;
+}
+
+// ==== Classify recent behaviour from the mean-state history ====
+// Repeated direction reversals in the mean mean the system is swinging back and forth.
+export function classifySimulation(history: number[], lastChange: number, tick: number): SimulationStatus {
+    if (tick === 0) return 'idle';
+    if (lastChange < EQUILIBRIUM_THRESHOLD) return 'settled';
+
+    const recent = history.slice(-12);
+    let reversals = 0;
+    for (let i = 2; i < recent.length; i++) {
+        const before = recent[i - 1] - recent[i - 2];
+        const after = recent[i] - recent[i - 1];
+        if (before * after < 0) reversals++;
+    }
+
+    return reversals >= 3 ? 'oscillating' : 'adapting';
+}
+
+// ==== State → colour (blue for suppressed, grey neutral, orange for raised) ====
+const NEUTRAL_COLOR = new THREE.Color('#a0a0a0');
+const RAISED_COLOR = new THREE.Color('#ff8c42');
+const LOWERED_COLOR = new THREE.Color('#4f7cff');
+
+export function getStateColor(value: number, saturation: number): string {
+    const t = Math.max(-1, Math.min(1, value / saturation));
+    const color = new THREE.Color().lerpColors(
+        NEUTRAL_COLOR,
+        t >= 0 ? RAISED_COLOR : LOWERED_COLOR,
+        Math.abs(t)
+    );
+    return `#${color.getHexString()}`;
+}
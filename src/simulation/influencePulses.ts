@@ -0,0 +1,122 @@
+import type { RawLink } from '../network/types';
+import type { TraversalDirection } from '../exploration/types';
+import { getLinkStrength } from '../network/links';
+
+// ==== Influence pulses ====
+// Timing for the ripple animation in the path view. Pulses leave the selected
+// node and travel along every link among the shown nodes, following links
+// downstream and running back along them upstream. Each node lights up when
+// the first pulse reaches it. With 'depth' timing every hop takes the same
+// time, so the path lights up layer by layer; with 'weight' timing strong
+// links carry the pulse faster than weak ones.
+
+export type PulseTiming = 'depth' | 'weight';
+
+export const PULSE_TIMING_LABELS: Record<PulseTiming, string> = {
+    depth: 'By depth',
+    weight: 'By weight',
+};
+
+export const PULSE_SPEEDS = [0.5, 1, 2, 4];
+
+// Seconds a pulse takes to cross a strength-1 link at 1× speed
+export const PULSE_HOP_SECONDS = 0.9;
+
+// How long a node glows after a pulse reaches it
+export const PULSE_FLASH_SECONDS = 0.8;
+
+export interface PulseHop {
+    link: RawLink;
+    // The pulse runs from → to, which is against the link when spreading upstream
+    from: string;
+    to: string;
+    start: number;
+    duration: number;
+}
+
+export interface PulseSchedule {
+    hops: PulseHop[];
+    // When the first pulse reaches each node; the origin is at 0
+    arrivals: Map<string, number>;
+    // Time at which the last pulse lands
+    duration: number;
+}
+
+function hopDuration(link: RawLink, timing: PulseTiming): number {
+    if (timing === 'depth') return PULSE_HOP_SECONDS;
+    // Same clamp as the drawn line width, so the thickest links are the fastest
+    return PULSE_HOP_SECONDS / Math.min(3, Math.max(0.25, getLinkStrength(link)));
+}
+
+// Earliest arrival times from the origin (Dijkstra; paths are small enough for
+// a linear scan), plus one hop along every link leaving a reached node
+function spread(
+    links: RawLink[],
+    origin: string,
+    downstream: boolean,
+    timing: PulseTiming
+): { hops: PulseHop[]; arrivals: Map<string, number> } {
+    const neighbours = new Map<string, { to: string; link: RawLink }[]>();
+    links.forEach(link => {
+        const from = downstream ? link.source : link.target;
+        const to = downstream ? link.target : link.source;
+        if (!neighbours.has(from)) neighbours.set(from, []);
+        neighbours.get(from)!.push({ to, link });
+    });
+
+    const arrivals = new Map<string, number>([[origin, 0]]);
+    const settled = new Set<string>();
+    while (settled.size < arrivals.size) {
+        let current = '';
+        let earliest = Infinity;
+        for (const [id, time] of arrivals) {
+            if (!settled.has(id) && time < earliest) {
+                current = id;
+                earliest = time;
+            }
+        }
+        settled.add(current);
+        (neighbours.get(current) ?? []).forEach(({ to, link }) => {
+            const time = earliest + hopDuration(link, timing);
+            if (time < (arrivals.get(to) ?? Infinity)) arrivals.set(to, time);
+        });
+    }
+
+    const hops: PulseHop[] = [];
+    settled.forEach(from => {
+        (neighbours.get(from) ?? []).forEach(({ to, link }) => {
+            hops.push({ link, from, to, start: arrivals.get(from)!, duration: hopDuration(link, timing) });
+        });
+    });
+    return { hops, arrivals };
+}
+
+// `links` should already be limited to the nodes on screen
+export function schedulePulses(
+    links: RawLink[],
+    origin: string,
+    direction: TraversalDirection,
+    timing: PulseTiming
+): PulseSchedule {
+    const spreads = [
+        ...(direction === 'upstream' ? [] : [spread(links, origin, true, timing)]),
+        ...(direction === 'downstream' ? [] : [spread(links, origin, false, timing)]),
+    ];
+
+    const arrivals = new Map<string, number>();
+    spreads.forEach(result => result.arrivals.forEach((time, id) => {
+        arrivals.set(id, Math.min(time, arrivals.get(id) ?? Infinity));
+    }));
+
+    // A link reached from both sides pulses once, from whichever side gets there first
+    const hopsByLink = new Map<string, PulseHop>();
+    spreads.flatMap(result => result.hops).forEach(hop => {
+        const key = `${hop.link.source}->${hop.link.target}`;
+        const existing = hopsByLink.get(key);
+        if (!existing || hop.start < existing.start) hopsByLink.set(key, hop);
+    });
+    const hops = [...hopsByLink.values()];
+
+    const duration = hops.reduce((latest, hop) => Math.max(latest, hop.start + hop.duration), 0);
+    return { hops, arrivals, duration };
+}
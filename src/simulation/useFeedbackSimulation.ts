@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { RawLink, RawNode } from '../network/types';
+import {
+    DEFAULT_SIMULATION_PARAMS,
+    classifySimulation,
+    createInitialStates,
+    getMaxChange,
+    getMeanState,
+    perturbNode,
+    stepSimulation,
+    type NodeStates,
+    type SimulationParams,
+    type SimulationStatus
+} from './feedbackSimulation';
+
+const TICK_INTERVAL_MS = 200;
+const HISTORY_LENGTH = 60;
+
+interface SimulationSnapshot {
+    states: NodeStates;
+    tick: number;
+    lastChange: number;
+    history: number[];
+}
+
+export interface FeedbackSimulation {
+    states: NodeStates;
+    tick: number;
+    lastChange: number;
+    history: number[];
+    status: SimulationStatus;
+    playing: boolean;
+    params: SimulationParams;
+    setParams: (params: SimulationParams) => void;
+    play: () => void;
+    pause: () => void;
+    step: () => void;
+    reset: () => void;
+    perturb: (nodeId: string, amount: number) => void;
+}
+
+// ==== React wrapper around the simulation engine ====
+export function useFeedbackSimulation(nodes: RawNode[], links: RawLink[]): FeedbackSimulation {
+    const [params, setParams] = useState<SimulationParams>(DEFAULT_SIMULATION_PARAMS);
+    const [playing, setPlaying] = useState(false);
+    const [snapshot, setSnapshot] = useState<SimulationSnapshot>(() => ({
+        states: createInitialStates(nodes),
+        tick: 0,
+        lastChange: 0,
+        history: [],
+    }));
+
+    const step = useCallback(() => {
+        setSnapshot(prev => {
+            const states = stepSimulation(prev.states, nodes, links, params);
+            return {
+                states,
+                tick: prev.tick + 1,
+                lastChange: getMaxChange(prev.states, states),
+                history: [...prev.history, getMeanState(states)].slice(-HISTORY_LENGTH),
+            };
+        });
+    }, [nodes, links, params]);
+
+    useEffect(() => {
+        if (!playing) return;
+        const interval = setInterval(step, TICK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [playing, step]);
+
+    const reset = useCallback(() => {
+        setPlaying(false);
+        setSnapshot({ states: createInitialStates(nodes), tick: 0, lastChange: 0, history: [] });
+    }, [nodes]);
+
+    const perturb = useCallback((nodeId: string, amount: number) => {
+        setSnapshot(prev => {
+            const states = perturbNode(prev.states, nodeId, amount, params);
+            // Count the impulse as a change so the run doesn't read as settled straight away
+            return { ...prev, states, tick: Math.max(prev.tick, 1), lastChange: Math.abs(amount) };
+        });
+    }, [params]);
+
+    return {
+        states: snapshot.states,
+        tick: snapshot.tick,
+        lastChange: snapshot.lastChange,
+        history: snapshot.history,
+        status: classifySimulation(snapshot.history, snapshot.lastChange, snapshot.tick),
+        playing,
+        params,
+        setParams,
+        play: () => setPlaying(true),
+        pause: () => setPlaying(false),
+        step,
+        reset,
+        perturb,
+    };
+}
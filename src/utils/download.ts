@@ -0,0 +1,16 @@
+// ==== Trigger a browser download for generated content ====
+export function downloadBlob(filename: string, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Revoke on the next tick so the download has started before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(filename: string, text: string, mimeType: string = 'application/json') {
+    downloadBlob(filename, new Blob([text], { type: mimeType }));
+}
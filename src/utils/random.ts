@@ -0,0 +1,40 @@
+// ==== Seeded random numbers ====
+// Randomized layouts draw from a generator seeded by a short string, so the
+// same seed on the same network always gives the same layout. Any text works
+// as a seed, so a workshop can name the layouts it wants to keep.
+
+export type Random = () => number;
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 6;
+
+// FNV-1a, to turn seed text into 32 bits of state
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for layout noise
+export function createRandom(seed: string): Random {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// A fresh seed that is easy to read aloud and type (no 0/o or 1/l)
+export function generateSeed(): string {
+    let seed = '';
+    for (let i = 0; i < SEED_LENGTH; i++) {
+        seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+    }
+    return seed;
+}
@@ -0,0 +1,7 @@
+// ==== Escape text for XML attributes and content ====
+// Quotes are escaped too, so the result is safe inside either kind of
+// attribute, and so are tabs and line breaks, which attribute values would
+// otherwise read back as spaces
+export function escapeXml(text: string): string {
+    return text.replace(/[<>&'"\t\n\r]/g, char => `&#${char.charCodeAt(0)};`);
+}